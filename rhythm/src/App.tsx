@@ -9,9 +9,18 @@ import { Collections } from './screens/Collections';
 import { Shop } from './screens/Shop';
 import { Settings } from './screens/Settings';
 import { CharacterCreator } from './screens/CharacterCreator';
+import { History } from './screens/History';
+import { WeeklyReview } from './screens/WeeklyReview';
+import { Insights } from './screens/Insights';
+import { MealPlanner } from './screens/MealPlanner';
+import { GroceryList } from './screens/GroceryList';
+import { Pantry } from './screens/Pantry';
 import { useTutorialStore } from './stores/useTutorialStore';
+import { useMealPlanFollowUp } from './hooks/useMealPlanFollowUp';
+import { usePantryTracking } from './hooks/usePantryTracking';
 
 import { BottomNav } from './components/common/BottomNav';
+import { UndoToast } from './components/common/UndoToast';
 import { useCharacterStore } from './stores/useCharacterStore';
 import { useGardenStore } from './stores/useGardenStore';
 import { DEV_MODE } from './config/devMode';
@@ -63,6 +72,11 @@ function SeasonResetModal() {
 function AppContent() {
   const tutorialComplete = useTutorialStore((s) => s.tutorialComplete);
 
+  // Finishing the meal plan builds the grocery list
+  useMealPlanFollowUp();
+  // Cooking uses up the pantry; low staples go on the list
+  usePantryTracking();
+
   return (
     <div className="pb-16">
       <SeasonResetModal />
@@ -76,7 +90,14 @@ function AppContent() {
         <Route path="/shop" element={<Shop />} />
         <Route path="/challenges" element={<Navigate to="/shop" replace />} />
         <Route path="/settings" element={<Settings />} />
+        <Route path="/history" element={<History />} />
+        <Route path="/review" element={<WeeklyReview />} />
+        <Route path="/insights" element={<Insights />} />
+        <Route path="/meals" element={<MealPlanner />} />
+        <Route path="/groceries" element={<GroceryList />} />
+        <Route path="/pantry" element={<Pantry />} />
       </Routes>
+      <UndoToast />
       <BottomNav dimmed={!tutorialComplete} />
     </div>
   );
@@ -3,6 +3,7 @@ import { parseISO, differenceInMinutes, format, set as setTime } from 'date-fns'
 import { useChildStore } from '../../stores/useChildStore';
 import { useAwayStore } from '../../stores/useAwayStore';
 import { useCareBlockStore } from '../../stores/useCareBlockStore';
+import { emitCareTransitionEvents } from '../../stores/useTransitionStore';
 
 function formatDuration(minutes: number): string {
   const hours = Math.floor(minutes / 60);
@@ -20,6 +21,8 @@ export function AwayControls() {
   const updateAwayLog = useAwayStore((state) => state.updateAwayLog);
   const getActiveAwayForChild = useAwayStore((state) => state.getActiveAwayForChild);
   const blocks = useCareBlockStore((state) => state.blocks);
+  const getActiveBlocksForDate = useCareBlockStore((state) => state.getActiveBlocksForDate);
+  const skipChildOnDate = useCareBlockStore((state) => state.skipChildOnDate);
 
   const [editingLogId, setEditingLogId] = useState<string | null>(null);
   const [editTime, setEditTime] = useState('');
@@ -45,8 +48,33 @@ export function AwayControls() {
     );
   };
 
+  // Scheduled away blocks for a child today (after exceptions)
+  const getScheduledAwayToday = (childId: string) => {
+    return getActiveBlocksForDate(new Date()).filter(
+      (block) =>
+        block.childIds.includes(childId) &&
+        (block.blockType === 'childcare' || block.blockType === 'babysitter')
+    );
+  };
+
+  // "Not today": child stays home, so skip today's blocks and end any away log
+  const handleNotToday = (childId: string) => {
+    skipChildOnDate(childId, format(new Date(), 'yyyy-MM-dd'), 'Not today');
+    if (getActiveAwayForChild(childId)) {
+      endAway(childId);
+    }
+  };
+
+  // Heading off to a care block is a drop-off, and coming home from one a pickup
   const handleStartAway = (childId: string, scheduleName?: string) => {
     startAway(childId, scheduleName);
+    if (scheduleName) emitCareTransitionEvents('care-block-start', childId);
+  };
+
+  const handleEndAway = (childId: string) => {
+    const scheduleName = getActiveAwayForChild(childId)?.scheduleName;
+    endAway(childId);
+    if (scheduleName) emitCareTransitionEvents('care-block-end', childId);
   };
 
   const handleEditStart = (logId: string, currentStartedAt: string) => {
@@ -75,7 +103,7 @@ export function AwayControls() {
   const anyChildAway = children.some((child) => getActiveAwayForChild(child.id));
 
   return (
-    <div className="bg-parchment rounded-lg p-4">
+    <div className="bg-parchment rounded-lg p-4 mb-4">
       <div className="flex items-center justify-between mb-3">
         <h2 className="font-body font-semibold text-bark/80 text-sm uppercase tracking-wide">
           Away / Home
@@ -93,6 +121,7 @@ export function AwayControls() {
           const activeAway = getActiveAwayForChild(child.id);
           const isAway = !!activeAway;
           const childcareOptions = getChildcareOptions(child.id);
+          const scheduledToday = getScheduledAwayToday(child.id);
           const isEditing = activeAway && editingLogId === activeAway.id;
 
           // Calculate duration
@@ -121,7 +150,7 @@ export function AwayControls() {
 
                 {isAway ? (
                   <button
-                    onClick={() => endAway(child.id)}
+                    onClick={() => handleEndAway(child.id)}
                     className="px-4 py-2 rounded-lg text-sm font-medium transition-colors bg-sage text-cream hover:bg-sage/90"
                   >
                     Home
@@ -165,6 +194,16 @@ export function AwayControls() {
                 )}
               </div>
 
+              {/* Skip today's scheduled care (sick day, staying home) */}
+              {scheduledToday.length > 0 && (
+                <button
+                  onClick={() => handleNotToday(child.id)}
+                  className="text-xs text-bark/50 hover:text-bark/70"
+                >
+                  Not today — skip {scheduledToday.map((b) => b.name).join(', ')}
+                </button>
+              )}
+
               {/* Edit start time section */}
               {isAway && activeAway && (
                 <div className="pl-0">
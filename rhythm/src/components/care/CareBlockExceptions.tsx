@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useCareBlockStore } from '../../stores/useCareBlockStore';
+import { useChildStore } from '../../stores/useChildStore';
+import type { CareBlock, CareBlockException } from '../../types';
+
+type ExceptionType = CareBlockException['type'];
+
+const TYPE_OPTIONS: { value: ExceptionType; label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'move', label: 'Move to another day' },
+  { value: 'change-times', label: 'Different times' },
+];
+
+const inputClass = 'px-2 py-1 rounded-lg border border-bark/20 bg-cream focus:outline-none focus:border-sage text-sm';
+
+function describeException(ex: CareBlockException, getChildName: (id: string) => string | undefined): string {
+  const date = format(parseISO(ex.date), 'EEE, MMM d');
+  switch (ex.type) {
+    case 'skip': {
+      const who = ex.childIds?.length
+        ? ` (${ex.childIds.map(getChildName).filter(Boolean).join(' & ')} home)`
+        : '';
+      return `${date}: skipped${who}`;
+    }
+    case 'move':
+      return `${date}: moved to ${format(parseISO(ex.toDate), 'EEE, MMM d')}`;
+    case 'change-times':
+      return `${date}: ${ex.startTime}–${ex.endTime}`;
+  }
+}
+
+/**
+ * Per-date exceptions for a recurring care block (skip, move, change times)
+ */
+export function CareBlockExceptions({ block }: { block: CareBlock }) {
+  const addException = useCareBlockStore((state) => state.addException);
+  const removeException = useCareBlockStore((state) => state.removeException);
+  const getChild = useChildStore((state) => state.getChild);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [type, setType] = useState<ExceptionType>('skip');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState('');
+  const [startTime, setStartTime] = useState(block.startTime);
+  const [endTime, setEndTime] = useState(block.endTime);
+  const [reason, setReason] = useState('');
+
+  const exceptions = [...(block.exceptions ?? [])].sort((a, b) => a.date.localeCompare(b.date));
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const upcoming = exceptions.filter((ex) => ex.date >= today || (ex.type === 'move' && ex.toDate >= today));
+
+  const handleAdd = () => {
+    if (!date) return;
+    const trimmedReason = reason.trim() || undefined;
+    if (type === 'skip') {
+      addException(block.id, { date, type, reason: trimmedReason });
+    } else if (type === 'move') {
+      if (!toDate) return;
+      addException(block.id, { date, type, toDate, reason: trimmedReason });
+    } else {
+      addException(block.id, { date, type, startTime, endTime, reason: trimmedReason });
+    }
+    setIsAdding(false);
+    setReason('');
+    setToDate('');
+  };
+
+  return (
+    <div className="border-t border-bark/10 pt-3 mt-3">
+      <label className="text-xs text-bark/50 block mb-2">Exceptions</label>
+
+      {upcoming.length > 0 && (
+        <ul className="space-y-1 mb-2">
+          {upcoming.map((ex) => (
+            <li key={ex.id} className="flex items-center justify-between text-sm text-bark/70">
+              <span>
+                {describeException(ex, (id) => getChild(id)?.name)}
+                {ex.reason && <span className="text-bark/40"> · {ex.reason}</span>}
+              </span>
+              <button
+                onClick={() => removeException(block.id, ex.id)}
+                className="text-bark/30 hover:text-terracotta text-xs px-1"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isAdding ? (
+        <div className="space-y-2 bg-cream/60 rounded-lg p-2">
+          <div className="flex gap-2">
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className={`${inputClass} flex-1`}
+            />
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as ExceptionType)}
+              className={`${inputClass} flex-1`}
+            >
+              {TYPE_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {type === 'move' && (
+            <div className="flex items-center gap-2 text-sm text-bark/70">
+              <span>To</span>
+              <input
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className={`${inputClass} flex-1`}
+              />
+            </div>
+          )}
+
+          {type === 'change-times' && (
+            <div className="flex items-center gap-2">
+              <input
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                className={`${inputClass} flex-1`}
+              />
+              <span className="text-bark/40 text-sm">to</span>
+              <input
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                className={`${inputClass} flex-1`}
+              />
+            </div>
+          )}
+
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            className={`${inputClass} w-full`}
+          />
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsAdding(false)}
+              className="px-3 py-1 text-xs text-bark/60 hover:text-bark"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={!date || (type === 'move' && !toDate)}
+              className="px-3 py-1 text-xs bg-sage text-cream rounded hover:bg-sage/90 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="text-xs text-bark/50 hover:text-bark/70"
+        >
+          + Add exception
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import { useTransitionStore } from '../../stores/useTransitionStore';
+
+// How often to look for drop-offs and pickups that just came due
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Asks about scheduled drop-offs and pickups as they come due. The away
+ * state has already flipped; "No" flips it back, and "Not today" keeps the
+ * child home from this occurrence of the block.
+ */
+export function CareTransitionPrompt() {
+  const transitions = useTransitionStore((state) => state.transitions);
+  const checkForTransitions = useTransitionStore((state) => state.checkForTransitions);
+  const getPendingTransitions = useTransitionStore((state) => state.getPendingTransitions);
+  const confirmTransition = useTransitionStore((state) => state.confirmTransition);
+  const dismissTransition = useTransitionStore((state) => state.dismissTransition);
+  const skipTransitionToday = useTransitionStore((state) => state.skipTransitionToday);
+
+  useEffect(() => {
+    checkForTransitions();
+    const interval = setInterval(checkForTransitions, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [checkForTransitions]);
+
+  const pending = transitions.length > 0 ? getPendingTransitions() : [];
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-4">
+      {pending.map((transition) => (
+        <div key={transition.id} className="bg-sage/10 rounded-lg p-4">
+          <p className="text-sm text-bark mb-3">{transition.description}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => confirmTransition(transition.id)}
+              className="px-3 py-2 rounded-lg text-sm font-medium bg-sage text-cream hover:bg-sage/90"
+            >
+              Yes
+            </button>
+            <button
+              onClick={() => dismissTransition(transition.id)}
+              className="px-3 py-2 rounded-lg text-sm text-bark/60 hover:text-bark"
+            >
+              No
+            </button>
+            {transition.type === 'care-block-start' && (
+              <button
+                onClick={() => skipTransitionToday(transition.id)}
+                className="px-3 py-2 rounded-lg text-sm text-bark/60 hover:text-bark"
+              >
+                Not today
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useCareBlockStore } from '../../stores/useCareBlockStore';
+
+const inputClass = 'px-3 py-2 rounded-lg border border-bark/20 bg-cream focus:outline-none focus:border-sage text-sm';
+
+/**
+ * Closure dates (public holidays, inset days) applied to several care
+ * blocks at once
+ */
+export function HolidayClosures() {
+  const blocks = useCareBlockStore((state) => state.blocks);
+  const closures = useCareBlockStore((state) => state.closures);
+  const addClosure = useCareBlockStore((state) => state.addClosure);
+  const removeClosure = useCareBlockStore((state) => state.removeClosure);
+
+  const [name, setName] = useState('');
+  const [date, setDate] = useState('');
+  const [selectedBlockIds, setSelectedBlockIds] = useState<string[]>([]);
+
+  // Closures only make sense for blocks the kids leave the house for
+  const closableBlocks = blocks.filter(
+    (b) => b.recurrence !== 'one-off' && b.blockType !== 'sleep'
+  );
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const upcoming = closures
+    .filter((c) => c.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const toggleBlock = (blockId: string) => {
+    setSelectedBlockIds((ids) =>
+      ids.includes(blockId) ? ids.filter((id) => id !== blockId) : [...ids, blockId]
+    );
+  };
+
+  const handleAdd = () => {
+    if (!name.trim() || !date || selectedBlockIds.length === 0) return;
+    addClosure({ name: name.trim(), date, blockIds: selectedBlockIds });
+    setName('');
+    setDate('');
+    setSelectedBlockIds([]);
+  };
+
+  if (closableBlocks.length === 0) return null;
+
+  return (
+    <div className="bg-parchment rounded-xl p-4 mt-4">
+      <h3 className="text-sm font-medium text-bark mb-1">Holiday closures</h3>
+      <p className="text-xs text-bark/50 mb-3">
+        Days when daycare, school or activities are closed. Those blocks are skipped for the day.
+      </p>
+
+      {upcoming.length > 0 && (
+        <ul className="space-y-1 mb-3">
+          {upcoming.map((closure) => (
+            <li key={closure.id} className="flex items-center justify-between text-sm text-bark/70">
+              <span>
+                {format(parseISO(closure.date), 'EEE, MMM d')} · {closure.name}
+                <span className="text-bark/40">
+                  {' '}({closure.blockIds
+                    .map((id) => blocks.find((b) => b.id === id)?.name)
+                    .filter(Boolean)
+                    .join(', ')})
+                </span>
+              </span>
+              <button
+                onClick={() => removeClosure(closure.id)}
+                className="text-bark/30 hover:text-terracotta text-xs px-1"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Thanksgiving"
+            className={`${inputClass} flex-1`}
+          />
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {closableBlocks.map((block) => (
+            <button
+              key={block.id}
+              onClick={() => toggleBlock(block.id)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-all ${
+                selectedBlockIds.includes(block.id)
+                  ? 'bg-sage text-cream'
+                  : 'bg-cream text-bark/50 hover:bg-cream/80'
+              }`}
+            >
+              {block.name}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleAdd}
+          disabled={!name.trim() || !date || selectedBlockIds.length === 0}
+          className="w-full py-2 rounded-lg text-sm bg-sage text-cream hover:bg-sage/90 disabled:opacity-50"
+        >
+          Add closure
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useChildStore } from '../../stores/useChildStore';
+import { useAvailability } from '../../hooks/useAvailability';
+import type { ChildAvailability, ChildStatusSource } from '../../types';
+
+const STATUS_LABELS: Record<ChildAvailability, string> = {
+  away: 'away',
+  asleep: 'asleep',
+  awake: 'home',
+};
+
+const SOURCE_LABELS: Record<Exclude<ChildStatusSource, 'schedule'>, string> = {
+  'sleep-log': 'sleep log',
+  'away-log': 'marked away/home',
+  'care-status': 'from a task',
+};
+
+/**
+ * Children whose logged state differs from the schedule, e.g.
+ * "Julian is away · scheduled home (marked away/home)"
+ */
+export function ScheduleDifferences() {
+  const { childStatusDetails } = useAvailability();
+  const getChild = useChildStore((state) => state.getChild);
+
+  const differences = Object.entries(childStatusDetails).filter(
+    ([, detail]) => detail.source !== 'schedule' && detail.actual !== detail.scheduled
+  );
+  if (differences.length === 0) return null;
+
+  return (
+    <ul className="mt-2 space-y-0.5">
+      {differences.map(([childId, detail]) => (
+        <li key={childId} className="text-xs text-bark/50">
+          <span className="text-bark/70">
+            {getChild(childId)?.name} is {STATUS_LABELS[detail.actual]}
+          </span>
+          {' · '}scheduled {STATUS_LABELS[detail.scheduled]}
+          {detail.source !== 'schedule' && (
+            <span className="text-bark/30"> ({SOURCE_LABELS[detail.source]})</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
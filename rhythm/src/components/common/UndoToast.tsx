@@ -0,0 +1,75 @@
+import { useEffect, useRef, useState } from 'react';
+import { useActivityStore } from '../../stores/useActivityStore';
+import { useActivityUndo } from '../../hooks/useActivityUndo';
+import type { ActivityEntry, ActivityType } from '../../types';
+
+const TOAST_TYPES: ActivityType[] = [
+  'task-completed',
+  'task-skipped',
+  'task-deferred',
+  'task-deleted',
+  'seed-dismissed',
+];
+
+const TOAST_MS = 5000;
+
+/**
+ * Offers "Undo" for a few seconds after a task action, then "Redo" once
+ * it's been undone
+ */
+export function UndoToast() {
+  const { undo, redo } = useActivityUndo();
+  const [toast, setToast] = useState<{ entry: ActivityEntry; undone: boolean } | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const show = (entry: ActivityEntry, undone: boolean) => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    setToast({ entry, undone });
+    timerRef.current = setTimeout(() => setToast(null), TOAST_MS);
+  };
+
+  // Watch for new task actions the user took themselves
+  useEffect(() => {
+    const unsubscribe = useActivityStore.subscribe((state, prev) => {
+      const lastSeenId = prev.entries.at(-1)?.id;
+      const start = lastSeenId ? state.entries.map((e) => e.id).lastIndexOf(lastSeenId) + 1 : 0;
+      if (start === 0 && lastSeenId) return;
+      const action = state.entries
+        .slice(start)
+        .filter((e) => TOAST_TYPES.includes(e.type) && !e.groupId && !e.auto)
+        .at(-1);
+      if (action) show(action, false);
+    });
+    return () => {
+      unsubscribe();
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  if (!toast) return null;
+
+  const handleClick = () => {
+    if (toast.undone) {
+      redo(toast.entry.id);
+    } else {
+      undo(toast.entry.id);
+      show(toast.entry, true);
+    }
+  };
+
+  return (
+    <div className="fixed top-4 left-0 right-0 flex justify-center z-50 pointer-events-none px-4">
+      <div className="pointer-events-auto flex items-center gap-3 bg-bark text-cream pl-4 pr-2 py-2 rounded-xl shadow-xl max-w-sm">
+        <p className="text-sm truncate">
+          {toast.undone ? `Undone: ${toast.entry.label}` : toast.entry.label}
+        </p>
+        <button
+          onClick={handleClick}
+          className="px-3 py-1 rounded-lg text-sm font-semibold text-cream hover:bg-cream/10 flex-shrink-0"
+        >
+          {toast.undone ? 'Redo' : 'Undo'}
+        </button>
+      </div>
+    </div>
+  );
+}
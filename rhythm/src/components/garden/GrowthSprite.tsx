@@ -23,6 +23,9 @@ const BLOOM_EMOJI: Record<FlowerType, string> = {
   'poppy': '🌺',
   'hibiscus': '🌺',
   'pansy': '🌸',
+  'enough-primula': '🌼',
+  'great-tulip': '🌷',
+  'epic-hibiscus': '🌺',
 };
 
 // Sprite sheet frames 0–4 map to: planted, seed, sprout, budding, bloom
@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { useMealStore, RECIPE_TAG_SUGGESTIONS } from '../../stores/useMealStore';
+import { describePrepTiming } from '../../utils/mealPrep';
+import type { PrepStep, Recipe } from '../../types';
+
+interface RecipeEditorProps {
+  recipe: Recipe | null; // null = new recipe
+  onClose: () => void;
+}
+
+export function RecipeEditor({ recipe, onClose }: RecipeEditorProps) {
+  const addRecipe = useMealStore((s) => s.addRecipe);
+  const updateRecipe = useMealStore((s) => s.updateRecipe);
+  const deleteRecipe = useMealStore((s) => s.deleteRecipe);
+
+  const [title, setTitle] = useState(recipe?.title ?? '');
+  const [ingredients, setIngredients] = useState(recipe?.ingredients.join('\n') ?? '');
+  const [prepMinutes, setPrepMinutes] = useState(recipe?.prepMinutes?.toString() ?? '');
+  const [tags, setTags] = useState<string[]>(recipe?.tags ?? []);
+  const [customTag, setCustomTag] = useState('');
+  const [prepSteps, setPrepSteps] = useState<PrepStep[]>(recipe?.prepSteps ?? []);
+  const [stepTitle, setStepTitle] = useState('');
+  const [stepMode, setStepMode] = useState<'at' | 'before'>('at');
+  const [stepTime, setStepTime] = useState('20:00');
+  const [stepDaysBefore, setStepDaysBefore] = useState(1);
+  const [stepHoursBefore, setStepHoursBefore] = useState('8');
+
+  const tagOptions = [...new Set([...RECIPE_TAG_SUGGESTIONS, ...tags])];
+
+  const toggleTag = (tag: string) => {
+    setTags((current) => (current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]));
+  };
+
+  const addCustomTag = () => {
+    const tag = customTag.trim().toLowerCase();
+    if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+    setCustomTag('');
+  };
+
+  // "Thaw chicken" at 8pm the day before, or "Soak beans" 8 hr before the meal
+  const addPrepStep = () => {
+    const hours = parseFloat(stepHoursBefore);
+    if (!stepTitle.trim() || (stepMode === 'before' && !(hours > 0))) return;
+    setPrepSteps([
+      ...prepSteps,
+      {
+        id: uuidv4(),
+        title: stepTitle.trim(),
+        time: stepMode === 'at' ? stepTime : null,
+        daysBefore: stepMode === 'at' ? stepDaysBefore : 0,
+        minutesBefore: stepMode === 'before' ? Math.round(hours * 60) : null,
+      },
+    ]);
+    setStepTitle('');
+  };
+
+  const handleSave = () => {
+    if (!title.trim()) return;
+    const minutes = parseInt(prepMinutes, 10);
+    const data = {
+      title: title.trim(),
+      ingredients: ingredients.split('\n').map((line) => line.trim()).filter(Boolean),
+      prepMinutes: Number.isFinite(minutes) && minutes > 0 ? minutes : null,
+      tags,
+      prepSteps,
+    };
+    if (recipe) {
+      updateRecipe(recipe.id, data);
+    } else {
+      addRecipe(data);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-bark/40" onClick={onClose} />
+      <div className="relative w-full max-w-md mx-4 bg-cream rounded-2xl p-5 max-h-[85vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-display text-lg text-bark">{recipe ? 'Edit Recipe' : 'New Recipe'}</h3>
+          <button onClick={onClose} className="text-bark/40 hover:text-bark p-1">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Recipe name"
+            className="w-full px-3 py-2 rounded-lg border border-bark/20 bg-parchment focus:outline-none focus:border-sage text-sm"
+            autoFocus
+          />
+
+          <div>
+            <label className="text-xs text-bark/50 block mb-1">Ingredients, one per line</label>
+            <textarea
+              value={ingredients}
+              onChange={(e) => setIngredients(e.target.value)}
+              rows={5}
+              placeholder={'Pasta\nTomato sauce\nParmesan'}
+              className="w-full px-3 py-2 rounded-lg border border-bark/20 bg-parchment focus:outline-none focus:border-sage text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="text-xs text-bark/50 block mb-1">Prep time (minutes)</label>
+            <input
+              type="number"
+              min={0}
+              value={prepMinutes}
+              onChange={(e) => setPrepMinutes(e.target.value)}
+              className="w-24 px-3 py-2 rounded-lg border border-bark/20 bg-parchment focus:outline-none focus:border-sage text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="text-xs text-bark/50 block mb-1">Advance prep</label>
+            {prepSteps.length > 0 && (
+              <div className="space-y-1 mb-2">
+                {prepSteps.map((step) => (
+                  <div key={step.id} className="flex items-center gap-2 bg-parchment rounded-lg px-3 py-1.5 text-sm">
+                    <span className="flex-1 text-bark truncate">{step.title}</span>
+                    <span className="text-xs text-bark/50 flex-shrink-0">{describePrepTiming(step)}</span>
+                    <button
+                      onClick={() => setPrepSteps(prepSteps.filter((s) => s.id !== step.id))}
+                      className="text-bark/30 hover:text-terracotta"
+                      title="Remove"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <input
+              type="text"
+              value={stepTitle}
+              onChange={(e) => setStepTitle(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addPrepStep()}
+              placeholder="Thaw chicken, soak beans…"
+              className="w-full px-3 py-2 rounded-lg border border-bark/20 bg-parchment focus:outline-none focus:border-sage text-sm"
+            />
+            <div className="flex items-center gap-2 mt-2 text-xs">
+              <select
+                value={stepMode}
+                onChange={(e) => setStepMode(e.target.value as 'at' | 'before')}
+                className="px-2 py-1 rounded-lg border border-bark/20 bg-parchment focus:outline-none focus:border-sage"
+              >
+                <option value="at">at</option>
+                <option value="before">hours before</option>
+              </select>
+              {stepMode === 'at' ? (
+                <>
+                  <input
+                    type="time"
+                    value={stepTime}
+                    onChange={(e) => setStepTime(e.target.value)}
+                    className="px-2 py-1 rounded-lg border border-bark/20 bg-parchment focus:outline-none focus:border-sage"
+                  />
+                  <select
+                    value={stepDaysBefore}
+                    onChange={(e) => setStepDaysBefore(Number(e.target.value))}
+                    className="px-2 py-1 rounded-lg border border-bark/20 bg-parchment focus:outline-none focus:border-sage"
+                  >
+                    <option value={0}>the day of</option>
+                    <option value={1}>the day before</option>
+                    <option value={2}>2 days before</option>
+                  </select>
+                </>
+              ) : (
+                <input
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  value={stepHoursBefore}
+                  onChange={(e) => setStepHoursBefore(e.target.value)}
+                  className="w-16 px-2 py-1 rounded-lg border border-bark/20 bg-parchment focus:outline-none focus:border-sage"
+                />
+              )}
+              <button
+                onClick={addPrepStep}
+                disabled={!stepTitle.trim()}
+                className="ml-auto text-sage hover:text-sage/80 font-medium disabled:opacity-50"
+              >
+                + Add step
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="text-xs text-bark/50 block mb-1">Tags</label>
+            <div className="flex flex-wrap gap-1.5">
+              {tagOptions.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`px-2.5 py-1 rounded-full text-xs ${
+                    tags.includes(tag) ? 'bg-sage text-cream' : 'bg-bark/5 text-bark/60'
+                  }`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={customTag}
+              onChange={(e) => setCustomTag(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addCustomTag()}
+              onBlur={addCustomTag}
+              placeholder="Add a tag…"
+              className="mt-2 w-40 px-2 py-1 rounded-lg border border-bark/20 bg-parchment focus:outline-none focus:border-sage text-xs"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 mt-5">
+          {recipe && (
+            <button
+              onClick={() => { deleteRecipe(recipe.id); onClose(); }}
+              className="px-3 py-2 rounded-lg text-sm text-terracotta hover:bg-terracotta/10"
+            >
+              Delete
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!title.trim()}
+            className="ml-auto px-4 py-2 rounded-lg bg-sage text-cream text-sm font-medium hover:bg-sage/90 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
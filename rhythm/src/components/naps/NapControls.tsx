@@ -0,0 +1,220 @@
+import { useState, useEffect } from 'react';
+import { parseISO, differenceInMinutes, format, set as setTime, subDays } from 'date-fns';
+import { useChildStore } from '../../stores/useChildStore';
+import { useNapStore } from '../../stores/useNapStore';
+import { useNapPredictions } from '../../hooks/useNapPredictions';
+import type { NapDayPrediction, NapLog } from '../../types';
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours > 0) {
+    return `${hours}h ${mins}m`;
+  }
+  return `${mins}m`;
+}
+
+/**
+ * Turn an HH:mm edit back into an ISO datetime at or before `reference`.
+ * Times later than the reference's clock are taken to be the previous day
+ * (last night's bedtime edited this morning).
+ */
+function timeToIso(time: string, reference: Date): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const candidate = setTime(reference, { hours, minutes, seconds: 0, milliseconds: 0 });
+  return (candidate > reference ? subDays(candidate, 1) : candidate).toISOString();
+}
+
+function formatClock(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return format(setTime(new Date(), { hours, minutes }), 'h:mm');
+}
+
+/** "Next nap ~12:45–1:15 · learned from 9 days" */
+function NextSleepHint({ prediction }: { prediction: NapDayPrediction }) {
+  const next = [...prediction.naps, prediction.bedtime].find((sleep) => sleep.status === 'predicted');
+  if (!next) return null;
+
+  const [from, to] = next.startRange;
+  return (
+    <p className="text-xs text-bark/40">
+      {next.sleepType === 'night' ? 'Bedtime' : 'Next nap'} ~{formatClock(from)}–{formatClock(to)}
+      {' · '}
+      {prediction.source === 'history'
+        ? `learned from ${prediction.sampleDays} days`
+        : 'typical for their age'}
+    </p>
+  );
+}
+
+function SleepLogRow({ log }: { log: NapLog }) {
+  const updateSleepLog = useNapStore((state) => state.updateSleepLog);
+  const deleteSleepLog = useNapStore((state) => state.deleteSleepLog);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+
+  const handleEditStart = () => {
+    setStartTime(format(parseISO(log.startedAt), 'HH:mm'));
+    setEndTime(log.endedAt ? format(parseISO(log.endedAt), 'HH:mm') : '');
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    if (!startTime) return;
+    const endedAt = endTime && log.endedAt ? timeToIso(endTime, new Date()) : log.endedAt;
+    const startedAt = timeToIso(startTime, endedAt ? parseISO(endedAt) : new Date());
+    updateSleepLog(log.id, { startedAt, endedAt });
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center gap-2 bg-cream rounded-lg p-2">
+        <input
+          type="time"
+          value={startTime}
+          onChange={(e) => setStartTime(e.target.value)}
+          className="flex-1 px-2 py-1 text-sm rounded border border-bark/20 bg-white focus:outline-none focus:border-sage"
+        />
+        {log.endedAt && (
+          <>
+            <span className="text-xs text-bark/40">to</span>
+            <input
+              type="time"
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+              className="flex-1 px-2 py-1 text-sm rounded border border-bark/20 bg-white focus:outline-none focus:border-sage"
+            />
+          </>
+        )}
+        <button
+          onClick={handleSave}
+          className="px-3 py-1 text-xs bg-sage text-cream rounded hover:bg-sage/90"
+        >
+          Save
+        </button>
+        <button
+          onClick={() => deleteSleepLog(log.id)}
+          className="px-2 py-1 text-xs text-bark/40 hover:text-terracotta"
+        >
+          Delete
+        </button>
+      </div>
+    );
+  }
+
+  const duration = differenceInMinutes(
+    log.endedAt ? parseISO(log.endedAt) : new Date(),
+    parseISO(log.startedAt)
+  );
+
+  return (
+    <button
+      onClick={handleEditStart}
+      className="text-xs text-bark/50 hover:text-bark/70 flex items-center gap-1"
+    >
+      <span>
+        {log.sleepType === 'night' ? 'Night' : 'Nap'} {format(parseISO(log.startedAt), 'h:mm a')}
+        {log.endedAt && ` – ${format(parseISO(log.endedAt), 'h:mm a')}`}
+        {' '}({formatDuration(duration)})
+      </span>
+      <span className="text-bark/30">- tap to edit</span>
+    </button>
+  );
+}
+
+/**
+ * Live nap / night sleep logging per child, with today's logs editable
+ */
+export function NapControls() {
+  const children = useChildStore((state) => state.children);
+  const napLogs = useNapStore((state) => state.napLogs);
+  const startSleep = useNapStore((state) => state.startSleep);
+  const endSleep = useNapStore((state) => state.endSleep);
+  const predictions = useNapPredictions();
+
+  // Force re-render every minute to update durations
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    const interval = setInterval(() => setTick((t) => t + 1), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (children.length === 0) {
+    return null;
+  }
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  return (
+    <div className="bg-parchment rounded-lg p-4 mb-4">
+      <h2 className="font-body font-semibold text-bark/80 text-sm uppercase tracking-wide mb-3">
+        Sleep
+      </h2>
+
+      <div className="space-y-3">
+        {children.map((child) => {
+          const activeSleep = napLogs.find((log) => log.childId === child.id && log.endedAt === null);
+          // Today's finished sleeps, including last night's that ended this morning
+          const recentLogs = napLogs.filter(
+            (log) =>
+              log.childId === child.id &&
+              log.endedAt !== null &&
+              (log.date === today || format(parseISO(log.endedAt), 'yyyy-MM-dd') === today)
+          );
+          const prediction = predictions.find((p) => p.childId === child.id);
+
+          return (
+            <div key={child.id} className="space-y-1">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex-1 flex items-center gap-2">
+                  <span className="text-bark font-medium">{child.name}</span>
+                  {activeSleep && (
+                    <span className="text-sm text-lavender">
+                      💤 {formatDuration(differenceInMinutes(new Date(), parseISO(activeSleep.startedAt)))}
+                      <span className="text-bark/50 ml-1">
+                        {activeSleep.sleepType === 'night' ? 'night sleep' : 'nap'}
+                      </span>
+                    </span>
+                  )}
+                </div>
+
+                {activeSleep ? (
+                  <button
+                    onClick={() => endSleep(child.id)}
+                    className="px-4 py-2 rounded-lg text-sm font-medium transition-colors bg-sage text-cream hover:bg-sage/90"
+                  >
+                    Awake
+                  </button>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => startSleep(child.id, 'nap')}
+                      className="px-3 py-2 rounded-lg text-sm font-medium transition-colors bg-bark/10 text-bark hover:bg-bark/20"
+                    >
+                      Nap
+                    </button>
+                    <button
+                      onClick={() => startSleep(child.id, 'night')}
+                      className="px-3 py-2 rounded-lg text-sm font-medium transition-colors bg-bark/10 text-bark hover:bg-bark/20"
+                    >
+                      Bedtime
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {!activeSleep && prediction && <NextSleepHint prediction={prediction} />}
+              {activeSleep && <SleepLogRow key={activeSleep.id} log={activeSleep} />}
+              {recentLogs.map((log) => (
+                <SleepLogRow key={log.id} log={log} />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
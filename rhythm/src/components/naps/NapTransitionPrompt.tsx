@@ -0,0 +1,64 @@
+import { useChildStore } from '../../stores/useChildStore';
+import { useNapStore } from '../../stores/useNapStore';
+import { useCareBlockStore } from '../../stores/useCareBlockStore';
+import { useNapTransitions } from '../../hooks/useNapTransitions';
+import type { NapTransition } from '../../types';
+
+function describeNaps(count: number): string {
+  if (count === 0) return 'no naps';
+  return `${count} nap${count === 1 ? '' : 's'}`;
+}
+
+function describeEvidence(transition: NapTransition): string {
+  return transition.reason === 'logs'
+    ? `${transition.evidenceDays} days in the last two weeks had ${describeNaps(transition.toNaps)}`
+    : `Naps were skipped on ${transition.evidenceDays} days in the last two weeks`;
+}
+
+/**
+ * Offers to update a child's sleep blocks when they seem to be dropping
+ * a nap (2→1 or 1→0)
+ */
+export function NapTransitionPrompt() {
+  const transitions = useNapTransitions();
+  const getChild = useChildStore((state) => state.getChild);
+  const dismissNapTransition = useNapStore((state) => state.dismissNapTransition);
+  const setNapCount = useCareBlockStore((state) => state.setNapCount);
+
+  if (transitions.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-4">
+      {transitions.map((transition) => {
+        const name = getChild(transition.childId)?.name;
+        return (
+          <div key={transition.childId} className="bg-lavender/10 rounded-lg p-4">
+            <p className="text-sm text-bark">
+              {name} might be moving to {describeNaps(transition.toNaps)}.
+            </p>
+            <p className="text-xs text-bark/50 mt-1 mb-3">
+              {describeEvidence(transition)}.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  setNapCount(transition.childId, transition.toNaps);
+                  dismissNapTransition(transition.childId);
+                }}
+                className="px-3 py-2 rounded-lg text-sm font-medium bg-sage text-cream hover:bg-sage/90"
+              >
+                Switch to {describeNaps(transition.toNaps)}
+              </button>
+              <button
+                onClick={() => dismissNapTransition(transition.childId)}
+                className="px-3 py-2 rounded-lg text-sm text-bark/60 hover:text-bark"
+              >
+                Not yet
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
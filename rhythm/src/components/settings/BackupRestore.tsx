@@ -0,0 +1,156 @@
+import { useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useBackup, type BackupPreview } from '../../hooks/useBackup';
+import type { BackupMode, BackupStoreDiff } from '../../types';
+
+function describeDiff(diff: BackupStoreDiff): string | null {
+  const parts = [
+    diff.added > 0 ? `${diff.added} new` : null,
+    diff.changed > 0 ? `${diff.changed} different` : null,
+    diff.removed > 0 ? `${diff.removed} only here` : null,
+    diff.settingsChanged ? 'settings differ' : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+/**
+ * Download everything as one backup file, or load one back in — after a
+ * look at what it would change
+ */
+export function BackupRestore() {
+  const { exportBackup, previewBackup, restoreBackup } = useBackup();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [mode, setMode] = useState<BackupMode>('merge');
+  const [restoring, setRestoring] = useState(false);
+
+  const handleExport = () => {
+    const blob = new Blob([exportBackup()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `rhythm-backup-${format(new Date(), 'yyyy-MM-dd')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setPreview(previewBackup(await file.text()));
+    setMode('merge');
+  };
+
+  const handleRestore = async () => {
+    if (!preview?.backup) return;
+    if (mode === 'replace' && !window.confirm('Replace everything here with this backup? This cannot be undone.')) return;
+    setRestoring(true);
+    await restoreBackup(preview.backup, mode);
+    window.location.assign('/');
+  };
+
+  const changes = preview?.diffs
+    .map((diff) => ({ diff, summary: describeDiff(diff) }))
+    .filter(({ summary }) => summary !== null) ?? [];
+
+  return (
+    <div className="bg-parchment rounded-xl p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold text-bark">Backup</p>
+          <p className="text-xs text-bark/50 mt-0.5">Everything in one file, to keep or move to another device</p>
+        </div>
+        <button
+          onClick={handleExport}
+          className="px-4 py-2 bg-bark text-cream text-sm font-semibold rounded-xl hover:bg-bark/90 active:scale-95 transition-all duration-150"
+        >
+          Download
+        </button>
+      </div>
+      <div className="flex items-center justify-between mt-4 pt-4 border-t border-bark/10">
+        <div>
+          <p className="text-sm font-semibold text-bark">Restore</p>
+          <p className="text-xs text-bark/50 mt-0.5">Load a backup file — you'll see what changes first</p>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 py-2 bg-bark text-cream text-sm font-semibold rounded-xl hover:bg-bark/90 active:scale-95 transition-all duration-150"
+        >
+          Choose file
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      </div>
+
+      {preview && (
+        <div className="mt-4 pt-4 border-t border-bark/10 space-y-3">
+          {preview.errors.length > 0 ? (
+            <div className="text-xs text-terracotta space-y-1">
+              <p className="font-semibold">This backup can't be loaded:</p>
+              {preview.errors.map((error) => <p key={error}>{error}</p>)}
+            </div>
+          ) : (
+            <>
+              <p className="text-xs text-bark/60">
+                {preview.backup?.exportedAt
+                  ? `Backup from ${format(parseISO(preview.backup.exportedAt), 'MMM d, yyyy h:mm a')}`
+                  : 'Backup'}
+              </p>
+              {changes.length === 0 ? (
+                <p className="text-xs text-bark/50">Matches what's here already.</p>
+              ) : (
+                <div className="bg-cream rounded-lg divide-y divide-bark/5">
+                  {changes.map(({ diff, summary }) => (
+                    <div key={diff.key} className="flex items-center justify-between px-3 py-1.5 text-xs">
+                      <span className="text-bark">{diff.label}</span>
+                      <span className="text-bark/50">{summary}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {preview.warnings.length > 0 && (
+                <div className="text-xs text-bark/40 space-y-0.5">
+                  {preview.warnings.map((warning) => <p key={warning}>{warning}</p>)}
+                </div>
+              )}
+              <div className="flex gap-2">
+                {([
+                  ['merge', 'Merge', 'Keep what\'s here, add what\'s missing'],
+                  ['replace', 'Replace', 'Use the backup exactly as saved'],
+                ] as [BackupMode, string, string][]).map(([value, label, hint]) => (
+                  <button
+                    key={value}
+                    onClick={() => setMode(value)}
+                    className={`flex-1 p-2 rounded-lg text-left border ${
+                      mode === value ? 'border-sage bg-sage/10' : 'border-bark/10'
+                    }`}
+                  >
+                    <p className="text-sm font-medium text-bark">{label}</p>
+                    <p className="text-[11px] text-bark/50">{hint}</p>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPreview(null)}
+              className="flex-1 py-2 rounded-xl text-sm text-bark/60 hover:bg-bark/5"
+            >
+              Cancel
+            </button>
+            {preview.backup && (
+              <button
+                onClick={handleRestore}
+                disabled={restoring}
+                className="flex-1 py-2 rounded-xl text-sm font-semibold bg-sage text-cream hover:bg-sage/90 disabled:opacity-50"
+              >
+                {restoring ? 'Restoring…' : mode === 'merge' ? 'Merge backup' : 'Replace with backup'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
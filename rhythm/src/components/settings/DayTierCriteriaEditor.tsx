@@ -0,0 +1,143 @@
+import { useDayTierStore } from '../../stores/useDayTierStore';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+import { DAY_TIERS, getRequiredCount } from '../../utils/dayTiers';
+import type { DayTier, DayTierCriterion, TaskCategory } from '../../types';
+
+const TIER_LABELS: Record<DayTier, string> = {
+  'good-enough': 'Good Enough',
+  'great': 'Great',
+  'epic': 'Epic',
+};
+
+const CATEGORY_LABELS: Record<TaskCategory, string> = {
+  'meals': 'Meals',
+  'kids': 'Kids',
+  'kitchen': 'Kitchen',
+  'laundry': 'Laundry',
+  'tidying': 'Tidying',
+  'cleaning': 'Cleaning',
+  'errands': 'Errands',
+  'self-care': 'Self-care',
+  'focus-work': 'Focus work',
+  'other': 'Other',
+};
+
+function CriterionRow({ criterion }: { criterion: DayTierCriterion }) {
+  const updateCriterion = useDayTierStore((state) => state.updateCriterion);
+  const removeCriterion = useDayTierStore((state) => state.removeCriterion);
+  const seasonOfLife = useSettingsStore((state) => state.seasonOfLife);
+  const required = getRequiredCount(criterion, seasonOfLife);
+
+  const toggleCategory = (category: TaskCategory) => {
+    const categories = criterion.categories.includes(category)
+      ? criterion.categories.filter((c) => c !== category)
+      : [...criterion.categories, category];
+    updateCriterion(criterion.id, { categories });
+  };
+
+  return (
+    <div className="bg-cream rounded-lg p-3">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={criterion.label}
+          onChange={(e) => updateCriterion(criterion.id, { label: e.target.value })}
+          className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-bark/20 bg-cream text-sm focus:outline-none focus:border-sage"
+        />
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <button
+            onClick={() => updateCriterion(criterion.id, { count: Math.max(1, criterion.count - 1) })}
+            className="w-6 h-6 rounded-full bg-bark/10 text-bark/60 text-sm"
+          >
+            −
+          </button>
+          <span className="w-5 text-center text-sm text-bark">{criterion.count}</span>
+          <button
+            onClick={() => updateCriterion(criterion.id, { count: criterion.count + 1 })}
+            className="w-6 h-6 rounded-full bg-bark/10 text-bark/60 text-sm"
+          >
+            +
+          </button>
+        </div>
+        <button
+          onClick={() => removeCriterion(criterion.id)}
+          className="text-xs text-terracotta hover:text-terracotta/80 flex-shrink-0"
+        >
+          Remove
+        </button>
+      </div>
+      {required !== criterion.count && (
+        <p className="text-[11px] text-bark/40 mt-1">{required} needed in this season</p>
+      )}
+
+      <div className="flex flex-wrap gap-1 mt-2">
+        {(Object.keys(CATEGORY_LABELS) as TaskCategory[]).map((category) => (
+          <button
+            key={category}
+            onClick={() => toggleCategory(category)}
+            className={`px-2 py-0.5 rounded-full text-[11px] ${
+              criterion.categories.includes(category) ? 'bg-sage text-cream' : 'bg-bark/5 text-bark/50'
+            }`}
+          >
+            {CATEGORY_LABELS[category]}
+          </button>
+        ))}
+        <button
+          onClick={() => updateCriterion(criterion.id, { taskTier: criterion.taskTier ? null : 'routine' })}
+          className={`px-2 py-0.5 rounded-full text-[11px] ${
+            criterion.taskTier ? 'bg-sage text-cream' : 'bg-bark/5 text-bark/50'
+          }`}
+        >
+          Any routine
+        </button>
+      </div>
+
+      <input
+        type="text"
+        defaultValue={(criterion.keywords ?? []).join(', ')}
+        onBlur={(e) => updateCriterion(criterion.id, {
+          keywords: e.target.value.split(',').map((k) => k.trim()).filter(Boolean),
+        })}
+        placeholder="Or titles mentioning… (comma separated)"
+        className="w-full mt-2 px-2 py-1 rounded-lg border border-bark/20 bg-cream text-xs focus:outline-none focus:border-sage"
+      />
+    </div>
+  );
+}
+
+/**
+ * Edit what each day tier asks for. Counts are for a steady season and
+ * shrink for harder ones.
+ */
+export function DayTierCriteriaEditor() {
+  const criteria = useDayTierStore((state) => state.criteria);
+  const addCriterion = useDayTierStore((state) => state.addCriterion);
+  const resetCriteria = useDayTierStore((state) => state.resetCriteria);
+
+  return (
+    <div className="space-y-4">
+      {DAY_TIERS.map((tier) => (
+        <div key={tier}>
+          <p className="text-xs font-medium text-bark/50 uppercase tracking-wide mb-2">{TIER_LABELS[tier]}</p>
+          <div className="space-y-2">
+            {criteria.filter((c) => c.tier === tier).map((criterion) => (
+              <CriterionRow key={criterion.id} criterion={criterion} />
+            ))}
+          </div>
+          <button
+            onClick={() => addCriterion(tier)}
+            className="text-xs text-sage hover:text-sage/80 font-medium mt-2"
+          >
+            + Add requirement
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={resetCriteria}
+        className="text-xs text-bark/50 hover:text-bark"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
@@ -28,7 +28,7 @@ export function ChoreQueueSection() {
       {!collapsed && (
         <>
           <p className="text-xs text-bark/50 mb-3">
-            One random chore from this pool is picked each day. Manage which tasks are in the queue.
+            Each day the chore that has waited longest since it was last done is picked from this pool. Manage which tasks are in the queue.
           </p>
 
           {choreQueueTasks.length === 0 ? (
@@ -0,0 +1,255 @@
+import { format, getDate, getDay } from 'date-fns';
+import { describeRecurrence } from '../../utils/recurrence';
+import type { RecurrenceRule, WeekOfMonth } from '../../types';
+
+type RecurrenceMode =
+  | 'daily'
+  | 'weekdays'
+  | 'weekends'
+  | 'specific-days'
+  | 'every-n-days'
+  | 'every-n-weeks'
+  | 'day-of-month'
+  | 'nth-weekday'
+  | 'after-completion';
+
+const MODE_OPTIONS: { value: RecurrenceMode; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Weekdays' },
+  { value: 'weekends', label: 'Weekends' },
+  { value: 'specific-days', label: 'Specific days' },
+  { value: 'every-n-days', label: 'Every N days' },
+  { value: 'every-n-weeks', label: 'Every N weeks' },
+  { value: 'day-of-month', label: 'Monthly on a date' },
+  { value: 'nth-weekday', label: 'Monthly on a weekday' },
+  { value: 'after-completion', label: 'N days after last done' },
+];
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const WEEK_OPTIONS: { value: WeekOfMonth; label: string }[] = [
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: -1, label: 'Last' },
+];
+
+const inputClass = 'bg-parchment rounded px-2 py-1 text-sm text-bark border border-bark/10';
+
+function getMode(rule: RecurrenceRule): RecurrenceMode {
+  if (typeof rule === 'object') return rule.type;
+  if (rule === 'weekly') return 'every-n-weeks';
+  if (rule === 'monthly') return 'day-of-month';
+  return rule;
+}
+
+/**
+ * Build a sensible default rule for a mode, anchored to today
+ */
+function defaultRuleForMode(mode: RecurrenceMode): RecurrenceRule {
+  const today = new Date();
+  const anchorDate = format(today, 'yyyy-MM-dd');
+  switch (mode) {
+    case 'specific-days':
+      return { type: 'specific-days', days: [getDay(today)] };
+    case 'every-n-days':
+      return { type: 'every-n-days', interval: 3, anchorDate };
+    case 'every-n-weeks':
+      return { type: 'every-n-weeks', interval: 1, days: [getDay(today)], anchorDate };
+    case 'day-of-month':
+      return { type: 'day-of-month', day: getDate(today), interval: 1, anchorDate };
+    case 'nth-weekday':
+      return {
+        type: 'nth-weekday',
+        week: Math.min(4, Math.ceil(getDate(today) / 7)) as WeekOfMonth,
+        weekday: getDay(today),
+        interval: 1,
+        anchorDate,
+      };
+    case 'after-completion':
+      return { type: 'after-completion', interval: 7, anchorDate };
+    default:
+      return mode;
+  }
+}
+
+function DayToggles({ days, onChange }: { days: number[]; onChange: (days: number[]) => void }) {
+  return (
+    <div className="flex items-center gap-1">
+      {DAY_LABELS.map((label, dayIndex) => {
+        const isSelected = days.includes(dayIndex);
+        return (
+          <button
+            key={dayIndex}
+            type="button"
+            onClick={() => onChange(
+              isSelected
+                ? days.filter((d) => d !== dayIndex)
+                : [...days, dayIndex].sort()
+            )}
+            className={`w-7 h-7 rounded-full text-xs font-medium transition-all ${
+              isSelected
+                ? 'bg-sage text-cream'
+                : 'bg-parchment text-bark/40 hover:bg-parchment/80'
+            }`}
+          >
+            {label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function IntervalInput({ value, unit, onChange }: { value: number; unit: string; onChange: (n: number) => void }) {
+  return (
+    <div className="flex items-center gap-2 text-sm text-bark/70">
+      <span>Every</span>
+      <input
+        type="number"
+        min="1"
+        value={value}
+        onChange={(e) => onChange(Math.max(1, parseInt(e.target.value, 10) || 1))}
+        className={`${inputClass} w-16`}
+      />
+      <span>{unit}</span>
+    </div>
+  );
+}
+
+/**
+ * Editor for a task's RecurrenceRule, including anchored
+ * every-N-days / weekly / monthly patterns
+ */
+export function RecurrencePicker({
+  value: rule,
+  onChange,
+}: {
+  value: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+}) {
+  const mode = getMode(rule);
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={mode}
+        onChange={(e) => onChange(defaultRuleForMode(e.target.value as RecurrenceMode))}
+        className={`${inputClass} w-full`}
+      >
+        {MODE_OPTIONS.map((opt) => (
+          <option key={opt.value} value={opt.value}>{opt.label}</option>
+        ))}
+      </select>
+
+      {typeof rule === 'object' && (
+        <>
+          {rule.type === 'specific-days' && (
+            <DayToggles days={rule.days} onChange={(days) => onChange({ ...rule, days })} />
+          )}
+
+          {rule.type === 'every-n-days' && (
+            <IntervalInput
+              value={rule.interval}
+              unit="days"
+              onChange={(interval) => onChange({ ...rule, interval })}
+            />
+          )}
+
+          {rule.type === 'every-n-weeks' && (
+            <>
+              <IntervalInput
+                value={rule.interval}
+                unit="weeks on"
+                onChange={(interval) => onChange({ ...rule, interval })}
+              />
+              <DayToggles days={rule.days} onChange={(days) => onChange({ ...rule, days })} />
+            </>
+          )}
+
+          {rule.type === 'day-of-month' && (
+            <>
+              <IntervalInput
+                value={rule.interval}
+                unit="months on"
+                onChange={(interval) => onChange({ ...rule, interval })}
+              />
+              <select
+                value={String(rule.day)}
+                onChange={(e) => onChange({
+                  ...rule,
+                  day: e.target.value === 'last' ? 'last' : parseInt(e.target.value, 10),
+                })}
+                className={`${inputClass} w-full`}
+              >
+                {Array.from({ length: 31 }, (_, i) => i + 1).map((d) => (
+                  <option key={d} value={d}>Day {d}</option>
+                ))}
+                <option value="last">Last day of the month</option>
+              </select>
+            </>
+          )}
+
+          {rule.type === 'nth-weekday' && (
+            <>
+              <IntervalInput
+                value={rule.interval}
+                unit="months on the"
+                onChange={(interval) => onChange({ ...rule, interval })}
+              />
+              <div className="flex gap-2">
+                <select
+                  value={rule.week}
+                  onChange={(e) => onChange({ ...rule, week: parseInt(e.target.value, 10) as WeekOfMonth })}
+                  className={`${inputClass} flex-1`}
+                >
+                  {WEEK_OPTIONS.map((opt) => (
+                    <option key={opt.value} value={opt.value}>{opt.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={rule.weekday}
+                  onChange={(e) => onChange({ ...rule, weekday: parseInt(e.target.value, 10) })}
+                  className={`${inputClass} flex-1`}
+                >
+                  {WEEKDAY_NAMES.map((name, i) => (
+                    <option key={name} value={i}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+
+          {rule.type === 'after-completion' && (
+            <div className="flex items-center gap-2 text-sm text-bark/70">
+              <input
+                type="number"
+                min="1"
+                value={rule.interval}
+                onChange={(e) => onChange({ ...rule, interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                className={`${inputClass} w-16`}
+              />
+              <span>days after it's done</span>
+            </div>
+          )}
+
+          {'anchorDate' in rule && (
+            <div className="flex items-center gap-2 text-sm text-bark/70">
+              <span>{rule.type === 'after-completion' ? 'First due' : 'Starting'}</span>
+              <input
+                type="date"
+                value={rule.anchorDate}
+                onChange={(e) => e.target.value && onChange({ ...rule, anchorDate: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      <p className="text-xs text-bark/40">{describeRecurrence(rule)}</p>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { useTaskStore } from '../../stores/useTaskStore';
+import { useRoutineStore, getRoutineSteps } from '../../stores/useRoutineStore';
+import type { TimeBlock } from '../../types';
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const TIME_BLOCK_OPTIONS: { value: TimeBlock; label: string }[] = [
+  { value: 'morning', label: 'Morning' },
+  { value: 'midday', label: 'Midday' },
+  { value: 'afternoon', label: 'Afternoon' },
+  { value: 'evening', label: 'Evening' },
+];
+
+interface RoutineEditorProps {
+  routineId: string;
+  onClose: () => void;
+}
+
+/** Edit a habit stack: its name, days, preferred window and ordered steps */
+export function RoutineEditor({ routineId, onClose }: RoutineEditorProps) {
+  const routine = useRoutineStore((s) => s.routines.find((r) => r.id === routineId));
+  const updateRoutine = useRoutineStore((s) => s.updateRoutine);
+  const deleteRoutine = useRoutineStore((s) => s.deleteRoutine);
+  const addStep = useRoutineStore((s) => s.addStep);
+  const removeStep = useRoutineStore((s) => s.removeStep);
+  const moveStep = useRoutineStore((s) => s.moveStep);
+  const tasks = useTaskStore((s) => s.tasks);
+  const updateTask = useTaskStore((s) => s.updateTask);
+  const [newStep, setNewStep] = useState('');
+
+  if (!routine) return null;
+  const steps = getRoutineSteps(tasks, routineId);
+
+  const handleAddStep = () => {
+    if (!newStep.trim()) return;
+    addStep(routineId, newStep.trim());
+    setNewStep('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-bark/50 z-50 flex items-end justify-center" onClick={onClose}>
+      <div
+        className="bg-parchment rounded-t-2xl w-full max-w-lg max-h-[80vh] overflow-hidden animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-bark/10">
+          <h2 className="font-display text-lg text-bark">Edit habit stack</h2>
+          <button onClick={onClose} className="text-bark/40 hover:text-bark p-1">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto max-h-[60vh] space-y-4">
+          <div>
+            <label className="text-xs text-bark/50 block mb-1">Name</label>
+            <input
+              type="text"
+              value={routine.name}
+              onChange={(e) => updateRoutine(routineId, { name: e.target.value })}
+              placeholder="e.g. Close the House"
+              className="w-full bg-cream rounded px-2 py-1.5 text-sm text-bark border border-bark/10"
+            />
+          </div>
+
+          {/* Day of week picker */}
+          <div>
+            <label className="text-xs text-bark/50 block mb-1">Days</label>
+            <div className="flex items-center gap-1">
+              {DAY_LABELS.map((label, dayIndex) => {
+                const isSelected = routine.daysOfWeek?.includes(dayIndex) ?? false;
+                return (
+                  <button
+                    key={dayIndex}
+                    type="button"
+                    onClick={() => {
+                      const currentDays = routine.daysOfWeek ?? [];
+                      const newDays = isSelected
+                        ? currentDays.filter((d) => d !== dayIndex)
+                        : [...currentDays, dayIndex].sort();
+                      updateRoutine(routineId, { daysOfWeek: newDays.length > 0 ? newDays : null });
+                    }}
+                    className={`w-7 h-7 rounded-full text-xs font-medium transition-all ${
+                      isSelected
+                        ? 'bg-sage text-cream'
+                        : 'bg-cream text-bark/40 hover:bg-cream/80'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-bark/40 mt-1">
+              {routine.daysOfWeek && routine.daysOfWeek.length > 0 ? 'Only on these days' : 'Every day'}
+            </p>
+          </div>
+
+          {/* Preferred window */}
+          <div>
+            <label className="text-xs text-bark/50 block mb-1">Best time of day</label>
+            <div className="flex flex-wrap gap-2">
+              {TIME_BLOCK_OPTIONS.map((opt) => (
+                <button
+                  key={opt.value}
+                  type="button"
+                  onClick={() => updateRoutine(routineId, {
+                    preferredTimeBlock: routine.preferredTimeBlock === opt.value ? null : opt.value,
+                  })}
+                  className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                    routine.preferredTimeBlock === opt.value
+                      ? 'bg-sage text-cream'
+                      : 'bg-cream text-bark/60 border border-bark/10'
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Steps */}
+          <div>
+            <label className="text-xs text-bark/50 block mb-1">Steps</label>
+            {steps.length === 0 && (
+              <p className="text-xs text-bark/40 mb-2">No steps yet.</p>
+            )}
+            <ol className="space-y-1 mb-2">
+              {steps.map((step, index) => (
+                <li key={step.id} className="flex items-center gap-2 bg-cream rounded-lg px-2 py-1.5">
+                  <span className="text-xs text-bark/30 w-4 text-right tabular-nums">{index + 1}</span>
+                  <input
+                    type="text"
+                    value={step.title}
+                    onChange={(e) => updateTask(step.id, { title: e.target.value })}
+                    className="flex-1 min-w-0 bg-transparent text-sm text-bark focus:outline-none"
+                  />
+                  <button
+                    onClick={() => moveStep(routineId, step.id, -1)}
+                    disabled={index === 0}
+                    className="text-xs text-bark/40 hover:text-bark px-1 disabled:opacity-20"
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => moveStep(routineId, step.id, 1)}
+                    disabled={index === steps.length - 1}
+                    className="text-xs text-bark/40 hover:text-bark px-1 disabled:opacity-20"
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => removeStep(step.id)}
+                    className="text-xs text-bark/30 hover:text-terracotta px-1"
+                    title="Remove step"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ol>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newStep}
+                onChange={(e) => setNewStep(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleAddStep(); }}
+                placeholder="Add a step..."
+                className="flex-1 bg-cream rounded px-2 py-1.5 text-sm text-bark border border-bark/10"
+              />
+              <button
+                onClick={handleAddStep}
+                disabled={!newStep.trim()}
+                className="px-3 py-1.5 rounded-lg text-sm font-medium bg-sage/20 text-sage hover:bg-sage/30 disabled:opacity-40"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-bark/70">
+            <input
+              type="checkbox"
+              checked={routine.isActive}
+              onChange={(e) => updateRoutine(routineId, { isActive: e.target.checked })}
+              className="rounded border-bark/20"
+            />
+            Active
+          </label>
+        </div>
+
+        <div className="p-4 border-t border-bark/10">
+          <button
+            onClick={() => {
+              deleteRoutine(routineId);
+              onClose();
+            }}
+            className="w-full py-2 text-sm text-terracotta/70 hover:text-terracotta"
+          >
+            Delete stack
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 import { useState } from 'react';
 import { useTaskStore } from '../../stores/useTaskStore';
 import { useChildStore } from '../../stores/useChildStore';
-import type { Task, TaskInput, TaskTier, RecurrenceRule, NapContext, TaskCategory, ChildTaskType, CareContext, AvailabilityState } from '../../types';
+import { isAnchoredRecurrence } from '../../utils/recurrence';
+import { getChildCondition, setChildCondition } from '../../utils/availability';
+import { RecurrencePicker } from './RecurrencePicker';
+import { TriggerEditor } from './TriggerEditor';
+import type { Task, TaskInput, TaskTier, NapContext, TaskCategory, ChildTaskType, CareContext, AvailabilityState, ChildAvailability } from '../../types';
 
 interface TaskEditorProps {
   tier: TaskTier;
@@ -15,23 +19,23 @@ const TIER_LABELS: Record<TaskTier, string> = {
   'todo': 'To-dos',
 };
 
-const RECURRENCE_OPTIONS: { value: RecurrenceRule; label: string }[] = [
-  { value: 'daily', label: 'Daily' },
-  { value: 'weekdays', label: 'Weekdays' },
-  { value: 'weekends', label: 'Weekends' },
-  { value: 'weekly', label: 'Weekly' },
-  { value: 'monthly', label: 'Monthly' },
-];
-
 const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
 
 const AVAILABILITY_OPTIONS: { value: AvailabilityState; label: string; description: string }[] = [
   { value: 'free', label: 'Free', description: 'Kids are away (daycare, school)' },
   { value: 'quiet', label: 'Quiet', description: 'Kids are asleep (nap, bedtime)' },
+  { value: 'one-on-one', label: 'One-on-one', description: 'Just one child with you, the others away or asleep' },
   { value: 'parenting', label: 'Parenting', description: 'Kids are home and awake' },
   { value: 'unavailable', label: 'Any', description: 'Any availability' },
 ];
 
+const CHILD_CONDITION_OPTIONS: { value: ChildAvailability | 'null'; label: string }[] = [
+  { value: 'null', label: 'Any' },
+  { value: 'awake', label: 'With me' },
+  { value: 'asleep', label: 'Asleep' },
+  { value: 'away', label: 'Away' },
+];
+
 const ROUTINE_GROUP_PRESETS = ['morning', 'bedtime', 'mealtime', 'custom'];
 
 const NAP_CONTEXT_OPTIONS: { value: NapContext | 'null'; label: string }[] = [
@@ -144,93 +148,55 @@ function EditableTask({
 
           <div>
             <label className="text-xs text-bark/50 block mb-1">Recurrence</label>
-            <select
-              value={typeof task.recurrence === 'string' ? task.recurrence : 'daily'}
-              onChange={(e) => onUpdate(task.id, { recurrence: e.target.value as RecurrenceRule })}
-              className="bg-parchment rounded px-2 py-1 text-sm text-bark border border-bark/10 w-full"
-            >
-              {RECURRENCE_OPTIONS.map((opt) => (
-                <option key={opt.value as string} value={opt.value as string}>{opt.label}</option>
-              ))}
-            </select>
+            <RecurrencePicker
+              value={task.recurrence}
+              onChange={(recurrence) => onUpdate(task.id, {
+                recurrence,
+                // Anchored patterns pick their own days
+                ...(isAnchoredRecurrence(recurrence) ? { daysOfWeek: null } : {}),
+              })}
+            />
           </div>
 
           {/* Day of week picker */}
-          <div>
-            <label className="text-xs text-bark/50 block mb-1">Specific days (optional)</label>
-            <div className="flex items-center gap-1">
-              {DAY_LABELS.map((label, dayIndex) => {
-                const isSelected = task.daysOfWeek?.includes(dayIndex) ?? false;
-                return (
-                  <button
-                    key={dayIndex}
-                    type="button"
-                    onClick={() => {
-                      const currentDays = task.daysOfWeek ?? [];
-                      const newDays = isSelected
-                        ? currentDays.filter((d) => d !== dayIndex)
-                        : [...currentDays, dayIndex].sort();
-                      onUpdate(task.id, { daysOfWeek: newDays.length > 0 ? newDays : null });
-                    }}
-                    className={`w-7 h-7 rounded-full text-xs font-medium transition-all ${
-                      isSelected
-                        ? 'bg-sage text-cream'
-                        : 'bg-parchment text-bark/40 hover:bg-parchment/80'
-                    }`}
-                  >
-                    {label}
-                  </button>
-                );
-              })}
+          {!isAnchoredRecurrence(task.recurrence) && (
+            <div>
+              <label className="text-xs text-bark/50 block mb-1">Specific days (optional)</label>
+              <div className="flex items-center gap-1">
+                {DAY_LABELS.map((label, dayIndex) => {
+                  const isSelected = task.daysOfWeek?.includes(dayIndex) ?? false;
+                  return (
+                    <button
+                      key={dayIndex}
+                      type="button"
+                      onClick={() => {
+                        const currentDays = task.daysOfWeek ?? [];
+                        const newDays = isSelected
+                          ? currentDays.filter((d) => d !== dayIndex)
+                          : [...currentDays, dayIndex].sort();
+                        onUpdate(task.id, { daysOfWeek: newDays.length > 0 ? newDays : null });
+                      }}
+                      className={`w-7 h-7 rounded-full text-xs font-medium transition-all ${
+                        isSelected
+                          ? 'bg-sage text-cream'
+                          : 'bg-parchment text-bark/40 hover:bg-parchment/80'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-bark/40 mt-1">
+                {task.daysOfWeek && task.daysOfWeek.length > 0
+                  ? 'Overrides recurrence setting'
+                  : 'Leave empty to use recurrence pattern'}
+              </p>
             </div>
-            <p className="text-xs text-bark/40 mt-1">
-              {task.daysOfWeek && task.daysOfWeek.length > 0
-                ? 'Overrides recurrence setting'
-                : 'Leave empty to use recurrence pattern'}
-            </p>
-          </div>
+          )}
 
           {/* Appears after (event trigger) */}
-          <div>
-            <label className="text-xs text-bark/50 block mb-1">Appears after</label>
-            <select
-              value={task.triggeredBy || 'null'}
-              onChange={(e) => {
-                const val = e.target.value === 'null' ? null : e.target.value;
-                onUpdate(task.id, { triggeredBy: val });
-              }}
-              className="bg-parchment rounded px-2 py-1 text-sm text-bark border border-bark/10 w-full"
-            >
-              <option value="null">Always visible</option>
-              <option value="nap-end">After any nap ends</option>
-              {children.map((child) => (
-                <option key={`nap-end-${child.id}`} value={`nap-end:${child.id}`}>
-                  After {child.name}'s nap ends
-                </option>
-              ))}
-              <option value="care-block-end">After pickup</option>
-              {children.map((child) => (
-                <option key={`care-end-${child.id}`} value={`care-block-end:${child.id}`}>
-                  After {child.name}'s pickup
-                </option>
-              ))}
-            </select>
-            {task.triggeredBy && (
-              <div className="mt-2">
-                <label className="text-xs text-bark/50 block mb-1">Delay (minutes after trigger)</label>
-                <input
-                  type="number"
-                  min="0"
-                  value={task.triggerDelayMinutes ?? ''}
-                  onChange={(e) => onUpdate(task.id, {
-                    triggerDelayMinutes: e.target.value ? parseInt(e.target.value, 10) : null
-                  })}
-                  placeholder="0"
-                  className="bg-parchment rounded px-2 py-1 text-sm text-bark border border-bark/10 w-20"
-                />
-              </div>
-            )}
-          </div>
+          <TriggerEditor task={task} onUpdate={onUpdate} />
 
           {/* Child linking */}
           {children.length > 0 && (
@@ -337,6 +303,32 @@ function EditableTask({
                 );
               })}
             </div>
+
+            {/* Per-child conditions, e.g. "only while the baby is asleep" */}
+            {children.length > 1 && (
+              <div className="mt-3 space-y-1">
+                <label className="text-xs text-bark/50 block">Only when</label>
+                {children.map((child) => (
+                  <div key={child.id} className="flex items-center gap-2">
+                    <span className="text-sm text-bark w-20 truncate">{child.name}</span>
+                    <select
+                      value={getChildCondition(task.bestWhen, child.id) ?? 'null'}
+                      onChange={(e) => {
+                        const status = e.target.value === 'null' ? null : e.target.value as ChildAvailability;
+                        const newBestWhen = setChildCondition(task.bestWhen, child.id, status);
+                        onUpdate(task.id, { bestWhen: newBestWhen.length > 0 ? newBestWhen : null });
+                      }}
+                      className="bg-parchment rounded px-2 py-1 text-sm text-bark border border-bark/10 flex-1"
+                    >
+                      {CHILD_CONDITION_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value}>{opt.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <p className="text-xs text-bark/40 mt-2">
               {task.bestWhen && task.bestWhen.length > 0
                 ? 'Task will be suggested during selected times'
@@ -0,0 +1,227 @@
+import { Fragment, useState } from 'react';
+import { useTaskStore } from '../../stores/useTaskStore';
+import { useChildStore } from '../../stores/useChildStore';
+import { useRoutineStore } from '../../stores/useRoutineStore';
+import { MAX_TRIGGER_DELAY_MINUTES } from '../../stores/useEventStore';
+import { dependsOnTask, describeDelay, describeTrigger, getTaskTriggers, getTriggerChain } from '../../utils/triggers';
+import type { Task, TaskInput, TriggerMatch } from '../../types';
+
+const DELAY_UNITS: { minutes: number; label: string }[] = [
+  { minutes: 1, label: 'min' },
+  { minutes: 60, label: 'hr' },
+  { minutes: 24 * 60, label: 'days' },
+];
+
+/** Whole minutes between none and the longest delay an event is kept for */
+function clampDelay(minutes: number): number | null {
+  if (!Number.isFinite(minutes)) return null;
+  return Math.min(MAX_TRIGGER_DELAY_MINUTES, Math.max(0, Math.round(minutes)));
+}
+
+function getDelayUnit(delay: number): number {
+  if (delay > 0 && delay % (24 * 60) === 0) return 24 * 60;
+  if (delay > 0 && delay % 60 === 0) return 60;
+  return 1;
+}
+
+/**
+ * "Appears after": the events a task waits for (any or all of them), a
+ * delay that may run over days, and a preview of the chain it sits in
+ */
+export function TriggerEditor({
+  task,
+  onUpdate,
+}: {
+  task: Task;
+  onUpdate: (id: string, updates: Partial<TaskInput>) => void;
+}) {
+  const tasks = useTaskStore((state) => state.tasks);
+  const children = useChildStore((state) => state.children);
+  const routines = useRoutineStore((state) => state.routines);
+  const triggers = getTaskTriggers(task);
+  const delay = task.triggerDelayMinutes ?? 0;
+  const [delayUnit, setDelayUnit] = useState(() => getDelayUnit(delay));
+
+  const describe = (eventKey: string) => describeTrigger(eventKey, {
+    getChildName: (id) => children.find((c) => c.id === id)?.name,
+    getTaskTitle: (id) => tasks.find((t) => t.id === id)?.title,
+    getRoutineName: (id) => routines.find((r) => r.id === id)?.name,
+  });
+
+  // Tasks that can come before this one without making a loop
+  const taskOptions = tasks.filter((t) => t.id !== task.id && t.isActive && !dependsOnTask(t, task.id, tasks));
+
+  const setTriggers = (next: string[]) => {
+    onUpdate(task.id, {
+      triggeredBy: next[0] ?? null,
+      additionalTriggers: next.length > 1 ? next.slice(1) : null,
+      ...(next.length === 0 ? { triggerDelayMinutes: null, triggerMatch: null } : {}),
+    });
+  };
+
+  const renderEventSelect = (value: string | null, onChange: (value: string | null) => void, allowNone: boolean) => (
+    <select
+      value={value ?? 'null'}
+      onChange={(e) => onChange(e.target.value === 'null' ? null : e.target.value)}
+      className="bg-parchment rounded px-2 py-1 text-sm text-bark border border-bark/10 w-full min-w-0"
+    >
+      {allowNone && <option value="null">Always visible</option>}
+      <optgroup label="Sleep">
+        <option value="nap-end">After any nap ends</option>
+        {children.map((child) => (
+          <option key={`nap-end-${child.id}`} value={`nap-end:${child.id}`}>
+            After {child.name}'s nap ends
+          </option>
+        ))}
+      </optgroup>
+      <optgroup label="Care">
+        <option value="care-block-start">After drop-off</option>
+        {children.map((child) => (
+          <option key={`care-start-${child.id}`} value={`care-block-start:${child.id}`}>
+            After {child.name}'s drop-off
+          </option>
+        ))}
+        <option value="care-block-end">After pickup</option>
+        {children.map((child) => (
+          <option key={`care-end-${child.id}`} value={`care-block-end:${child.id}`}>
+            After {child.name}'s pickup
+          </option>
+        ))}
+      </optgroup>
+      {taskOptions.length > 0 && (
+        <optgroup label="Tasks">
+          {taskOptions.map((t) => (
+            <option key={t.id} value={`task-complete:${t.id}`}>After {t.title}</option>
+          ))}
+        </optgroup>
+      )}
+      {routines.length > 0 && (
+        <optgroup label="Habit stacks">
+          {routines.map((routine) => (
+            <option key={routine.id} value={`routine-complete:${routine.id}`}>
+              After finishing {routine.name}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  );
+
+  const chain = triggers.length > 0 || tasks.some((t) => getTaskTriggers(t).includes(`task-complete:${task.id}`))
+    ? getTriggerChain(task, tasks, describe)
+    : [];
+
+  return (
+    <div>
+      <label className="text-xs text-bark/50 block mb-1">Appears after</label>
+      <div className="space-y-1.5">
+        {(triggers.length > 0 ? triggers : [null]).map((trigger, index) => (
+          <div key={index} className="flex items-center gap-1">
+            {index > 0 && (
+              <span className="text-xs text-bark/40 w-8 flex-shrink-0">{task.triggerMatch === 'any' ? 'or' : 'and'}</span>
+            )}
+            {renderEventSelect(trigger, (value) => {
+              const next = [...triggers];
+              if (value) next[index] = value;
+              else next.splice(index, 1);
+              setTriggers(next);
+            }, index === 0)}
+            {index > 0 && (
+              <button
+                type="button"
+                onClick={() => setTriggers(triggers.filter((_, i) => i !== index))}
+                className="text-xs text-bark/30 hover:text-bark/60 px-1"
+                title="Remove event"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {triggers.length > 0 && (
+        <div className="flex items-center gap-2 mt-2">
+          <button
+            type="button"
+            onClick={() => setTriggers([...triggers, 'nap-end'])}
+            className="text-xs text-sage hover:text-sage/80"
+          >
+            + Another event
+          </button>
+          {triggers.length > 1 && (
+            <div className="flex gap-1 ml-auto">
+              {(['all', 'any'] as TriggerMatch[]).map((match) => (
+                <button
+                  key={match}
+                  type="button"
+                  onClick={() => onUpdate(task.id, { triggerMatch: match })}
+                  className={`px-2 py-0.5 text-xs rounded-full transition-all ${
+                    (task.triggerMatch ?? 'all') === match
+                      ? 'bg-lavender text-cream'
+                      : 'bg-parchment text-bark/50 hover:bg-parchment/80'
+                  }`}
+                >
+                  {match === 'all' ? 'All of these' : 'Any of these'}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {triggers.length > 0 && (
+        <div className="mt-2">
+          <label className="text-xs text-bark/50 block mb-1">Wait</label>
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min="0"
+              max={MAX_TRIGGER_DELAY_MINUTES / delayUnit}
+              value={delay ? delay / delayUnit : ''}
+              onChange={(e) => onUpdate(task.id, {
+                triggerDelayMinutes: e.target.value ? clampDelay(parseFloat(e.target.value) * delayUnit) : null,
+              })}
+              placeholder="0"
+              className="bg-parchment rounded px-2 py-1 text-sm text-bark border border-bark/10 w-20"
+            />
+            <select
+              value={delayUnit}
+              onChange={(e) => {
+                const unit = Number(e.target.value);
+                setDelayUnit(unit);
+                if (delay) onUpdate(task.id, { triggerDelayMinutes: clampDelay((delay / delayUnit) * unit) });
+              }}
+              className="bg-parchment rounded px-2 py-1 text-sm text-bark border border-bark/10"
+            >
+              {DELAY_UNITS.map((unit) => (
+                <option key={unit.minutes} value={unit.minutes}>{unit.label}</option>
+              ))}
+            </select>
+            <span className="text-xs text-bark/40">up to {MAX_TRIGGER_DELAY_MINUTES / (24 * 60)} days</span>
+          </div>
+        </div>
+      )}
+
+      {/* Chain preview */}
+      {chain.length > 1 && (
+        <div className="mt-2 flex flex-wrap items-center gap-1 text-xs">
+          {chain.map((step, index) => (
+            <Fragment key={index}>
+              {index > 0 && (
+                <span className="text-bark/30">
+                  → {step.delayMinutes > 0 && <span>{describeDelay(step.delayMinutes)} →</span>}
+                </span>
+              )}
+              <span className={`px-2 py-0.5 rounded-full ${
+                step.isCurrent ? 'bg-lavender text-cream' : 'bg-parchment text-bark/60'
+              }`}>
+                {step.label}
+              </span>
+            </Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { format } from 'date-fns';
+import type { AvailabilityState, AvailabilityWindow } from '../../types';
+
+const BAND_COLORS: Record<AvailabilityState, string> = {
+  free: 'bg-sage',
+  quiet: 'bg-lavender',
+  'one-on-one': 'bg-dustyrose',
+  parenting: 'bg-bark/10',
+  unavailable: 'bg-terracotta',
+};
+
+const BAND_LABELS: Record<AvailabilityState, string> = {
+  free: 'Free',
+  quiet: 'Quiet',
+  'one-on-one': 'One-on-one',
+  parenting: 'Parenting',
+  unavailable: 'Unavailable',
+};
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours > 0) {
+    return `${hours}h ${mins}m`;
+  }
+  return `${mins}m`;
+}
+
+const formatTimeDisplay = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  const date = new Date();
+  date.setHours(h, m);
+  return format(date, 'h:mm');
+};
+
+/**
+ * A day's availability windows as one proportional bar, with a marker for
+ * now (when given) and the free and quiet windows listed underneath
+ */
+export function AvailabilityBand({
+  windows,
+  label,
+  currentMinutes,
+}: {
+  windows: AvailabilityWindow[];
+  label: string;
+  currentMinutes?: number;
+}) {
+  if (windows.length === 0) return null;
+
+  const openWindows = windows.filter(
+    (w) => (w.state === 'free' || w.state === 'quiet') &&
+      (currentMinutes === undefined || w.endMinutes > currentMinutes)
+  );
+
+  return (
+    <div className="mb-3">
+      <div className="flex items-baseline justify-between mb-1">
+        <span className="text-xs text-bark/50">{label}</span>
+        <span className="text-[10px] text-bark/30">12a · 6a · 12p · 6p</span>
+      </div>
+      <div className="relative flex h-2.5 rounded-full overflow-hidden bg-bark/5">
+        {windows.map((w) => (
+          <div
+            key={w.startMinutes}
+            className={BAND_COLORS[w.state]}
+            style={{ width: `${(w.durationMinutes / (24 * 60)) * 100}%` }}
+            title={`${BAND_LABELS[w.state]} ${formatTimeDisplay(w.start)}–${formatTimeDisplay(w.end)} (${formatDuration(w.durationMinutes)})`}
+          />
+        ))}
+        {currentMinutes !== undefined && (
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-bark"
+            style={{ left: `${(currentMinutes / (24 * 60)) * 100}%` }}
+          />
+        )}
+      </div>
+      {openWindows.length > 0 && (
+        <div className="flex flex-wrap gap-x-3 gap-y-0.5 mt-1.5">
+          {openWindows.map((w) => (
+            <span key={w.startMinutes} className="text-xs text-bark/50 flex items-center gap-1">
+              <span className={`w-1.5 h-1.5 rounded-full ${BAND_COLORS[w.state]}`} />
+              {BAND_LABELS[w.state]} {formatTimeDisplay(w.start)}–{formatTimeDisplay(w.end)}
+              <span className="text-bark/30">{formatDuration(w.durationMinutes)}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
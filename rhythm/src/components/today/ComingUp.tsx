@@ -1,34 +1,69 @@
 import { useMemo } from 'react';
-import { format } from 'date-fns';
+import { format, isSameDay, subDays } from 'date-fns';
 import { useTaskStore, shouldTaskOccurOnDate } from '../../stores/useTaskStore';
 import { useChildStore } from '../../stores/useChildStore';
 import { useCareBlockStore } from '../../stores/useCareBlockStore';
+import { useEventStore } from '../../stores/useEventStore';
+import { useRoutineStore } from '../../stores/useRoutineStore';
+import { useNapPredictions } from '../../hooks/useNapPredictions';
+import { useAvailabilityWindows } from '../../hooks/useAvailabilityWindows';
+import { describeTrigger, getTaskTriggers, getTriggerDueAt } from '../../utils/triggers';
+import { getSpanMinutes, resolveBlockOnDate, spansMidnight, timeToMinutes } from '../../utils/scheduling';
 
 interface ComingUpEntry {
   time: string;       // HH:mm
   timeMinutes: number;
   label: string;
   emoji?: string;
-  type: 'task' | 'care-block';
-  triggeredBy?: string;
+  type: 'task' | 'care-block' | 'sleep';
+  after?: string;     // what a triggered task is waiting for
+  range?: [string, string]; // Likely start window for predicted sleep
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours > 0) {
+    return `${hours}h ${mins}m`;
+  }
+  return `${mins}m`;
+}
+
+function formatWait(minutes: number): string {
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  return formatDuration(minutes);
 }
 
 export function ComingUp() {
   const tasks = useTaskStore((state) => state.tasks);
   const getChild = useChildStore((state) => state.getChild);
   const blocks = useCareBlockStore((state) => state.blocks);
+  const predictions = useNapPredictions();
+  const windows = useAvailabilityWindows();
+  const events = useEventStore((state) => state.events);
+  const getEventFirings = useEventStore((state) => state.getEventFirings);
+  const routines = useRoutineStore((state) => state.routines);
 
   const upcomingEntries = useMemo(() => {
     const now = new Date();
     const currentMinutes = now.getHours() * 60 + now.getMinutes();
     const entries: ComingUpEntry[] = [];
+    const describeFirstTrigger = (task: typeof tasks[number]) => {
+      const triggers = getTaskTriggers(task);
+      if (triggers.length === 0) return undefined;
+      const first = describeTrigger(triggers[0], {
+        getChildName: (id) => getChild(id)?.name,
+        getTaskTitle: (id) => tasks.find((t) => t.id === id)?.title,
+        getRoutineName: (id) => routines.find((r) => r.id === id)?.name,
+      });
+      return triggers.length > 1 ? `${first} +${triggers.length - 1}` : first;
+    };
 
     // Upcoming anchor tasks
     tasks
       .filter((t) => t.tier === 'fixed-schedule' && t.scheduledTime && shouldTaskOccurOnDate(t, now))
       .forEach((task) => {
-        const [h, m] = task.scheduledTime!.split(':').map(Number);
-        const timeMins = h * 60 + m;
+        const timeMins = timeToMinutes(task.scheduledTime!);
         if (timeMins <= currentMinutes) return; // Already past
         const childName = task.childId ? getChild(task.childId)?.name : null;
         entries.push({
@@ -36,22 +71,51 @@ export function ComingUp() {
           timeMinutes: timeMins,
           label: childName ? `${childName} ${task.title}` : task.title,
           type: 'task',
-          triggeredBy: task.triggeredBy ?? undefined,
+          after: describeFirstTrigger(task),
+        });
+      });
+
+    // Triggered tasks whose events have fired, waiting out their delay
+    tasks
+      .filter((t) => t.isActive && !t.scheduledTime && getTaskTriggers(t).length > 0 && shouldTaskOccurOnDate(t, now))
+      .forEach((task) => {
+        const dueAt = getTriggerDueAt(task, getEventFirings, now);
+        if (!dueAt || dueAt <= now || !isSameDay(dueAt, now)) return;
+        entries.push({
+          time: format(dueAt, 'HH:mm'),
+          timeMinutes: dueAt.getHours() * 60 + dueAt.getMinutes(),
+          label: task.title,
+          type: 'task',
+          after: describeFirstTrigger(task),
         });
       });
 
-    // Upcoming care block transitions
-    blocks
-      .filter((b) => b.isActive && (b.blockType === 'childcare' || b.blockType === 'babysitter'))
-      .forEach((block) => {
+    // Upcoming care block transitions — today's blocks, plus yesterday's
+    // overnight blocks that end this morning (times shifted back a day)
+    // (resolved per date, so skipped days and changed times are honoured)
+    const yesterday = subDays(now, 1);
+    const blocksOn = (date: Date) => blocks
+      .map((b) => resolveBlockOnDate(b, date))
+      .filter((b): b is typeof blocks[number] => b !== null);
+    const occurrences = [
+      ...blocksOn(now).map((block) => ({ block, shift: 0 })),
+      ...blocksOn(yesterday)
+        .filter((b) => spansMidnight(b.startTime, b.endTime))
+        .map((block) => ({ block, shift: 24 * 60 })),
+    ];
+
+    occurrences
+      .filter(({ block }) => block.blockType === 'childcare' || block.blockType === 'babysitter')
+      .forEach(({ block, shift }) => {
         const childNames = block.childIds
           .map((id) => getChild(id)?.name)
           .filter(Boolean)
           .join(' & ');
+        const span = getSpanMinutes(block.startTime, block.endTime);
+        const isToday = (mins: number) => mins > currentMinutes && mins < 24 * 60;
 
-        const [sh, sm] = block.startTime.split(':').map(Number);
-        const startMins = sh * 60 + sm;
-        if (startMins > currentMinutes) {
+        const startMins = span.start - shift;
+        if (isToday(startMins)) {
           entries.push({
             time: block.startTime,
             timeMinutes: startMins,
@@ -60,9 +124,8 @@ export function ComingUp() {
           });
         }
 
-        const [eh, em] = block.endTime.split(':').map(Number);
-        const endMins = eh * 60 + em;
-        if (endMins > currentMinutes) {
+        const endMins = span.end - shift;
+        if (isToday(endMins)) {
           entries.push({
             time: block.endTime,
             timeMinutes: endMins,
@@ -72,12 +135,28 @@ export function ComingUp() {
         }
       });
 
+    // Predicted naps and bedtime still to come
+    predictions.forEach((prediction) => {
+      const childName = getChild(prediction.childId)?.name;
+      [...prediction.naps, prediction.bedtime]
+        .filter((sleep) => sleep.status === 'predicted')
+        .forEach((sleep) => {
+          const timeMins = timeToMinutes(sleep.start);
+          if (timeMins <= currentMinutes) return;
+          entries.push({
+            time: sleep.start,
+            timeMinutes: timeMins,
+            label: `${childName} ${sleep.sleepType === 'night' ? 'bedtime' : 'nap'}`,
+            type: 'sleep',
+            range: sleep.startRange,
+          });
+        });
+    });
+
     // Sort by time and take next 5
     entries.sort((a, b) => a.timeMinutes - b.timeMinutes);
     return entries.slice(0, 5);
-  }, [tasks, blocks, getChild]);
-
-  if (upcomingEntries.length === 0) return null;
+  }, [tasks, blocks, getChild, predictions, events, getEventFirings, routines]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const formatTimeDisplay = (time: string) => {
     const [h, m] = time.split(':').map(Number);
@@ -86,10 +165,33 @@ export function ComingUp() {
     return format(date, 'h:mm a');
   };
 
+  // The free (or quiet) window you're in, or the next one today
+  const now = new Date();
+  const currentMinutes = now.getHours() * 60 + now.getMinutes();
+  const nextWindow = windows.find(
+    (w) => (w.state === 'free' || w.state === 'quiet') && w.endMinutes > currentMinutes
+  );
+  const windowHint = nextWindow && (
+    nextWindow.startMinutes <= currentMinutes
+      ? `${nextWindow.state === 'free' ? 'Free' : 'Quiet'} until ${formatTimeDisplay(nextWindow.end)} (${formatDuration(nextWindow.endMinutes - currentMinutes)} left)`
+      : `Your next ${nextWindow.state} window starts in ${formatWait(nextWindow.startMinutes - currentMinutes)}` +
+        ` (${formatTimeDisplay(nextWindow.start)}–${formatTimeDisplay(nextWindow.end)}, ${formatDuration(nextWindow.durationMinutes)})`
+  );
+
+  if (upcomingEntries.length === 0 && !windowHint) return null;
+
   return (
     <div className="mb-4">
       <h3 className="text-xs font-medium text-bark/50 uppercase tracking-wide mb-2">Coming Up</h3>
       <div className="bg-parchment/50 rounded-xl p-3 space-y-2">
+        {windowHint && (
+          <p className="text-sm text-bark/70 flex items-center gap-2">
+            <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${
+              nextWindow.state === 'free' ? 'bg-sage' : 'bg-lavender'
+            }`} />
+            {windowHint}
+          </p>
+        )}
         {upcomingEntries.map((entry, i) => (
           <div key={`${entry.time}-${i}`} className="flex items-center gap-3">
             <span className="text-xs text-bark/40 w-16 flex-shrink-0">
@@ -97,15 +199,21 @@ export function ComingUp() {
             </span>
             <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${
               entry.type === 'care-block' ? 'bg-sage' :
+              entry.type === 'sleep' ? 'bg-lavender' :
               'bg-terracotta'
             }`} />
             <span className="text-sm text-bark/70 flex items-center gap-1">
               {entry.emoji && <span className="emoji-icon">{entry.emoji}</span>}
               {entry.label}
             </span>
-            {entry.triggeredBy && (
+            {entry.range && (
+              <span className="text-xs text-bark/30 ml-auto">
+                ~{formatTimeDisplay(entry.range[0])}–{formatTimeDisplay(entry.range[1])}
+              </span>
+            )}
+            {entry.after && (
               <span className="text-xs text-bark/30 ml-auto">
-                after {entry.triggeredBy.replace('nap-end', 'sleep').replace('care-block-end', 'pickup')}
+                after {entry.after}
               </span>
             )}
           </div>
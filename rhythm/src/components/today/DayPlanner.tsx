@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useTaskStore } from '../../stores/useTaskStore';
+import { usePlannerStore } from '../../stores/usePlannerStore';
+import { useDayPlan } from '../../hooks/useDayPlan';
+import type { PlannedTask } from '../../types';
+
+const formatTimeDisplay = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  const date = new Date();
+  date.setHours(h, m);
+  return format(date, 'h:mm');
+};
+
+const STATE_DOT: Record<PlannedTask['state'], string> = {
+  free: 'bg-sage',
+  quiet: 'bg-lavender',
+  'one-on-one': 'bg-dustyrose',
+  parenting: 'bg-bark/30',
+  unavailable: 'bg-terracotta',
+};
+
+/**
+ * "Plan my day": proposes which to-dos and seeds go in which of today's
+ * windows, to accept or shuffle. Once accepted, the plan stays visible
+ * and follows the windows as they shift.
+ */
+export function DayPlanner() {
+  const { planned, unplaced, hasAcceptedPlan } = useDayPlan();
+  const getTask = useTaskStore((state) => state.getTask);
+  const acceptPlan = usePlannerStore((state) => state.acceptPlan);
+  const shufflePlan = usePlannerStore((state) => state.shufflePlan);
+  const clearPlan = usePlannerStore((state) => state.clearPlan);
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (planned.length === 0 && unplaced.length === 0) return null;
+
+  if (!isOpen && !hasAcceptedPlan) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="w-full mb-4 py-2.5 rounded-xl text-sm font-medium text-sage bg-sage/10 hover:bg-sage/15 transition-colors"
+      >
+        Plan my day
+      </button>
+    );
+  }
+
+  return (
+    <div className="mb-4 bg-cream/80 rounded-xl p-4 border border-bark/5">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-display text-base text-bark">{hasAcceptedPlan ? "Today's plan" : 'Proposed plan'}</h3>
+        <button
+          onClick={() => {
+            if (hasAcceptedPlan) clearPlan();
+            setIsOpen(false);
+          }}
+          className="text-xs text-bark/40 hover:text-bark/60"
+        >
+          {hasAcceptedPlan ? 'Clear' : 'Close'}
+        </button>
+      </div>
+
+      {planned.length === 0 ? (
+        <p className="text-xs text-bark/50">No window left today has room for these.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {planned.map((item) => (
+            <li key={item.taskId} className="flex items-center gap-2 text-sm">
+              <span className="text-xs text-bark/40 w-10 text-right tabular-nums flex-shrink-0">
+                {formatTimeDisplay(item.start)}
+              </span>
+              <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${STATE_DOT[item.state]}`} />
+              <span className="text-bark/80 truncate">{getTask(item.taskId)?.title}</span>
+              <span className="text-xs text-bark/40 ml-auto flex-shrink-0">
+                {item.state} window {formatTimeDisplay(item.windowStart)}
+                {item.moved && <span className="text-terracotta"> · moved</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unplaced.length > 0 && (
+        <p className="text-xs text-bark/40 mt-2">
+          {unplaced.length} more {unplaced.length === 1 ? "doesn't" : "don't"} fit today
+        </p>
+      )}
+
+      {!hasAcceptedPlan && planned.length > 0 && (
+        <div className="flex gap-2 mt-3">
+          <button
+            onClick={() => {
+              acceptPlan(planned);
+              setIsOpen(false);
+            }}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-sage text-cream hover:bg-sage/90"
+          >
+            Accept
+          </button>
+          <button
+            onClick={shufflePlan}
+            className="px-3 py-2 rounded-lg text-sm text-bark/60 hover:text-bark"
+          >
+            Shuffle
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { useDayTier } from '../../hooks/useDayTier';
+import { useDayTierStore } from '../../stores/useDayTierStore';
+import { DAY_TIERS, isTierAtLeast } from '../../utils/dayTiers';
+import type { DayTier } from '../../types';
+
+const TIER_LABELS: Record<DayTier, string> = {
+  'good-enough': 'Good Enough',
+  'great': 'Great',
+  'epic': 'Epic',
+};
+
+const TIER_COLORS: Record<DayTier, string> = {
+  'good-enough': 'bg-sage text-cream',
+  'great': 'bg-dustyrose text-cream',
+  'epic': 'bg-clay text-cream',
+};
+
+/**
+ * Small Good Enough / Great / Epic row for today; tap to see what each
+ * tier still needs. Records the tier reached, which earns its flower.
+ */
+export function DayTierIndicator() {
+  const { today, tier, progress } = useDayTier();
+  const recordDayTier = useDayTierStore((state) => state.recordDayTier);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    recordDayTier(today, tier);
+  }, [today, tier, recordDayTier]);
+
+  if (progress.length === 0) return null;
+
+  return (
+    <div className="mt-3 mb-4">
+      <button
+        onClick={() => setExpanded((open) => !open)}
+        className="w-full flex items-center gap-1.5"
+      >
+        {DAY_TIERS.map((t) => (
+          <span
+            key={t}
+            className={`flex-1 py-1 rounded-full text-[11px] font-medium text-center transition-colors ${
+              isTierAtLeast(tier, t) ? TIER_COLORS[t] : 'bg-bark/5 text-bark/40'
+            }`}
+          >
+            {isTierAtLeast(tier, t) && '✓ '}{TIER_LABELS[t]}
+          </span>
+        ))}
+      </button>
+
+      {expanded && (
+        <div className="bg-cream rounded-xl p-3 mt-2 space-y-3">
+          {DAY_TIERS.map((t) => {
+            const forTier = progress.filter((p) => p.criterion.tier === t);
+            if (forTier.length === 0) return null;
+            return (
+              <div key={t}>
+                <p className="text-xs font-medium text-bark/50 uppercase tracking-wide mb-1">{TIER_LABELS[t]}</p>
+                <div className="space-y-1">
+                  {forTier.map(({ criterion, done, required }) => (
+                    <div key={criterion.id} className="flex items-center justify-between text-sm">
+                      <span className={done >= required ? 'text-bark/40 line-through' : 'text-bark/70'}>
+                        {criterion.label}
+                      </span>
+                      <span className="text-xs text-bark/40">
+                        {Math.min(done, required)}/{required}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
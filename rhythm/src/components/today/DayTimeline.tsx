@@ -1,16 +1,20 @@
 import { useMemo, useState } from 'react';
-import { format } from 'date-fns';
+import { format, subDays } from 'date-fns';
 import { useTaskStore } from '../../stores/useTaskStore';
 import { useChildStore } from '../../stores/useChildStore';
 import { useCareBlockStore } from '../../stores/useCareBlockStore';
+import { useNapPredictions } from '../../hooks/useNapPredictions';
+import { useAvailabilityWindows } from '../../hooks/useAvailabilityWindows';
 import { shouldTaskOccurOnDate } from '../../stores/useTaskStore';
+import { AvailabilityBand } from './AvailabilityBand';
+import { getSpanMinutes, resolveBlockOnDate, spansMidnight, timeToMinutes } from '../../utils/scheduling';
 
 interface TimelineEntry {
   time: string;       // HH:mm
   timeMinutes: number; // for sorting
   label: string;
   emoji?: string;
-  type: 'anchor' | 'care-block' | 'user-sleep';
+  type: 'anchor' | 'care-block' | 'user-sleep' | 'child-sleep';
   isCurrentSegment: boolean;
 }
 
@@ -20,6 +24,7 @@ function useDayTimelineEntries() {
   const userBedtime = useChildStore((state) => state.userBedtime);
   const blocks = useCareBlockStore((state) => state.blocks);
   const getChild = useChildStore((state) => state.getChild);
+  const predictions = useNapPredictions();
 
   return useMemo(() => {
     const now = new Date();
@@ -31,77 +36,102 @@ function useDayTimelineEntries() {
     tasks
       .filter((t) => t.tier === 'fixed-schedule' && t.scheduledTime && shouldTaskOccurOnDate(t, today))
       .forEach((task) => {
-        const [h, m] = task.scheduledTime!.split(':').map(Number);
         const childName = task.childId ? getChild(task.childId)?.name : null;
         items.push({
           time: task.scheduledTime!,
-          timeMinutes: h * 60 + m,
+          timeMinutes: timeToMinutes(task.scheduledTime!),
           label: childName ? `${childName} ${task.title}` : task.title,
           type: 'anchor',
           isCurrentSegment: false,
         });
       });
 
-    // Add care blocks for today
-    const todayDow = today.getDay(); // 0=Sun, 6=Sat
-    const todayStr = format(today, 'yyyy-MM-dd');
-    blocks
-      .filter((b) => {
-        if (!b.isActive) return false;
-        if (b.blockType !== 'childcare' && b.blockType !== 'babysitter') return false;
-        if (b.recurrence === 'one-off') return b.oneOffDate === todayStr;
-        const days = b.daysOfWeek ?? [];
-        if (days.length > 0) return days.includes(todayDow);
-        // Fallback: recurrence string with no explicit days
-        if (b.recurrence === 'daily') return true;
-        if (b.recurrence === 'weekdays') return todayDow >= 1 && todayDow <= 5;
-        if (b.recurrence === 'weekends') return todayDow === 0 || todayDow === 6;
-        return true;
-      })
-      .forEach((block) => {
-        const childNames = block.childIds
-          .map((id) => getChild(id)?.name)
-          .filter(Boolean)
-          .join(' & ');
+    // Add care blocks: today's, plus the tail of yesterday's overnight blocks.
+    // An overnight block belongs to the day it starts, so its "home" entry
+    // shows on the next day's timeline.
+    const yesterday = subDays(today, 1);
+    const isAwayBlock = (b: typeof blocks[number]) =>
+      b.blockType === 'childcare' || b.blockType === 'babysitter';
+    // Blocks as they happen on a date, after skips and changed times
+    const blocksOn = (date: Date) => blocks
+      .map((b) => resolveBlockOnDate(b, date))
+      .filter((b): b is typeof blocks[number] => b !== null);
+    const getChildNames = (block: typeof blocks[number]) => block.childIds
+      .map((id) => getChild(id)?.name)
+      .filter(Boolean)
+      .join(' & ');
 
-        const [sh, sm] = block.startTime.split(':').map(Number);
-        const [eh, em] = block.endTime.split(':').map(Number);
-        const startMins = sh * 60 + sm;
-        const endMins = eh * 60 + em;
+    blocksOn(today)
+      .filter(isAwayBlock)
+      .forEach((block) => {
+        const childNames = getChildNames(block);
+        const span = getSpanMinutes(block.startTime, block.endTime);
 
         items.push({
           time: block.startTime,
-          timeMinutes: startMins,
+          timeMinutes: span.start,
           label: `---- ${childNames} at ${block.name} ----`,
           type: 'care-block',
-          isCurrentSegment: currentMinutes >= startMins && currentMinutes < endMins,
+          isCurrentSegment: currentMinutes >= span.start && currentMinutes < span.end,
         });
 
+        if (!spansMidnight(block.startTime, block.endTime)) {
+          items.push({
+            time: block.endTime,
+            timeMinutes: span.end,
+            label: `${childNames} home`,
+            type: 'care-block',
+            isCurrentSegment: false,
+          });
+        }
+      });
+
+    blocksOn(yesterday)
+      .filter((b) => isAwayBlock(b) && spansMidnight(b.startTime, b.endTime))
+      .forEach((block) => {
         items.push({
           time: block.endTime,
-          timeMinutes: endMins,
-          label: `${childNames} home`,
+          timeMinutes: timeToMinutes(block.endTime),
+          label: `${getChildNames(block)} home`,
           type: 'care-block',
           isCurrentSegment: false,
         });
       });
 
+    // Add each child's naps and bedtime: logged ones as they happened,
+    // the rest as predictions with their likely range
+    predictions.forEach((prediction) => {
+      const childName = getChild(prediction.childId)?.name;
+      [...prediction.naps, prediction.bedtime].forEach((sleep) => {
+        const what = sleep.sleepType === 'night' ? 'bedtime' : 'nap';
+        const range = sleep.status === 'predicted'
+          ? ` (${formatTimeDisplay(sleep.startRange[0])}–${formatTimeDisplay(sleep.startRange[1])})`
+          : sleep.status === 'missed' ? ' (missed)' : '';
+        items.push({
+          time: sleep.start,
+          timeMinutes: timeToMinutes(sleep.start),
+          label: `${childName} ${what}${range}`,
+          emoji: '💤',
+          type: 'child-sleep',
+          isCurrentSegment: false,
+        });
+      });
+    });
+
     // Add user sleep bookends
     if (userWakeTime) {
-      const [wh, wm] = userWakeTime.split(':').map(Number);
       items.push({
         time: userWakeTime,
-        timeMinutes: wh * 60 + wm,
+        timeMinutes: timeToMinutes(userWakeTime),
         label: 'Your wake up',
         type: 'user-sleep',
         isCurrentSegment: false,
       });
     }
     if (userBedtime) {
-      const [bh, bm] = userBedtime.split(':').map(Number);
       items.push({
         time: userBedtime,
-        timeMinutes: bh * 60 + bm,
+        timeMinutes: timeToMinutes(userBedtime),
         label: 'Your bedtime',
         type: 'user-sleep',
         isCurrentSegment: false,
@@ -121,7 +151,7 @@ function useDayTimelineEntries() {
     }
 
     return { entries: items, currentMinutes };
-  }, [tasks, blocks, getChild, userWakeTime, userBedtime]);
+  }, [tasks, blocks, getChild, predictions, userWakeTime, userBedtime]);
 }
 
 const formatTimeDisplay = (time: string) => {
@@ -149,6 +179,7 @@ function TimelineRow({ entry }: { entry: TimelineEntry }) {
       <span className={`text-sm flex items-center gap-1 ${
         entry.type === 'care-block' ? 'text-sage' :
         entry.type === 'user-sleep' ? 'text-dustyrose italic' :
+        entry.type === 'child-sleep' ? 'text-lavender' :
         ''
       }`}>
         {entry.emoji && <span className="emoji-icon">{entry.emoji}</span>}
@@ -161,6 +192,7 @@ function TimelineRow({ entry }: { entry: TimelineEntry }) {
 /** Compact version for the Today screen: current event + next 2, expandable to full */
 export function DayOverviewCompact() {
   const { entries, currentMinutes } = useDayTimelineEntries();
+  const windows = useAvailabilityWindows();
   const [expanded, setExpanded] = useState(false);
 
   if (entries.length === 0) return null;
@@ -187,6 +219,7 @@ export function DayOverviewCompact() {
   return (
     <div className="mb-4">
       <div className="bg-parchment/50 rounded-xl p-3">
+        <AvailabilityBand windows={windows} label="Your windows today" currentMinutes={currentMinutes} />
         <div className="space-y-0">
           {displayedEntries.map((entry, i) => (
             <TimelineRow key={`${entry.time}-${i}`} entry={entry} />
@@ -207,7 +240,9 @@ export function DayOverviewCompact() {
 
 /** Full version for the Timeline page */
 export function DayTimeline() {
-  const { entries } = useDayTimelineEntries();
+  const { entries, currentMinutes } = useDayTimelineEntries();
+  const windows = useAvailabilityWindows();
+  const tomorrowWindows = useAvailabilityWindows(1);
 
   if (entries.length === 0) return null;
 
@@ -215,6 +250,8 @@ export function DayTimeline() {
     <div className="mb-6">
       <h2 className="text-xs font-medium text-bark/50 uppercase tracking-wide mb-2">Day Overview</h2>
       <div className="bg-parchment/50 rounded-xl p-3">
+        <AvailabilityBand windows={windows} label="Your windows today" currentMinutes={currentMinutes} />
+        <AvailabilityBand windows={tomorrowWindows} label="Tomorrow" />
         <div className="space-y-0">
           {entries.map((entry, i) => (
             <TimelineRow key={`${entry.time}-${i}`} entry={entry} />
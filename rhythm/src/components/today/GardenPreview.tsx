@@ -18,7 +18,7 @@ import { useRef, useLayoutEffect, useState, useMemo, useEffect, useCallback } fr
 
 import { format, differenceInCalendarDays, parseISO } from 'date-fns';
 import { useSunTimes } from '../../hooks/useSunTimes';
-import { useGardenStore, GRID_COLS, GRID_ROWS, FLOWER_CATALOG, PLOT_COLS, PLOT_ROW, BLOCKED_CELLS, getCurrentSeason } from '../../stores/useGardenStore';
+import { useGardenStore, GRID_COLS, GRID_ROWS, FLOWER_CATALOG, PLOT_COLS, PLOT_ROW, BLOCKED_CELLS, getCurrentSeason, isPlantableInSeason } from '../../stores/useGardenStore';
 import type { PlacedDecoration } from '../../stores/useGardenStore';
 import type { FlowerType, Season } from '../../types';
 import { useChallengeStore, CHALLENGE_TEMPLATES } from '../../stores/useChallengeStore';
@@ -945,7 +945,7 @@ export function GardenPreview({ justBloomedId }: { justBloomedId?: string | null
   const seedsByType = useMemo(() => {
     const counts: Partial<Record<FlowerType, number>> = {};
     flowers.forEach(f => {
-      if (!placedFlowerIds.has(f.id) && f.challengeId === null && FLOWER_CATALOG[f.type].season === activeSeason)
+      if (!placedFlowerIds.has(f.id) && f.challengeId === null && isPlantableInSeason(f.type, activeSeason))
         counts[f.type] = (counts[f.type] || 0) + 1;
     });
     return counts;
@@ -953,7 +953,7 @@ export function GardenPreview({ justBloomedId }: { justBloomedId?: string | null
   const bloomsByType = useMemo(() => {
     const counts: Partial<Record<FlowerType, number>> = {};
     flowers.forEach(f => {
-      if (!placedFlowerIds.has(f.id) && f.challengeId !== null && FLOWER_CATALOG[f.type].season === activeSeason)
+      if (!placedFlowerIds.has(f.id) && f.challengeId !== null && isPlantableInSeason(f.type, activeSeason))
         counts[f.type] = (counts[f.type] || 0) + 1;
     });
     return counts;
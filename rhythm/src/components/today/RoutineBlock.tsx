@@ -1,5 +1,5 @@
-import type { ActiveChallenge, Task, TaskInstance } from '../../types';
-import { CHALLENGE_TEMPLATES } from '../../stores/useChallengeStore';
+import { useState } from 'react';
+import type { Task, TaskInstance } from '../../types';
 import { TaskCard } from './TaskCard';
 
 interface RoutineTaskItem {
@@ -8,7 +8,8 @@ interface RoutineTaskItem {
 }
 
 interface RoutineBlockProps {
-  challenge: ActiveChallenge;
+  title: string;
+  subtitle?: string;   // e.g. the stack's preferred time of day
   items: RoutineTaskItem[];
   today: string;
   onTaskTap: (instance: TaskInstance) => void;
@@ -16,34 +17,38 @@ interface RoutineBlockProps {
   fadingOut: Set<string>;
 }
 
+/** A challenge routine or habit stack on Today, collapsible, with progress */
 export function RoutineBlock({
-  challenge,
+  title,
+  subtitle,
   items,
   today,
   onTaskTap,
   onEdit,
   fadingOut,
 }: RoutineBlockProps) {
-  const template = CHALLENGE_TEMPLATES.find(t => t.id === challenge.templateId);
-  if (!template) return null;
-
-  const title = template.groupTitle ?? template.title;
   const doneCount = items.filter(i => i.instance.status === 'completed').length;
   const total = items.length;
   const allDone = doneCount === total && total > 0;
+  const [collapsed, setCollapsed] = useState(allDone);
 
   return (
     <div className={`mb-4 rounded-xl overflow-hidden border transition-colors ${
       allDone ? 'border-sage/40 bg-sage/5' : 'border-bark/8 bg-cream'
     }`}>
       {/* Header */}
-      <div className="px-4 pt-3 pb-2 flex items-center justify-between">
+      <button
+        type="button"
+        onClick={() => setCollapsed((v) => !v)}
+        className={`w-full text-left px-4 pt-3 ${collapsed ? 'pb-3' : 'pb-2'} flex items-center justify-between`}
+      >
         <div>
           <h3 className="font-display text-sm text-bark">{title}</h3>
           <p className="text-xs text-bark/40 mt-0.5">
             {allDone
               ? 'All done today ✓'
-              : `${doneCount} of ${total} done`}
+              : `${doneCount}/${total} done`}
+            {subtitle && <span className="text-bark/30"> · {subtitle}</span>}
           </p>
         </div>
         {/* Mini progress dots */}
@@ -56,31 +61,39 @@ export function RoutineBlock({
               }`}
             />
           ))}
+          <svg
+            className={`w-3 h-3 ml-1 text-bark/40 transition-transform ${collapsed ? '' : 'rotate-180'}`}
+            fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+          </svg>
         </div>
-      </div>
+      </button>
 
       {/* Tasks */}
-      <div className="px-3 pb-3 space-y-2">
-        {items.map(({ task, instance }) => {
-          const isFading = fadingOut.has(instance.id);
-          return (
-            <div
-              key={instance.id}
-              className={`transition-all duration-300 ease-in-out ${
-                isFading ? 'opacity-0 max-h-0 overflow-hidden -my-1' : 'opacity-100 max-h-40'
-              }`}
-            >
-              <TaskCard
-                task={task}
-                instance={instance}
-                today={today}
-                onTap={() => onTaskTap(instance)}
-                onEdit={() => onEdit(task)}
-              />
-            </div>
-          );
-        })}
-      </div>
+      {!collapsed && (
+        <div className="px-3 pb-3 space-y-2">
+          {items.map(({ task, instance }) => {
+            const isFading = fadingOut.has(instance.id);
+            return (
+              <div
+                key={instance.id}
+                className={`transition-all duration-300 ease-in-out ${
+                  isFading ? 'opacity-0 max-h-0 overflow-hidden -my-1' : 'opacity-100 max-h-40'
+                }`}
+              >
+                <TaskCard
+                  task={task}
+                  instance={instance}
+                  today={today}
+                  onTap={() => onTaskTap(instance)}
+                  onEdit={() => onEdit(task)}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,8 +1,11 @@
 import { useState, useMemo, useCallback, useRef } from 'react';
-import { useTaskStore, getTaskDisplayTitle } from '../../stores/useTaskStore';
+import { format, parseISO } from 'date-fns';
+import { useTaskStore, getTaskDisplayTitle, getDaysUntilDue, estimateTaskDuration } from '../../stores/useTaskStore';
 import { useChildStore } from '../../stores/useChildStore';
+import { useMealStore } from '../../stores/useMealStore';
 import { useChallengeStore, CHALLENGE_TEMPLATES } from '../../stores/useChallengeStore';
 import { GrowthSprite } from '../garden/GrowthSprite';
+import { describeDueIn } from '../../utils/recurrence';
 import type { Task, TaskInstance, TaskTier } from '../../types';
 
 const TIER_CONFIG: Record<TaskTier, { label: string; color: string; bg: string }> = {
@@ -28,14 +31,18 @@ export function TaskCard({
   onDefer?: () => void;
   onEdit?: () => void;
 }) {
-  const updateMealPlan = useTaskStore((state) => state.updateMealPlan);
+  const plannedMeal = useMealStore((state) => (task.type === 'meal' ? state.mealPlan[today]?.[task.mealType] : undefined));
+  const setPlannedMeal = useMealStore((state) => state.setPlannedMeal);
+  const plannedRecipe = useMealStore((state) => state.recipes.find((r) => r.id === plannedMeal?.recipeId));
+  const startTask = useTaskStore((state) => state.startTask);
+  const taskInstances = useTaskStore((state) => state.taskInstances);
   const getChild = useChildStore((state) => state.getChild);
   const activeChallenges = useChallengeStore((s) => s.activeChallenges);
   const config = TIER_CONFIG[task.tier];
   const isCompleted = instance.status === 'completed';
   const isMeal = task.type === 'meal';
   const isSoftMarker = task.childTaskType === 'bedtime' || task.childTaskType === 'wake-up';
-  const savedMeal = isMeal ? (task.plannedMeals?.[today] ?? '') : '';
+  const savedMeal = isMeal ? (plannedMeal?.title ?? '') : '';
   const [mealInput, setMealInput] = useState(savedMeal);
   const [burst, setBurst] = useState(false);
   const burstKey = useRef(0);
@@ -62,9 +69,23 @@ export function TaskCard({
     return { challenge, template };
   }, [activeChallenges, task.id]);
 
+  // Completion-relative chores show how far they are from (or past) due
+  const daysUntilDue = useMemo(
+    () => getDaysUntilDue(task, taskInstances, parseISO(today)),
+    [task, taskInstances, today]
+  );
+
+  // Learned from timed completions, else a default for the category
+  const estimate = useMemo(
+    () => estimateTaskDuration(task, taskInstances),
+    [task, taskInstances]
+  );
+  const showEstimate = !isSoftMarker && !task.scheduledTime && (estimate.source !== 'category' || task.tier === 'todo');
+  const canStart = !isSoftMarker && !isCompleted && !instance.startedAt;
+
   const handleMealBlur = () => {
-    if (isMeal && mealInput !== savedMeal) {
-      updateMealPlan(task.id, today, mealInput);
+    if (task.type === 'meal' && mealInput !== savedMeal) {
+      setPlannedMeal(today, task.mealType, { title: mealInput, recipeId: null });
     }
   };
 
@@ -167,6 +188,19 @@ export function TaskCard({
             {task.scheduledTime && (
               <span className="text-xs text-bark/40">{task.scheduledTime}</span>
             )}
+            {daysUntilDue !== null && (
+              <span className={`text-xs ${daysUntilDue < 0 ? 'text-terracotta' : 'text-bark/40'}`}>
+                {describeDueIn(daysUntilDue)}
+              </span>
+            )}
+            {showEstimate && !instance.startedAt && (
+              <span className="text-xs text-bark/40">
+                {estimate.source === 'history' ? 'usually ' : ''}~{estimate.minutes} min
+              </span>
+            )}
+            {instance.startedAt && !isCompleted && (
+              <span className="text-xs text-sage">Started {format(new Date(instance.startedAt), 'h:mm')}</span>
+            )}
           </div>
           <p className={`font-medium line-clamp-2 ${isCompleted ? 'text-bark/50 line-through' : isSoftMarker ? 'text-bark/70' : 'text-bark'}`}>
             {displayTitle}
@@ -186,13 +220,33 @@ export function TaskCard({
               }`}
             />
           )}
+          {isMeal && plannedRecipe && mealInput === plannedRecipe.title && (
+            <p className="text-xs text-bark/40 mt-1">
+              {plannedRecipe.prepMinutes ? `~${plannedRecipe.prepMinutes} min prep` : 'From your recipes'}
+              {plannedRecipe.tags.length > 0 && ` · ${plannedRecipe.tags.join(', ')}`}
+            </p>
+          )}
         </div>
 
+        {/* Start: times the task so its duration can be learned */}
+        {canStart && (
+          <button
+            onClick={(e) => { e.stopPropagation(); startTask(instance.id); }}
+            className="ml-auto text-bark/30 hover:text-sage text-xs flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-sage/10 transition-colors flex-shrink-0"
+            title="Start — time how long this takes"
+          >
+            <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M8 5v14l11-7z" />
+            </svg>
+            <span>Start</span>
+          </button>
+        )}
+
         {/* Defer button for tending tasks */}
         {onDefer && !isCompleted && (
           <button
             onClick={(e) => { e.stopPropagation(); onDefer(); }}
-            className="ml-auto text-bark/30 hover:text-lavender text-xs flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-lavender/10 transition-colors flex-shrink-0"
+            className={`${canStart ? '' : 'ml-auto '}text-bark/30 hover:text-lavender text-xs flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-lavender/10 transition-colors flex-shrink-0`}
             title="Put back in seed tray"
           >
             <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
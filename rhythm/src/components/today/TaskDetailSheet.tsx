@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { format } from 'date-fns';
 import { useTaskStore } from '../../stores/useTaskStore';
-import type { Task, TaskCategory } from '../../types';
+import { isAnchoredRecurrence, isCompletionRelative } from '../../utils/recurrence';
+import { RecurrencePicker } from '../tasks/RecurrencePicker';
+import type { Task, TaskCategory, RecurrenceRule } from '../../types';
 
 const CATEGORY_OPTIONS: { value: TaskCategory; label: string }[] = [
   { value: 'kids', label: 'Kids' },
@@ -31,6 +33,7 @@ export function TaskDetailSheet({ task, onClose, onMoveToTray }: TaskDetailSheet
   const [scheduledTime, setScheduledTime] = useState('');
   const [dueDate, setDueDate] = useState('');
   const [category, setCategory] = useState<TaskCategory>('other');
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>('daily');
 
   useEffect(() => {
     if (task) {
@@ -39,6 +42,7 @@ export function TaskDetailSheet({ task, onClose, onMoveToTray }: TaskDetailSheet
       setScheduledTime(task.scheduledTime ?? '');
       setDueDate(task.dueDate ?? '');
       setCategory(task.category);
+      setRecurrence(task.recurrence);
     }
   }, [task]);
 
@@ -52,6 +56,11 @@ export function TaskDetailSheet({ task, onClose, onMoveToTray }: TaskDetailSheet
       scheduledTime: scheduledTime || null,
       dueDate: dueDate || undefined,
       category,
+      // To-dos only appear when scheduled, unless they repeat after completion
+      ...(task.tier !== 'todo' || isCompletionRelative(recurrence) || isCompletionRelative(task.recurrence) ? {
+        recurrence,
+        ...(isAnchoredRecurrence(recurrence) ? { daysOfWeek: null } : {}),
+      } : {}),
     });
     if (task.tier === 'todo' && dueDate && dueDate !== today) {
       scheduleForDate(task.id, dueDate);
@@ -139,6 +148,48 @@ export function TaskDetailSheet({ task, onClose, onMoveToTray }: TaskDetailSheet
           </div>
         )}
 
+        {/* Repeats — only for recurring tiers */}
+        {task.tier !== 'todo' && (
+          <div className="mb-4">
+            <label className="block text-sm text-bark/70 mb-1">Repeats</label>
+            <RecurrencePicker value={recurrence} onChange={setRecurrence} />
+          </div>
+        )}
+
+        {/* Repeat after done — to-dos can come back a set number of days after completion */}
+        {task.tier === 'todo' && (
+          <div className="mb-4">
+            <label className="flex items-center gap-2 text-sm text-bark/70">
+              <input
+                type="checkbox"
+                checked={isCompletionRelative(recurrence)}
+                onChange={(e) => setRecurrence(
+                  e.target.checked
+                    ? { type: 'after-completion', interval: 7, anchorDate: format(new Date(), 'yyyy-MM-dd') }
+                    : 'daily'
+                )}
+                className="rounded border-bark/20"
+              />
+              Repeat after it's done
+            </label>
+            {isCompletionRelative(recurrence) && (
+              <div className="flex items-center gap-2 mt-2 text-sm text-bark/70">
+                <input
+                  type="number"
+                  min="1"
+                  value={recurrence.interval}
+                  onChange={(e) => setRecurrence({
+                    ...recurrence,
+                    interval: Math.max(1, parseInt(e.target.value, 10) || 1),
+                  })}
+                  className="w-16 px-2 py-1 rounded-xl border border-bark/20 bg-white focus:outline-none focus:border-sage text-bark text-sm"
+                />
+                <span>days after it's done</span>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Category */}
         <div className="mb-6">
           <label className="block text-sm text-bark/70 mb-1">Category</label>
@@ -0,0 +1,39 @@
+import { useNavigate } from 'react-router-dom';
+import { format, isSunday } from 'date-fns';
+import { useSettingsStore } from '../../stores/useSettingsStore';
+
+/**
+ * On Sundays, a gentle nudge to look back at the week (until it's been
+ * opened or waved off)
+ */
+export function WeeklyReviewPrompt() {
+  const navigate = useNavigate();
+  const lastWeeklyReview = useSettingsStore((state) => state.lastWeeklyReview);
+  const markWeeklyReviewed = useSettingsStore((state) => state.markWeeklyReviewed);
+
+  const now = new Date();
+  if (!isSunday(now) || lastWeeklyReview === format(now, 'yyyy-MM-dd')) return null;
+
+  return (
+    <div className="bg-sage/10 rounded-lg p-4 mb-4">
+      <p className="text-sm text-bark">It's Sunday — a good moment to look back at your week.</p>
+      <p className="text-xs text-bark/50 mt-1 mb-3">
+        See what got done, and decide what to keep, drop or adjust.
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={() => navigate('/review')}
+          className="px-3 py-2 rounded-lg text-sm font-medium bg-sage text-cream hover:bg-sage/90"
+        >
+          Review my week
+        </button>
+        <button
+          onClick={markWeeklyReviewed}
+          className="px-3 py-2 rounded-lg text-sm text-bark/60 hover:text-bark"
+        >
+          Not now
+        </button>
+      </div>
+    </div>
+  );
+}
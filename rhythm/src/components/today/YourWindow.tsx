@@ -1,8 +1,9 @@
 import { useMemo } from 'react';
 import { format } from 'date-fns';
 import { useAvailability } from '../../hooks/useAvailability';
-import { useGoodEnoughDay } from '../../hooks/useGoodEnoughDay';
+import { useDayTier } from '../../hooks/useDayTier';
 import { TaskCard } from './TaskCard';
+import { ScheduleDifferences } from '../care/ScheduleDifferences';
 import type { Task, TaskInstance } from '../../types';
 
 interface TaskWithInstance {
@@ -47,7 +48,7 @@ export function YourWindow({
 }: YourWindowProps) {
   const today = format(new Date(), 'yyyy-MM-dd');
   const { isTaskSuggested } = useAvailability();
-  const { isGoodEnough } = useGoodEnoughDay();
+  const { tier } = useDayTier();
 
   // Split into suggested (matching current availability) and other
   const { suggestedItems, otherItems } = useMemo(() => {
@@ -84,8 +85,9 @@ export function YourWindow({
           </span>
         </div>
         <p className="text-xs text-bark/50">{availabilityDescription}</p>
+        <ScheduleDifferences />
 
-        {isGoodEnough && (
+        {tier !== null && (
           <p className="text-xs text-sage mt-2 flex items-center gap-1">
             <span>✓</span> You've done enough today
           </p>
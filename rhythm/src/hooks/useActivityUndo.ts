@@ -0,0 +1,156 @@
+import { useMemo } from 'react';
+import { useActivityStore, withActivityTags } from '../stores/useActivityStore';
+import { useTaskStore } from '../stores/useTaskStore';
+import { useAwayStore } from '../stores/useAwayStore';
+import { useNapStore } from '../stores/useNapStore';
+import { useChildStore } from '../stores/useChildStore';
+import { useEventStore } from '../stores/useEventStore';
+import type { ActivityEntry, ActivityType } from '../types';
+
+// Task actions can also be redone after an undo
+const REDOABLE_TYPES: ActivityType[] = [
+  'task-completed',
+  'task-skipped',
+  'task-deferred',
+  'task-deleted',
+  'seed-dismissed',
+];
+
+const UNDOABLE_TYPES: ActivityType[] = [
+  ...REDOABLE_TYPES,
+  'child-away',
+  'child-home',
+  'sleep-start',
+  'sleep-end',
+];
+
+// Only the most recent few actions can be undone
+const UNDO_LIMIT = 5;
+
+/** Reverse one logged action; false if there's nothing left to reverse */
+function reverseActivity(entry: ActivityEntry): boolean {
+  const childStore = useChildStore.getState();
+  const awayStore = useAwayStore.getState();
+  const napStore = useNapStore.getState();
+
+  switch (entry.type) {
+    case 'task-completed':
+      return useTaskStore.getState().revertCompletion(entry.id);
+    case 'task-skipped':
+    case 'task-deferred':
+    case 'seed-dismissed':
+      if (!entry.previousInstance) return false;
+      entry.effects?.events.forEach(({ key, timestamp }) => useEventStore.getState().retractEvent(key, timestamp));
+      useTaskStore.getState().restoreTaskInstance(entry.previousInstance);
+      return true;
+    case 'task-deleted':
+      if (!entry.deletedTask) return false;
+      useTaskStore.getState().restoreTask(entry.deletedTask.task, entry.deletedTask.instances);
+      return true;
+    case 'child-away':
+      if (!entry.refId || !entry.childId) return false;
+      awayStore.deleteAwayLog(entry.refId);
+      childStore.updateCareStatus(entry.childId, 'home');
+      return true;
+    case 'child-home':
+      if (!entry.refId || !entry.childId) return false;
+      awayStore.updateAwayLog(entry.refId, { endedAt: null });
+      childStore.updateCareStatus(entry.childId, 'away');
+      return true;
+    case 'sleep-start':
+      if (!entry.refId || !entry.childId) return false;
+      napStore.deleteSleepLog(entry.refId);
+      childStore.updateCareStatus(entry.childId, awayStore.isChildAway(entry.childId) ? 'away' : 'home');
+      return true;
+    case 'sleep-end':
+      if (!entry.refId || !entry.childId) return false;
+      napStore.updateSleepLog(entry.refId, { endedAt: null });
+      childStore.updateCareStatus(entry.childId, 'asleep');
+      return true;
+    default:
+      return false;
+  }
+}
+
+/** Perform an undone task action again */
+function reapplyActivity(entry: ActivityEntry): boolean {
+  const taskStore = useTaskStore.getState();
+  if (!entry.refId) return false;
+
+  switch (entry.type) {
+    case 'task-completed':
+      taskStore.completeTask(entry.refId);
+      return true;
+    case 'task-skipped':
+      taskStore.skipTask(entry.refId);
+      return true;
+    case 'task-deferred':
+      taskStore.deferTask(entry.refId, entry.deferredTo ?? null);
+      return true;
+    case 'seed-dismissed':
+      taskStore.dismissSeed(entry.refId);
+      return true;
+    case 'task-deleted':
+      taskStore.deleteTask(entry.refId);
+      return true;
+    default:
+      return false;
+  }
+}
+
+/** Actions the user took directly, rather than ones grouped under another */
+function isUndoable(entry: ActivityEntry): boolean {
+  return UNDOABLE_TYPES.includes(entry.type) && !entry.groupId;
+}
+
+/**
+ * Undone task actions that can be redone, most recently undone first.
+ * A new action (other than a redo) clears the redo history, as in an editor.
+ */
+function getRedoable(entries: ActivityEntry[]): ActivityEntry[] {
+  const lastFresh = entries.filter((entry) => isUndoable(entry) && !entry.redoOf && !entry.auto).at(-1);
+  return entries
+    .filter((entry) =>
+      REDOABLE_TYPES.includes(entry.type) &&
+      entry.undoneAt && !entry.redoneAt &&
+      (!lastFresh || entry.undoneAt > lastFresh.timestamp)
+    )
+    .sort((a, b) => b.undoneAt!.localeCompare(a.undoneAt!))
+    .slice(0, UNDO_LIMIT);
+}
+
+/**
+ * The last few undoable actions (newest first) and undone task actions
+ * that can be redone, with ways to undo and redo them
+ */
+export function useActivityUndo() {
+  const entries = useActivityStore((state) => state.entries);
+  const markUndone = useActivityStore((state) => state.markUndone);
+
+  const markRedone = useActivityStore((state) => state.markRedone);
+
+  const undoable = useMemo(
+    () => entries
+      .filter((entry) => isUndoable(entry) && !entry.undoneAt)
+      .slice(-UNDO_LIMIT)
+      .reverse(),
+    [entries]
+  );
+  const redoable = useMemo(() => getRedoable(entries), [entries]);
+
+  const undo = (entryId: string) => {
+    const entry = undoable.find((e) => e.id === entryId);
+    if (entry && reverseActivity(entry)) {
+      markUndone(entry.id);
+    }
+  };
+
+  const redo = (entryId: string) => {
+    const entry = redoable.find((e) => e.id === entryId);
+    if (entry && withActivityTags({ redoOf: entry.id }, () => reapplyActivity(entry))) {
+      markRedone(entry.id);
+    }
+  };
+
+  return { undoable, undo, redoable, redo };
+}
@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
 import { format } from 'date-fns';
 import { useTaskStore } from '../stores/useTaskStore';
+import { withActivityTags } from '../stores/useActivityStore';
 
 /**
  * Auto-completes past fixed-schedule tasks that the user didn't explicitly check off.
@@ -34,14 +35,14 @@ export function useAutoComplete() {
           const [h, m] = task.scheduledTime.split(':').map(Number);
           const taskMinutes = h * 60 + m;
           if (taskMinutes < currentMinutes) {
-            completeTask(instance.id);
+            withActivityTags({ auto: true }, () => completeTask(instance.id));
           }
           continue;
         }
 
         // Auto-complete morning routines after noon — they're either done or irrelevant by then
         if (task.tier === 'routine' && task.routineGroup === 'morning' && currentMinutes >= 12 * 60) {
-          completeTask(instance.id);
+          withActivityTags({ auto: true }, () => completeTask(instance.id));
         }
       }
     };
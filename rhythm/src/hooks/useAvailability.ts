@@ -1,7 +1,10 @@
 import { useMemo } from 'react';
 import { useCareBlockStore } from '../stores/useCareBlockStore';
 import { useChildStore } from '../stores/useChildStore';
-import type { AvailabilityState, CareBlock, Task } from '../types';
+import { useNapStore } from '../stores/useNapStore';
+import { useAwayStore } from '../stores/useAwayStore';
+import { isTaskSuggestedForAvailability } from '../stores/useTaskStore';
+import type { AvailabilityState, CareBlock, ChildStatusDetail, ChildStatuses, Task } from '../types';
 
 interface AvailabilityInfo {
   // Current state
@@ -11,6 +14,8 @@ interface AvailabilityInfo {
   activeBlocks: CareBlock[];
 
   // Children status
+  childStatuses: ChildStatuses;  // childId → away / asleep / awake (actual)
+  childStatusDetails: Record<string, ChildStatusDetail>; // scheduled vs actual, with source
   childrenAway: string[];      // Child IDs currently away
   childrenAsleep: string[];    // Child IDs currently asleep
   childrenHome: string[];      // Child IDs currently home and awake
@@ -52,6 +57,12 @@ const STATE_DISPLAY: Record<AvailabilityState, { label: string; icon: string; co
     color: 'text-lavender',
     description: 'Kids are asleep - perfect for quiet tasks at home'
   },
+  'one-on-one': {
+    label: 'One-on-one',
+    icon: '🧸',
+    color: 'text-dustyrose',
+    description: 'Just one little one with you'
+  },
   parenting: {
     label: 'Parenting',
     icon: '👶',
@@ -67,47 +78,33 @@ const STATE_DISPLAY: Record<AvailabilityState, { label: string; icon: string; co
 export function useAvailability(): AvailabilityInfo {
   const currentState = useCareBlockStore((state) => state.getCurrentAvailabilityState());
   const getActiveBlocksNow = useCareBlockStore((state) => state.getActiveBlocksNow);
+  const getChildStatusDetailsNow = useCareBlockStore((state) => state.getChildStatusDetailsNow);
   const children = useChildStore((state) => state.children);
+  const napLogs = useNapStore((state) => state.napLogs);
+  const awayLogs = useAwayStore((state) => state.awayLogs);
 
   const activeBlocks = useMemo(() => getActiveBlocksNow(), [getActiveBlocksNow]);
-
-  // Compute which children are in which state
-  const { childrenAway, childrenAsleep, childrenHome } = useMemo(() => {
-    const away: string[] = [];
-    const asleep: string[] = [];
-    const home: string[] = [];
-
-    for (const child of children) {
-      // Check if child is covered by a "free" block (childcare, babysitter)
-      const isAway = activeBlocks.some(
-        (block) =>
-          block.childIds.includes(child.id) &&
-          (block.blockType === 'childcare' || block.blockType === 'babysitter')
-      );
-
-      if (isAway) {
-        away.push(child.id);
-        continue;
-      }
-
-      // Check if child is covered by a sleep block
-      const isSleepBlock = activeBlocks.some(
-        (block) =>
-          block.childIds.includes(child.id) &&
-          block.blockType === 'sleep'
-      );
-
-      if (isSleepBlock) {
-        asleep.push(child.id);
-        continue;
-      }
-
-      // Default: child is home
-      home.push(child.id);
+  // Logged sleep, away logs and care status override the schedule, so
+  // recompute whenever any of them change
+  const childStatusDetails = useMemo(() => getChildStatusDetailsNow(), [getChildStatusDetailsNow, children, napLogs, awayLogs]); // eslint-disable-line react-hooks/exhaustive-deps
+  const childStatuses = useMemo(() => {
+    const statuses: ChildStatuses = {};
+    for (const [childId, detail] of Object.entries(childStatusDetails)) {
+      statuses[childId] = detail.actual;
     }
+    return statuses;
+  }, [childStatusDetails]);
 
-    return { childrenAway: away, childrenAsleep: asleep, childrenHome: home };
-  }, [children, activeBlocks]);
+  // Group children by status
+  const { childrenAway, childrenAsleep, childrenHome } = useMemo(() => {
+    const idsWith = (status: ChildStatuses[string]) =>
+      children.filter((child) => childStatuses[child.id] === status).map((child) => child.id);
+    return {
+      childrenAway: idsWith('away'),
+      childrenAsleep: idsWith('asleep'),
+      childrenHome: idsWith('awake'),
+    };
+  }, [children, childStatuses]);
 
   // Helper functions
   const isChildAway = (childId: string) => childrenAway.includes(childId);
@@ -119,51 +116,28 @@ export function useAvailability(): AvailabilityInfo {
   const isAnyChildAsleep = childrenAsleep.length > 0;
 
   // Task suggestion helper
-  const isTaskSuggested = (task: Task): boolean => {
-    // If task has bestWhen set, use it
-    if (task.bestWhen && task.bestWhen.length > 0) {
-      return task.bestWhen.includes(currentState);
-    }
-
-    // Fall back to legacy logic
-    if (task.napContext && task.napContext !== 'any') {
-      switch (task.napContext) {
-        case 'both-asleep':
-        case 'baby-asleep':
-        case 'toddler-asleep':
-          return currentState === 'quiet';
-        case 'both-awake':
-          return currentState === 'parenting';
-      }
-    }
-
-    if (task.careContext && task.careContext !== 'any') {
-      switch (task.careContext) {
-        case 'all-away':
-        case 'any-away':
-          return currentState === 'free' || currentState === 'quiet';
-        case 'all-home':
-          return currentState === 'parenting';
-      }
-    }
-
-    return false;
-  };
+  const isTaskSuggested = (task: Task): boolean =>
+    isTaskSuggestedForAvailability(task, currentState, childStatuses);
 
   // Display info
   const display = STATE_DISPLAY[currentState];
 
   // Make description more accurate when children are in mixed states
   let stateDescription = display.description;
-  if (currentState === 'parenting' && childrenAsleep.length > 0 && childrenHome.length > 0) {
-    stateDescription = 'Some kids are awake, some are sleeping';
+  if (currentState === 'one-on-one') {
+    const name = children.find((child) => child.id === childrenHome[0])?.name;
+    if (name) stateDescription = `Just ${name} with you`;
+  } else if (currentState === 'quiet' && childrenAway.length > 0) {
+    stateDescription = 'Kids are away or asleep';
   } else if (currentState === 'parenting' && childrenAsleep.length > 0) {
-    stateDescription = 'Kids are sleeping';
+    stateDescription = 'Some kids are awake, some are sleeping';
   }
 
   return {
     currentState,
     activeBlocks,
+    childStatuses,
+    childStatusDetails,
     childrenAway,
     childrenAsleep,
     childrenHome,
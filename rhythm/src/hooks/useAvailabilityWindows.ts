@@ -0,0 +1,23 @@
+import { useMemo } from 'react';
+import { addDays } from 'date-fns';
+import { useChildStore } from '../stores/useChildStore';
+import { useNapStore } from '../stores/useNapStore';
+import { useCareBlockStore } from '../stores/useCareBlockStore';
+import type { AvailabilityWindow } from '../types';
+
+/**
+ * A day sliced into planned availability windows (0 = today, 1 = tomorrow),
+ * recalculated when blocks, closures, children or sleep logs change
+ */
+export function useAvailabilityWindows(daysFromToday = 0): AvailabilityWindow[] {
+  const blocks = useCareBlockStore((state) => state.blocks);
+  const closures = useCareBlockStore((state) => state.closures);
+  const getAvailabilityWindows = useCareBlockStore((state) => state.getAvailabilityWindows);
+  const children = useChildStore((state) => state.children);
+  const napLogs = useNapStore((state) => state.napLogs);
+
+  return useMemo(
+    () => getAvailabilityWindows(addDays(new Date(), daysFromToday)),
+    [blocks, closures, children, napLogs, getAvailabilityWindows, daysFromToday] // eslint-disable-line react-hooks/exhaustive-deps
+  );
+}
@@ -0,0 +1,116 @@
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { useTutorialStore } from '../stores/useTutorialStore';
+import { useCharacterStore } from '../stores/useCharacterStore';
+import { useChildStore } from '../stores/useChildStore';
+import { useChildcareStore } from '../stores/useChildcareStore';
+import { useCareBlockStore } from '../stores/useCareBlockStore';
+import { useAwayStore } from '../stores/useAwayStore';
+import { useNapStore } from '../stores/useNapStore';
+import { useTaskStore } from '../stores/useTaskStore';
+import { useEventStore } from '../stores/useEventStore';
+import { useTransitionStore } from '../stores/useTransitionStore';
+import { useRoutineStore } from '../stores/useRoutineStore';
+import { usePlannerStore } from '../stores/usePlannerStore';
+import { useActivityStore } from '../stores/useActivityStore';
+import { useCoinStore } from '../stores/useCoinStore';
+import { useGardenStore } from '../stores/useGardenStore';
+import { useChallengeStore } from '../stores/useChallengeStore';
+import { useDecorationStore } from '../stores/useDecorationStore';
+import { useDayTierStore } from '../stores/useDayTierStore';
+import { useMealStore } from '../stores/useMealStore';
+import { useGroceryStore } from '../stores/useGroceryStore';
+import { usePantryStore } from '../stores/usePantryStore';
+import { buildBackup, diffStoreState, getDataFields, mergeStoreState, parseBackup } from '../utils/backup';
+import type { BackupSchema } from '../utils/backup';
+import type { BackupFile, BackupMode, BackupStoreDiff, BackupStoreEntry } from '../types';
+
+// The parts of a persisted zustand store a backup needs
+interface PersistedStore {
+  getState(): object;
+  getInitialState(): object;
+  setState(state: object, replace?: boolean): void;
+  persist: {
+    getOptions(): { name?: string; version?: number };
+    rehydrate(): Promise<void> | void;
+  };
+}
+
+// Every persisted store, settings first since other stores read them while loading
+const BACKUP_STORES: { label: string; store: PersistedStore }[] = [
+  { label: 'Settings', store: useSettingsStore },
+  { label: 'Tutorial', store: useTutorialStore },
+  { label: 'Gardener', store: useCharacterStore },
+  { label: 'Children', store: useChildStore },
+  { label: 'Childcare schedules', store: useChildcareStore },
+  { label: 'Care blocks', store: useCareBlockStore },
+  { label: 'Away time', store: useAwayStore },
+  { label: 'Sleep logs', store: useNapStore },
+  { label: 'Tasks', store: useTaskStore },
+  { label: 'Events', store: useEventStore },
+  { label: 'Transitions', store: useTransitionStore },
+  { label: 'Routines', store: useRoutineStore },
+  { label: 'Day plan', store: usePlannerStore },
+  { label: 'Activity', store: useActivityStore },
+  { label: 'Coins', store: useCoinStore },
+  { label: 'Garden', store: useGardenStore },
+  { label: 'Challenges', store: useChallengeStore },
+  { label: 'Decorations', store: useDecorationStore },
+  { label: 'Day tiers', store: useDayTierStore },
+  { label: 'Meals', store: useMealStore },
+  { label: 'Groceries', store: useGroceryStore },
+  { label: 'Pantry', store: usePantryStore },
+];
+
+function getSchema({ label, store }: { label: string; store: PersistedStore }): BackupSchema {
+  const { name = '', version = 0 } = store.persist.getOptions();
+  return { key: name, label, version, initialState: getDataFields(store.getInitialState()) };
+}
+
+export interface BackupPreview {
+  backup: BackupFile | null;
+  errors: string[];
+  warnings: string[];
+  diffs: BackupStoreDiff[];
+}
+
+/** Export, check and restore a backup of every store */
+export function useBackup() {
+  const exportBackup = (): string => {
+    const entries: Record<string, BackupStoreEntry> = {};
+    for (const entry of BACKUP_STORES) {
+      const { key, version } = getSchema(entry);
+      entries[key] = { version, state: getDataFields(entry.store.getState()) };
+    }
+    return JSON.stringify(buildBackup(entries), null, 2);
+  };
+
+  const previewBackup = (text: string): BackupPreview => {
+    const schemas = BACKUP_STORES.map(getSchema);
+    const { backup, errors, warnings } = parseBackup(text, schemas);
+    const diffs = backup
+      ? BACKUP_STORES.map((entry, i) =>
+          diffStoreState(schemas[i], getDataFields(entry.store.getState()), backup.stores[schemas[i].key]?.state))
+      : [];
+    return { backup, errors, warnings, diffs };
+  };
+
+  // Each store loads its backup the way it loads from storage, so its own
+  // migrations bring older backups up to date
+  const restoreBackup = async (backup: BackupFile, mode: BackupMode) => {
+    for (const entry of BACKUP_STORES) {
+      const { store } = entry;
+      const { key } = getSchema(entry);
+      const saved = backup.stores[key];
+      const current = getDataFields(store.getState());
+
+      if (mode === 'replace') store.setState(store.getInitialState(), true);
+      if (!saved) continue;
+
+      localStorage.setItem(key, JSON.stringify(saved));
+      await store.persist.rehydrate();
+      if (mode === 'merge') store.setState(mergeStoreState(current, getDataFields(store.getState())));
+    }
+  };
+
+  return { exportBackup, previewBackup, restoreBackup };
+}
@@ -2,12 +2,14 @@ import { useMemo } from 'react';
 import { format } from 'date-fns';
 import { useTaskStore } from '../stores/useTaskStore';
 import { useGardenStore } from '../stores/useGardenStore';
+import { useMealStore } from '../stores/useMealStore';
 import type { Task } from '../types';
 
 export type DailyFlowerStage = 0 | 1 | 2 | 3;
 
 /**
- * Tracks today's meal completions (breakfast, lunch, dinner) and maps to
+ * Tracks today's planned meals (breakfast, lunch, dinner) that have been
+ * eaten — the meal is on the planner and its meal task is done — and maps to
  * a 4-stage daily flower growth:
  *
  *   0 meals → stage 0 (seed)     → 049.png
@@ -37,12 +39,14 @@ export function useDailyFlower() {
   const tasks = useTaskStore(s => s.tasks);
   const taskInstances = useTaskStore(s => s.taskInstances);
   const hasEarnedFlowerToday = useGardenStore(s => s.hasEarnedFlowerToday);
+  const mealPlan = useMealStore(s => s.mealPlan);
 
   return useMemo(() => {
     const today = format(new Date(), 'yyyy-MM-dd');
     const todayInstances = taskInstances.filter(i => i.date === today);
+    const plannedToday = mealPlan[today] ?? {};
 
-    // Count distinct completed meals (breakfast, lunch, dinner)
+    // Count distinct planned meals (breakfast, lunch, dinner) that were completed
     const completedMealTypes = new Set<string>();
     for (const instance of todayInstances) {
       if (instance.status !== 'completed') continue;
@@ -50,7 +54,7 @@ export function useDailyFlower() {
       if (!task) continue;
 
       const mealType = detectMealType(task);
-      if (mealType) {
+      if (mealType && plannedToday[mealType]) {
         completedMealTypes.add(mealType);
       }
     }
@@ -66,6 +70,7 @@ export function useDailyFlower() {
       isBloomed,
       alreadyEarned,
       completedMealTypes: Array.from(completedMealTypes),
+      mealsPlanned: (['breakfast', 'lunch', 'dinner'] as const).filter(m => plannedToday[m]).length,
     };
-  }, [tasks, taskInstances, hasEarnedFlowerToday]);
+  }, [tasks, taskInstances, mealPlan, hasEarnedFlowerToday]);
 }
@@ -0,0 +1,61 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { useTaskStore, estimateTaskDuration, isTaskSuggestedForAvailability } from '../stores/useTaskStore';
+import { useCareBlockStore } from '../stores/useCareBlockStore';
+import { usePlannerStore } from '../stores/usePlannerStore';
+import { useAvailability } from './useAvailability';
+import { useAvailabilityWindows } from './useAvailabilityWindows';
+import { planDay, type DayPlan, type PlannerCandidate } from '../utils/dayPlanner';
+
+/**
+ * Today's proposed plan for to-dos and seeds. Recomputed from the live
+ * forecast, so a short nap or an early pickup re-plans what's left; the
+ * window you're in right now uses actual (logged) availability.
+ */
+export function useDayPlan(): DayPlan & { hasAcceptedPlan: boolean } {
+  const tasks = useTaskStore((state) => state.tasks);
+  const taskInstances = useTaskStore((state) => state.taskInstances);
+  const getChildStatusesAt = useCareBlockStore((state) => state.getChildStatusesAt);
+  const planDate = usePlannerStore((state) => state.planDate);
+  const accepted = usePlannerStore((state) => state.accepted);
+  const shuffle = usePlannerStore((state) => state.shuffle);
+  const { currentState, childStatuses } = useAvailability();
+  const windows = useAvailabilityWindows();
+
+  return useMemo(() => {
+    const now = new Date();
+    const today = format(now, 'yyyy-MM-dd');
+    const currentMinutes = now.getHours() * 60 + now.getMinutes();
+    const isTodaysPlan = planDate === today;
+
+    // Today's open to-dos plus the seeds queue, one entry per task
+    const candidates: PlannerCandidate[] = [];
+    const seen = new Set<string>();
+    for (const instance of taskInstances) {
+      const isOpenToday = instance.status === 'pending' && instance.date === today;
+      if (!isOpenToday && instance.status !== 'deferred') continue;
+      const task = tasks.find((t) => t.id === instance.taskId);
+      if (!task || !task.isActive || task.tier !== 'todo' || task.scheduledTime || task.triggeredBy || task.isInformational) continue;
+      if (seen.has(task.id)) continue;
+      seen.add(task.id);
+      candidates.push({ task, instance });
+    }
+
+    const liveWindows = windows.map((w) =>
+      w.startMinutes <= currentMinutes && w.endMinutes > currentMinutes ? { ...w, state: currentState } : w
+    );
+
+    const plan = planDay({
+      candidates,
+      windows: liveWindows,
+      statusesAt: (w) => w.startMinutes <= currentMinutes ? childStatuses : getChildStatusesAt(now, w.start),
+      isSuggested: isTaskSuggestedForAvailability,
+      durationOf: (task) => estimateTaskDuration(task, taskInstances).minutes,
+      fromMinutes: currentMinutes,
+      today,
+      accepted: isTodaysPlan ? accepted : {},
+      shuffle: isTodaysPlan ? shuffle : 0,
+    });
+    return { ...plan, hasAcceptedPlan: isTodaysPlan && Object.keys(accepted).length > 0 };
+  }, [tasks, taskInstances, windows, currentState, childStatuses, getChildStatusesAt, planDate, accepted, shuffle]);
+}
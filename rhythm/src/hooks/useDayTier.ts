@@ -0,0 +1,28 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { useTaskStore } from '../stores/useTaskStore';
+import { useDayTierStore } from '../stores/useDayTierStore';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { evaluateDayTier } from '../utils/dayTiers';
+import type { Task } from '../types';
+
+/**
+ * Today's day tier (Good Enough, Great or Epic) and progress on each
+ * criterion, scaled for the current season of life
+ */
+export function useDayTier() {
+  const tasks = useTaskStore((state) => state.tasks);
+  const taskInstances = useTaskStore((state) => state.taskInstances);
+  const criteria = useDayTierStore((state) => state.criteria);
+  const seasonOfLife = useSettingsStore((state) => state.seasonOfLife);
+
+  return useMemo(() => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const completedTasks = taskInstances
+      .filter((instance) => instance.date === today && instance.status === 'completed')
+      .map((instance) => tasks.find((t) => t.id === instance.taskId))
+      .filter((task): task is Task => task !== undefined);
+
+    return { today, ...evaluateDayTier(criteria, seasonOfLife, completedTasks) };
+  }, [tasks, taskInstances, criteria, seasonOfLife]);
+}
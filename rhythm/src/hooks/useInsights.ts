@@ -0,0 +1,67 @@
+import { useMemo } from 'react';
+import { format, parseISO, startOfWeek, subWeeks } from 'date-fns';
+import { useTaskStore } from '../stores/useTaskStore';
+import { useAwayStore } from '../stores/useAwayStore';
+import { useGardenStore } from '../stores/useGardenStore';
+import { useActivityStore } from '../stores/useActivityStore';
+import { useCareBlockStore } from '../stores/useCareBlockStore';
+import {
+  getCompletionsByState,
+  getCompletionTimesByCategory,
+  getPickupTimings,
+  getRoutineStreaks,
+  getWeeklyTotals,
+} from '../utils/insights';
+import { resolveBlockOnDate } from '../utils/scheduling';
+import type { AvailabilityWindow } from '../types';
+
+// How far back the trends reach
+export const INSIGHT_WEEKS = 8;
+
+/**
+ * Longer-range trends for the insights screen, over the last eight weeks
+ */
+export function useInsights() {
+  const tasks = useTaskStore((state) => state.tasks);
+  const taskInstances = useTaskStore((state) => state.taskInstances);
+  const awayLogs = useAwayStore((state) => state.awayLogs);
+  const flowers = useGardenStore((state) => state.flowers);
+  const activity = useActivityStore((state) => state.entries);
+  const blocks = useCareBlockStore((state) => state.blocks);
+  const getAvailabilityWindows = useCareBlockStore((state) => state.getAvailabilityWindows);
+
+  return useMemo(() => {
+    const now = new Date();
+    const today = format(now, 'yyyy-MM-dd');
+    const weekStarts = Array.from({ length: INSIGHT_WEEKS }, (_, i) =>
+      format(startOfWeek(subWeeks(now, INSIGHT_WEEKS - 1 - i)), 'yyyy-MM-dd')
+    );
+    const since = weekStarts[0];
+    const recentInstances = taskInstances.filter((i) => i.date >= since);
+
+    // Windows are worked out once per day that has completions
+    const windowCache = new Map<string, AvailabilityWindow[]>();
+    const windowsFor = (date: string) => {
+      if (!windowCache.has(date)) windowCache.set(date, getAvailabilityWindows(parseISO(date)));
+      return windowCache.get(date)!;
+    };
+
+    return {
+      weekly: getWeeklyTotals(weekStarts, tasks, recentInstances, activity, flowers),
+      streaks: getRoutineStreaks(tasks, taskInstances, today),
+      byState: getCompletionsByState(recentInstances, windowsFor),
+      timesByCategory: getCompletionTimesByCategory(tasks, recentInstances),
+      pickups: getPickupTimings(
+        awayLogs.filter((log) => log.date >= since),
+        (log) => {
+          const block = blocks.find((b) =>
+            b.name === log.scheduleName &&
+            b.childIds.includes(log.childId) &&
+            (b.blockType === 'childcare' || b.blockType === 'babysitter')
+          );
+          return block ? resolveBlockOnDate(block, parseISO(log.date)) : null;
+        }
+      ),
+    };
+  }, [tasks, taskInstances, awayLogs, flowers, activity, blocks, getAvailabilityWindows]);
+}
@@ -0,0 +1,34 @@
+import { useEffect } from 'react';
+import { addDays, format } from 'date-fns';
+import { useActivityStore } from '../stores/useActivityStore';
+import { useTaskStore } from '../stores/useTaskStore';
+import { useGroceryStore } from '../stores/useGroceryStore';
+
+// The chore library's to-do for planning the week's meals
+const PLAN_MEALS_TITLE = 'plan weekly meals';
+
+/**
+ * When the "Plan weekly meals" to-do is completed, build the grocery list
+ * for the week ahead and schedule a grocery run
+ */
+export function useMealPlanFollowUp() {
+  useEffect(() => {
+    return useActivityStore.subscribe((state, prev) => {
+      const lastSeenId = prev.entries.at(-1)?.id;
+      const start = lastSeenId ? state.entries.map((e) => e.id).lastIndexOf(lastSeenId) + 1 : 0;
+      if (start === 0 && lastSeenId) return;
+
+      const { taskInstances, getTask } = useTaskStore.getState();
+      const completedPlan = state.entries.slice(start).some((entry) => {
+        if (entry.type !== 'task-completed' || entry.redoOf) return false;
+        const instance = taskInstances.find((i) => i.id === entry.refId);
+        return instance && getTask(instance.taskId)?.title.toLowerCase() === PLAN_MEALS_TITLE;
+      });
+      if (!completedPlan) return;
+
+      const now = new Date();
+      const weekAhead = Array.from({ length: 7 }, (_, i) => format(addDays(now, i), 'yyyy-MM-dd'));
+      useGroceryStore.getState().finishMealPlan(weekAhead);
+    });
+  }, []);
+}
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useChildStore } from '../stores/useChildStore';
+import { useNapStore } from '../stores/useNapStore';
+import { predictNapDay } from '../utils/napPrediction';
+import type { NapDayPrediction } from '../types';
+
+/**
+ * Today's predicted naps and bedtime for every child, recalculated
+ * whenever a sleep is logged or edited
+ */
+export function useNapPredictions(): NapDayPrediction[] {
+  const children = useChildStore((state) => state.children);
+  const napLogs = useNapStore((state) => state.napLogs);
+
+  return useMemo(() => {
+    const now = new Date();
+    return children.map((child) => predictNapDay(child, napLogs, now, now));
+  }, [children, napLogs]);
+}
@@ -0,0 +1,38 @@
+import { useMemo } from 'react';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { useChildStore } from '../stores/useChildStore';
+import { useNapStore } from '../stores/useNapStore';
+import { useCareBlockStore } from '../stores/useCareBlockStore';
+import { detectNapTransition } from '../utils/napPrediction';
+import { isNapBlock } from '../utils/sleepTemplates';
+import type { NapTransition } from '../types';
+
+// A dismissed prompt stays quiet for this long before asking again
+const SNOOZE_DAYS = 14;
+
+/**
+ * Children who look ready to drop a nap, minus any whose prompt was
+ * dismissed recently
+ */
+export function useNapTransitions(): NapTransition[] {
+  const children = useChildStore((state) => state.children);
+  const napLogs = useNapStore((state) => state.napLogs);
+  const dismissedTransitions = useNapStore((state) => state.dismissedTransitions);
+  const blocks = useCareBlockStore((state) => state.blocks);
+
+  return useMemo(() => {
+    const today = new Date();
+    return children
+      .filter((child) => {
+        const dismissedOn = dismissedTransitions[child.id];
+        return !dismissedOn || differenceInCalendarDays(today, parseISO(dismissedOn)) >= SNOOZE_DAYS;
+      })
+      .map((child) => {
+        const napBlocks = blocks.filter(
+          (block) => block.isActive && isNapBlock(block) && block.childIds.includes(child.id)
+        );
+        return detectNapTransition(child, napLogs, napBlocks, today);
+      })
+      .filter((transition): transition is NapTransition => transition !== null);
+  }, [children, napLogs, dismissedTransitions, blocks]);
+}
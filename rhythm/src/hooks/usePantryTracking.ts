@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { useActivityStore } from '../stores/useActivityStore';
+import { useTaskStore } from '../stores/useTaskStore';
+import { useMealStore } from '../stores/useMealStore';
+import { usePantryStore } from '../stores/usePantryStore';
+import { useGroceryStore } from '../stores/useGroceryStore';
+
+/**
+ * Keep the pantry in step with the day: a completed meal uses up its planned
+ * recipe's ingredients, and staples that run low go on the grocery list
+ */
+export function usePantryTracking() {
+  useEffect(() => {
+    const unsubscribeActivity = useActivityStore.subscribe((state, prev) => {
+      const lastSeenId = prev.entries.at(-1)?.id;
+      const start = lastSeenId ? state.entries.map((e) => e.id).lastIndexOf(lastSeenId) + 1 : 0;
+      if (start === 0 && lastSeenId) return;
+
+      const { taskInstances, getTask } = useTaskStore.getState();
+      const { mealPlan, recipes } = useMealStore.getState();
+      for (const entry of state.entries.slice(start)) {
+        if (entry.type !== 'task-completed') continue;
+        const instance = taskInstances.find((i) => i.id === entry.refId);
+        const task = instance ? getTask(instance.taskId) : undefined;
+        if (!instance || task?.type !== 'meal') continue;
+
+        const recipeId = mealPlan[instance.date]?.[task.mealType]?.recipeId;
+        const recipe = recipeId ? recipes.find((r) => r.id === recipeId) : undefined;
+        if (!recipe) continue;
+
+        // Logged with the completion, so undoing it puts the ingredients back
+        const pantryUse = usePantryStore.getState().consumeMeal(instance.date, task.mealType, recipe.ingredients);
+        if (pantryUse) {
+          useActivityStore.getState().logActivity({
+            type: 'pantry-used',
+            label: `Used ingredients for ${recipe.title}`,
+            groupId: entry.id,
+            pantryUse,
+          });
+        }
+      }
+    });
+
+    const unsubscribePantry = usePantryStore.subscribe((state, prev) => {
+      if (state.items !== prev.items) useGroceryStore.getState().addLowStaples();
+    });
+
+    return () => {
+      unsubscribeActivity();
+      unsubscribePantry();
+    };
+  }, []);
+}
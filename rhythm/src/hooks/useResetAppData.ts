@@ -3,6 +3,15 @@ import { useChildStore } from '../stores/useChildStore';
 import { useGardenStore } from '../stores/useGardenStore';
 import { useTaskStore } from '../stores/useTaskStore';
 import { useAwayStore } from '../stores/useAwayStore';
+import { useNapStore } from '../stores/useNapStore';
+import { useActivityStore } from '../stores/useActivityStore';
+import { useDayTierStore } from '../stores/useDayTierStore';
+import { useMealStore } from '../stores/useMealStore';
+import { useGroceryStore } from '../stores/useGroceryStore';
+import { usePantryStore } from '../stores/usePantryStore';
+import { useCoinStore } from '../stores/useCoinStore';
+import { useChallengeStore } from '../stores/useChallengeStore';
+import { useDecorationStore } from '../stores/useDecorationStore';
 import { clearAllStorage, setSkipSeedDataOnce } from '../utils/storageHelpers';
 
 export function useResetAppData() {
@@ -11,6 +20,15 @@ export function useResetAppData() {
   const clearGardenState = useGardenStore((state) => state.clearGardenState);
   const clearCareBlocks = useCareBlockStore((state) => state.clearBlocks);
   const clearAwayLogs = useAwayStore((state) => state.clearAwayLogs);
+  const clearSleepLogs = useNapStore((state) => state.clearSleepLogs);
+  const clearActivity = useActivityStore((state) => state.clearActivity);
+  const clearDayTierHistory = useDayTierStore((state) => state.clearHistory);
+  const clearMeals = useMealStore((state) => state.clearMeals);
+  const clearGroceries = useGroceryStore((state) => state.clearGroceries);
+  const clearPantry = usePantryStore((state) => state.clearPantry);
+  const clearCoins = useCoinStore((state) => state.clearCoins);
+  const clearChallengeState = useChallengeStore((state) => state.clearChallengeState);
+  const clearDecorations = useDecorationStore((state) => state.clearDecorations);
 
   return () => {
     clearChildren();
@@ -18,6 +36,15 @@ export function useResetAppData() {
     clearCareBlocks();
     clearGardenState();
     clearAwayLogs();
+    clearSleepLogs();
+    clearActivity();
+    clearDayTierHistory();
+    clearMeals();
+    clearGroceries();
+    clearPantry();
+    clearCoins();
+    clearChallengeState();
+    clearDecorations();
 
     clearAllStorage();
     setSkipSeedDataOnce();
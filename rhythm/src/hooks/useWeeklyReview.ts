@@ -0,0 +1,64 @@
+import { useMemo } from 'react';
+import { format, subDays } from 'date-fns';
+import { useTaskStore, estimateTaskDuration } from '../stores/useTaskStore';
+import { useCareBlockStore } from '../stores/useCareBlockStore';
+import { useChildStore } from '../stores/useChildStore';
+import { useGardenStore } from '../stores/useGardenStore';
+import { useActivityStore } from '../stores/useActivityStore';
+import { summarizeWeek } from '../utils/weeklyReview';
+import { timeToMinutes } from '../utils/scheduling';
+import type { AvailabilityWindow, WeeklyReview } from '../types';
+
+const REVIEW_DAYS = 7;
+
+/**
+ * The last seven days (ending today) summarised for the weekly review
+ */
+export function useWeeklyReview(): WeeklyReview {
+  const tasks = useTaskStore((state) => state.tasks);
+  const taskInstances = useTaskStore((state) => state.taskInstances);
+  const blocks = useCareBlockStore((state) => state.blocks);
+  const getAvailabilityWindows = useCareBlockStore((state) => state.getAvailabilityWindows);
+  const userWakeTime = useChildStore((state) => state.userWakeTime);
+  const userBedtime = useChildStore((state) => state.userBedtime);
+  const flowers = useGardenStore((state) => state.flowers);
+  const entries = useActivityStore((state) => state.entries);
+
+  return useMemo(() => {
+    const now = new Date();
+    const dates = Array.from({ length: REVIEW_DAYS }, (_, i) => subDays(now, REVIEW_DAYS - 1 - i));
+    const days = dates.map((date) => format(date, 'yyyy-MM-dd'));
+
+    // Free and quiet time while I'm up — night sleep isn't time to spend
+    const wake = timeToMinutes(userWakeTime);
+    const bed = timeToMinutes(userBedtime) > wake ? timeToMinutes(userBedtime) : 24 * 60;
+    const windows: AvailabilityWindow[] = dates.flatMap((date) =>
+      getAvailabilityWindows(date)
+        .filter((w) => (w.state === 'free' || w.state === 'quiet') && w.endMinutes > wake && w.startMinutes < bed)
+        .map((w) => {
+          const startMinutes = Math.max(w.startMinutes, wake);
+          const endMinutes = Math.min(w.endMinutes, bed);
+          return { ...w, startMinutes, endMinutes, durationMinutes: endMinutes - startMinutes };
+        })
+    );
+
+    const since = dates[0];
+    since.setHours(0, 0, 0, 0);
+    const seedEntries = entries.filter(
+      (e) => (e.type === 'seed-expired' || e.type === 'seed-dismissed') && e.refId && e.timestamp >= since.toISOString()
+    );
+
+    return summarizeWeek({
+      days,
+      tasks,
+      instances: taskInstances,
+      excludedInstanceIds: new Set(seedEntries.map((e) => e.refId!)),
+      expiredSeeds: seedEntries
+        .filter((e) => e.type === 'seed-expired')
+        .map((e) => ({ instanceId: e.refId!, expiredAt: e.timestamp })),
+      windows,
+      flowers,
+      durationOf: (task) => estimateTaskDuration(task, taskInstances).minutes,
+    });
+  }, [tasks, taskInstances, blocks, getAvailabilityWindows, userWakeTime, userBedtime, flowers, entries]); // eslint-disable-line react-hooks/exhaustive-deps
+}
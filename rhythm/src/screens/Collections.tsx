@@ -35,6 +35,10 @@ const STAMP_COLORS: Record<FlowerType, string> = {
   'poppy':                '#C85050',
   'hibiscus':             '#C87898',
   'pansy':                '#7878B8',
+  // Day tier rewards
+  'enough-primula':       '#B8A860',
+  'great-tulip':          '#C86A8A',
+  'epic-hibiscus':        '#B85878',
 };
 
 const TILTS = [-1.4, 0.9, -0.7, 1.6, -1.1, 0.5];
@@ -167,13 +171,17 @@ export function Collections() {
   const types = Object.keys(FLOWER_CATALOG) as FlowerType[];
   const typesEarned = types.filter(t => stats[t].count > 0).length;
 
-  const bySeason = useMemo(() => {
-    const groups = {} as Record<Season, FlowerType[]>;
-    SEASON_ORDER.forEach(s => { groups[s] = []; });
-    types.forEach(type => {
-      groups[FLOWER_CATALOG[type].season].push(type);
+  // One group per season, then the day tier rewards that grow all year
+  const groups = useMemo(() => {
+    const bySeason = {} as Record<Season, FlowerType[]>;
+    SEASON_ORDER.forEach(s => { bySeason[s] = []; });
+    types.filter(type => !FLOWER_CATALOG[type].dayTier).forEach(type => {
+      bySeason[FLOWER_CATALOG[type].season].push(type);
     });
-    return groups;
+    return [
+      ...SEASON_ORDER.map(season => ({ key: season, label: SEASON_LABELS[season], types: bySeason[season] })),
+      { key: 'day-rewards', label: 'Day rewards', types: types.filter(type => FLOWER_CATALOG[type].dayTier) },
+    ];
   }, [types]);
 
   // Global index for tilt cycling across all stamps
@@ -189,16 +197,16 @@ export function Collections() {
           </p>
         </header>
 
-        {SEASON_ORDER.filter(s => bySeason[s].length > 0).map(season => (
-          <div key={season}>
+        {groups.filter(g => g.types.length > 0).map(group => (
+          <div key={group.key}>
             <div className="px-5 pt-5 pb-1 flex items-center gap-3">
               <span className="font-display text-sm tracking-widest uppercase text-bark/40">
-                {SEASON_LABELS[season]}
+                {group.label}
               </span>
               <div className="flex-1 h-px" style={{ background: 'rgba(93,78,55,0.15)' }} />
             </div>
             <div className="px-5 py-4 grid grid-cols-2 gap-8">
-              {bySeason[season].map(type => (
+              {group.types.map(type => (
                 <StampCard
                   key={type}
                   type={type}
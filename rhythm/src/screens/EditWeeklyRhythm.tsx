@@ -1,40 +1,6 @@
 import { useNavigate } from 'react-router-dom';
 import { useTaskStore } from '../stores/useTaskStore';
-import type { Task, TaskInput } from '../types';
-
-const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
-
-function DayPicker({ task, onUpdate }: { task: Task; onUpdate: (id: string, updates: Partial<TaskInput>) => void }) {
-  const activeDays = task.daysOfWeek ?? [0, 1, 2, 3, 4, 5, 6];
-
-  const toggleDay = (day: number) => {
-    const newDays = activeDays.includes(day)
-      ? activeDays.filter((d) => d !== day)
-      : [...activeDays, day].sort();
-    onUpdate(task.id, { daysOfWeek: newDays.length === 7 ? null : newDays });
-  };
-
-  return (
-    <div className="flex gap-1">
-      {DAY_LABELS.map((label, index) => {
-        const isActive = activeDays.includes(index);
-        return (
-          <button
-            key={index}
-            onClick={() => toggleDay(index)}
-            className={`w-7 h-7 rounded-full text-xs font-semibold transition-all ${
-              isActive
-                ? 'bg-sage text-cream'
-                : 'bg-bark/5 text-bark/30'
-            }`}
-          >
-            {label}
-          </button>
-        );
-      })}
-    </div>
-  );
-}
+import { DayPicker } from '../components/tasks/DayPicker';
 
 export function EditWeeklyRhythm() {
   const navigate = useNavigate();
@@ -6,6 +6,7 @@ import {
   BLOCKED_CELLS,
   FLOWER_CATALOG,
   getCurrentSeason,
+  isPlantableInSeason,
 } from '../stores/useGardenStore';
 import { useDecorationStore } from '../stores/useDecorationStore';
 import { DECOR_CATALOG } from '../data/decorations';
@@ -90,7 +91,7 @@ function FlowerPalette({ onFlowerDragStart }: { onFlowerDragStart?: (type: Flowe
   const seedsByType = useMemo(() => {
     const counts: Partial<Record<FlowerType, number>> = {};
     flowers.forEach((f) => {
-      if (!placedFlowerIds.has(f.id) && f.challengeId === null && FLOWER_CATALOG[f.type].season === activeSeason)
+      if (!placedFlowerIds.has(f.id) && f.challengeId === null && isPlantableInSeason(f.type, activeSeason))
         counts[f.type] = (counts[f.type] || 0) + 1;
     });
     return counts;
@@ -99,7 +100,7 @@ function FlowerPalette({ onFlowerDragStart }: { onFlowerDragStart?: (type: Flowe
   const bloomsByType = useMemo(() => {
     const counts: Partial<Record<FlowerType, number>> = {};
     flowers.forEach((f) => {
-      if (!placedFlowerIds.has(f.id) && f.challengeId !== null && FLOWER_CATALOG[f.type].season === activeSeason)
+      if (!placedFlowerIds.has(f.id) && f.challengeId !== null && isPlantableInSeason(f.type, activeSeason))
         counts[f.type] = (counts[f.type] || 0) + 1;
     });
     return counts;
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { addDays, format, parseISO } from 'date-fns';
+import { useGroceryStore } from '../stores/useGroceryStore';
+import { formatQuantity } from '../utils/groceries';
+import type { GroceryItem, GrocerySection } from '../types';
+
+const SECTION_LABELS: Record<GrocerySection, string> = {
+  'produce': 'Produce',
+  'meat-fish': 'Meat & fish',
+  'dairy': 'Dairy & eggs',
+  'bakery': 'Bakery',
+  'pantry': 'Pantry',
+  'frozen': 'Frozen',
+  'household': 'Household',
+  'other': 'Other',
+};
+
+function describeItem(item: GroceryItem): string {
+  const amount = item.quantity !== null ? formatQuantity(item.quantity) : null;
+  return [amount, item.unit, item.name].filter(Boolean).join(' ');
+}
+
+/**
+ * The week's shopping, built from the meal plan's recipes and grouped by
+ * aisle, to tick off in the store
+ */
+export function GroceryList() {
+  const navigate = useNavigate();
+  const items = useGroceryStore((s) => s.items);
+  const generatedFor = useGroceryStore((s) => s.generatedFor);
+  const generateFromPlan = useGroceryStore((s) => s.generateFromPlan);
+  const addItem = useGroceryStore((s) => s.addItem);
+  const toggleItem = useGroceryStore((s) => s.toggleItem);
+  const removeItem = useGroceryStore((s) => s.removeItem);
+  const clearChecked = useGroceryStore((s) => s.clearChecked);
+  const [newItem, setNewItem] = useState('');
+
+  const handleAdd = () => {
+    addItem(newItem);
+    setNewItem('');
+  };
+
+  const rebuild = () => {
+    const now = new Date();
+    generateFromPlan(Array.from({ length: 7 }, (_, i) => format(addDays(now, i), 'yyyy-MM-dd')));
+  };
+
+  const sections = (Object.keys(SECTION_LABELS) as GrocerySection[])
+    .map((section) => ({
+      section,
+      items: items
+        .filter((i) => i.section === section)
+        .sort((a, b) => Number(a.checked) - Number(b.checked) || a.name.localeCompare(b.name)),
+    }))
+    .filter(({ items: sectionItems }) => sectionItems.length > 0);
+  const checkedCount = items.filter((i) => i.checked).length;
+
+  return (
+    <div className="min-h-screen bg-cream">
+      <div className="max-w-lg mx-auto p-4 pb-24">
+        <header className="mb-6">
+          <button
+            onClick={() => navigate(-1)}
+            className="text-sm text-bark/50 hover:text-bark mb-2 flex items-center gap-1"
+          >
+            ← Back
+          </button>
+          <h1 className="font-display text-2xl text-bark">Grocery List</h1>
+          <div className="flex items-center justify-between">
+            <p className="text-bark/60 text-sm">
+              {generatedFor && generatedFor.length > 0
+                ? `For ${format(parseISO(generatedFor[0]), 'MMM d')} – ${format(parseISO(generatedFor[generatedFor.length - 1]), 'MMM d')}`
+                : 'Built from your meal plan'}
+            </p>
+            <button onClick={rebuild} className="text-xs text-sage hover:text-sage/80 font-medium">
+              Rebuild from plan
+            </button>
+          </div>
+        </header>
+
+        <div className="flex gap-2 mb-6">
+          <input
+            type="text"
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Add something else…"
+            className="flex-1 px-3 py-2 rounded-lg border border-bark/20 bg-parchment focus:outline-none focus:border-sage text-sm"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!newItem.trim()}
+            className="px-3 py-2 rounded-lg bg-sage text-cream text-sm hover:bg-sage/90 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+
+        {sections.length === 0 ? (
+          <p className="text-sm text-bark/50 bg-parchment/50 rounded-xl p-4">
+            Nothing on the list yet. Plan meals from your recipes, or add items here.
+          </p>
+        ) : (
+          <div className="space-y-5">
+            {sections.map(({ section, items: sectionItems }) => (
+              <section key={section}>
+                <h2 className="text-xs font-medium text-bark/50 uppercase tracking-wide mb-2">{SECTION_LABELS[section]}</h2>
+                <div className="bg-parchment/50 rounded-xl divide-y divide-bark/5">
+                  {sectionItems.map((item) => (
+                    <div key={item.id} className="flex items-center gap-3 px-3 py-2.5">
+                      <button
+                        onClick={() => toggleItem(item.id)}
+                        className={`w-5 h-5 rounded-full border-2 flex-shrink-0 flex items-center justify-center text-[10px] ${
+                          item.checked ? 'bg-sage border-sage text-cream' : 'border-bark/30'
+                        }`}
+                      >
+                        {item.checked && '✓'}
+                      </button>
+                      <span
+                        onClick={() => toggleItem(item.id)}
+                        className={`flex-1 text-sm cursor-pointer ${item.checked ? 'text-bark/40 line-through' : 'text-bark'}`}
+                      >
+                        {describeItem(item)}
+                      </span>
+                      <button
+                        onClick={() => removeItem(item.id)}
+                        className="text-bark/30 hover:text-terracotta text-sm"
+                        title="Remove"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+
+        {checkedCount > 0 && (
+          <button
+            onClick={clearChecked}
+            className="w-full mt-6 py-2 text-sm text-bark/50 hover:text-bark"
+          >
+            Clear {checkedCount} ticked item{checkedCount === 1 ? '' : 's'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, isToday, isYesterday, parseISO } from 'date-fns';
+import { useActivityStore } from '../stores/useActivityStore';
+import { useActivityUndo } from '../hooks/useActivityUndo';
+import type { ActivityType } from '../types';
+
+// How many days are shown per "Show older" page
+const DAYS_PER_PAGE = 7;
+
+const ACTIVITY_ICONS: Record<ActivityType, string> = {
+  'task-completed': '✓',
+  'task-skipped': '↷',
+  'task-deferred': '⤓',
+  'task-deleted': '✕',
+  'seed-dismissed': '🌰',
+  'seed-expired': '🍂',
+  'child-away': '🚗',
+  'child-home': '🏠',
+  'sleep-start': '😴',
+  'sleep-end': '☀️',
+  'coins-earned': '🪙',
+  'coins-spent': '🪙',
+  'flower-earned': '🌸',
+  'challenge-planted': '🌱',
+  'challenge-bloomed': '🌼',
+  'pantry-used': '🥕',
+};
+
+function formatDayHeading(date: string): string {
+  const parsed = parseISO(date);
+  if (isToday(parsed)) return 'Today';
+  if (isYesterday(parsed)) return 'Yesterday';
+  return format(parsed, 'EEEE, MMMM d');
+}
+
+/**
+ * Day-by-day journal of everything logged, newest first, with undo on
+ * the last few actions and redo on recently undone ones
+ */
+export function History() {
+  const navigate = useNavigate();
+  const entries = useActivityStore((state) => state.entries);
+  const { undoable, undo, redoable, redo } = useActivityUndo();
+  const [dayCount, setDayCount] = useState(DAYS_PER_PAGE);
+
+  const days = useMemo(() => {
+    const byDate = new Map<string, typeof entries>();
+    [...entries].reverse().forEach((entry) => {
+      byDate.set(entry.date, [...(byDate.get(entry.date) ?? []), entry]);
+    });
+    return [...byDate.entries()].sort(([a], [b]) => b.localeCompare(a));
+  }, [entries]);
+
+  const undoableIds = new Set(undoable.map((entry) => entry.id));
+  const redoableIds = new Set(redoable.map((entry) => entry.id));
+
+  return (
+    <div className="min-h-screen bg-cream">
+      <div className="max-w-lg mx-auto p-4 pb-24">
+        <header className="mb-6">
+          <button
+            onClick={() => navigate('/settings')}
+            className="text-sm text-bark/50 hover:text-bark mb-2 flex items-center gap-1"
+          >
+            ← Back
+          </button>
+          <h1 className="font-display text-2xl text-bark">History</h1>
+          <p className="text-bark/60 text-sm">What happened, day by day</p>
+        </header>
+
+        {days.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-bark/50 text-sm">Nothing logged yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {days.slice(0, dayCount).map(([date, dayEntries]) => (
+              <section key={date}>
+                <h2 className="text-xs font-medium text-bark/50 uppercase tracking-wide mb-2">
+                  {formatDayHeading(date)}
+                </h2>
+                <ul className="bg-parchment/50 rounded-xl p-3 space-y-2">
+                  {dayEntries.map((entry) => (
+                    <li key={entry.id} className="flex items-center gap-3">
+                      <span className="text-xs text-bark/40 w-16 flex-shrink-0">
+                        {format(parseISO(entry.timestamp), 'h:mm a')}
+                      </span>
+                      <span className="emoji-icon w-4 text-center text-sm flex-shrink-0">
+                        {ACTIVITY_ICONS[entry.type]}
+                      </span>
+                      <span className={`text-sm flex-1 ${entry.undoneAt ? 'text-bark/30 line-through' : 'text-bark/70'}`}>
+                        {entry.label}
+                      </span>
+                      {undoableIds.has(entry.id) && (
+                        <button
+                          onClick={() => undo(entry.id)}
+                          className="text-xs text-bark/50 hover:text-bark px-2 py-1 rounded-lg hover:bg-parchment"
+                        >
+                          Undo
+                        </button>
+                      )}
+                      {redoableIds.has(entry.id) && (
+                        <button
+                          onClick={() => redo(entry.id)}
+                          className="text-xs text-bark/50 hover:text-bark px-2 py-1 rounded-lg hover:bg-parchment"
+                        >
+                          Redo
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+            {days.length > dayCount && (
+              <button
+                onClick={() => setDayCount((count) => count + DAYS_PER_PAGE)}
+                className="w-full py-2 text-sm text-bark/50 hover:text-bark"
+              >
+                Show older
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO, subDays } from 'date-fns';
+import { useTaskStore } from '../stores/useTaskStore';
+import { useChildStore } from '../stores/useChildStore';
+import { useDayTierStore } from '../stores/useDayTierStore';
+import { useInsights, INSIGHT_WEEKS } from '../hooks/useInsights';
+import { median } from '../utils/insights';
+import { minutesToTime } from '../utils/scheduling';
+import type { AvailabilityState, DayTier, TaskCategory, WeekTotals } from '../types';
+
+const STATE_COLORS: Record<AvailabilityState, string> = {
+  free: 'bg-sage',
+  quiet: 'bg-lavender',
+  'one-on-one': 'bg-dustyrose',
+  parenting: 'bg-bark/20',
+  unavailable: 'bg-terracotta',
+};
+
+const STATE_LABELS: Record<AvailabilityState, string> = {
+  free: 'Free',
+  quiet: 'Quiet',
+  'one-on-one': 'One-on-one',
+  parenting: 'Parenting',
+  unavailable: 'Unavailable',
+};
+
+const CATEGORY_LABELS: Record<TaskCategory, string> = {
+  'meals': 'Meals',
+  'kids': 'Kids',
+  'kitchen': 'Kitchen',
+  'laundry': 'Laundry',
+  'tidying': 'Tidying',
+  'cleaning': 'Cleaning',
+  'errands': 'Errands',
+  'self-care': 'Self-care',
+  'focus-work': 'Focus work',
+  'other': 'Other',
+};
+
+const DAY_TIER_COLORS: Record<DayTier, string> = {
+  'good-enough': 'bg-sage',
+  'great': 'bg-dustyrose',
+  'epic': 'bg-clay',
+};
+
+const DAY_TIER_LABELS: Record<DayTier, string> = {
+  'good-enough': 'Good Enough',
+  'great': 'Great',
+  'epic': 'Epic',
+};
+
+// The time-of-day strips cover 5am to midnight
+const DAY_START = 5 * 60;
+const DAY_END = 24 * 60;
+
+function formatClock(minutes: number): string {
+  return format(parseISO(`2000-01-01T${minutesToTime(minutes)}`), 'h:mm a');
+}
+
+function Section({ title, hint, children }: { title: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <section className="mb-6">
+      <h2 className="text-xs font-medium text-bark/50 uppercase tracking-wide mb-1">{title}</h2>
+      {hint && <p className="text-xs text-bark/40 mb-2">{hint}</p>}
+      <div className="bg-parchment/50 rounded-xl p-3">{children}</div>
+    </section>
+  );
+}
+
+/** One column per week; `value` picks what each bar shows */
+function WeekBars({ weeks, value, max, color, label }: {
+  weeks: WeekTotals[];
+  value: (week: WeekTotals) => number;
+  max: number;
+  color: string;
+  label: (week: WeekTotals) => string;
+}) {
+  return (
+    <div className="flex items-end gap-1.5 h-28">
+      {weeks.map((week) => {
+        const height = max > 0 ? Math.round((value(week) / max) * 100) : 0;
+        return (
+          <div key={week.weekStart} className="flex-1 flex flex-col items-center justify-end h-full">
+            <span className="text-[10px] text-bark/50 mb-0.5">{label(week)}</span>
+            <div className={`w-full rounded-t ${color}`} style={{ height: `${Math.max(height, 2)}%` }} />
+            <span className="text-[10px] text-bark/30 mt-1">{format(parseISO(week.weekStart), 'M/d')}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Longer-range trends: weekly completion, routine streaks, when things get
+ * done, pickup timing, and coins and flowers earned
+ */
+export function Insights() {
+  const navigate = useNavigate();
+  const { weekly, streaks, byState, timesByCategory, pickups } = useInsights();
+  const tasks = useTaskStore((state) => state.tasks);
+  const getChild = useChildStore((state) => state.getChild);
+  const tierHistory = useDayTierStore((state) => state.history);
+
+  const getTaskTitle = (id: string) => tasks.find((t) => t.id === id)?.title;
+  const rate = (week: WeekTotals) => (week.total > 0 ? Math.round((week.completed / week.total) * 100) : 0);
+  const maxCoins = Math.max(...weekly.map((w) => w.coins));
+  const maxFlowers = Math.max(...weekly.map((w) => w.flowers));
+  const totalByState = Object.values(byState).reduce((sum, n) => sum + n, 0);
+  const categories = (Object.entries(timesByCategory) as [TaskCategory, number[]][])
+    .sort(([, a], [, b]) => b.length - a.length);
+  const tierDays = Array.from({ length: INSIGHT_WEEKS * 7 }, (_, i) =>
+    format(subDays(new Date(), INSIGHT_WEEKS * 7 - 1 - i), 'yyyy-MM-dd')
+  );
+
+  return (
+    <div className="min-h-screen bg-cream">
+      <div className="max-w-lg mx-auto p-4 pb-24">
+        <header className="mb-6">
+          <button
+            onClick={() => navigate(-1)}
+            className="text-sm text-bark/50 hover:text-bark mb-2 flex items-center gap-1"
+          >
+            ← Back
+          </button>
+          <h1 className="font-display text-2xl text-bark">Insights</h1>
+          <p className="text-bark/60 text-sm">The last {INSIGHT_WEEKS} weeks</p>
+        </header>
+
+        <Section title="Completion rate" hint="Share of tasks done each week">
+          <WeekBars weeks={weekly} value={rate} max={100} color="bg-sage" label={(w) => (w.total > 0 ? `${rate(w)}%` : '')} />
+        </Section>
+
+        <Section title="Day tiers" hint="The best tier reached each day, oldest first">
+          <div className="grid grid-cols-7 gap-1">
+            {tierDays.map((date) => {
+              const tier = tierHistory[date];
+              return (
+                <div
+                  key={date}
+                  title={`${format(parseISO(date), 'EEE MMM d')}${tier ? ` · ${DAY_TIER_LABELS[tier]}` : ''}`}
+                  className={`h-4 rounded ${tier ? DAY_TIER_COLORS[tier] : 'bg-bark/5'}`}
+                />
+              );
+            })}
+          </div>
+          <div className="flex gap-3 mt-2">
+            {(Object.keys(DAY_TIER_LABELS) as DayTier[]).map((tier) => (
+              <span key={tier} className="flex items-center gap-1 text-[10px] text-bark/50">
+                <span className={`w-2 h-2 rounded-sm ${DAY_TIER_COLORS[tier]}`} />
+                {DAY_TIER_LABELS[tier]} · {tierDays.filter((d) => tierHistory[d] === tier).length}
+              </span>
+            ))}
+          </div>
+        </Section>
+
+        <Section title="Routine streaks">
+          {streaks.length === 0 ? (
+            <p className="text-sm text-bark/50">No routine streaks yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {streaks.map((streak) => (
+                <div key={streak.taskId} className="flex items-center gap-3">
+                  <span className="text-sm text-bark/70 flex-1 truncate">{getTaskTitle(streak.taskId)}</span>
+                  <span className="text-sm text-bark font-medium">
+                    {streak.current} day{streak.current === 1 ? '' : 's'}
+                  </span>
+                  <span className="text-xs text-bark/40 w-16 text-right">best {streak.best}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </Section>
+
+        <Section title="When things get done" hint="Completions by the kind of window they happened in">
+          {totalByState === 0 ? (
+            <p className="text-sm text-bark/50">Nothing completed yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {(Object.keys(STATE_LABELS) as AvailabilityState[])
+                .filter((state) => byState[state] > 0)
+                .map((state) => (
+                  <div key={state} className="flex items-center gap-3">
+                    <span className="text-sm text-bark/70 w-24 flex-shrink-0">{STATE_LABELS[state]}</span>
+                    <div className="flex-1 h-2 bg-bark/5 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${STATE_COLORS[state]}`}
+                        style={{ width: `${Math.round((byState[state] / totalByState) * 100)}%` }}
+                      />
+                    </div>
+                    <span className="text-xs text-bark/40 w-10 text-right">{byState[state]}</span>
+                  </div>
+                ))}
+            </div>
+          )}
+        </Section>
+
+        {categories.length > 0 && (
+          <Section title="Time of day" hint="When each kind of task usually gets done">
+            <div className="space-y-3">
+              {categories.map(([category, times]) => {
+                const typical = median(times)!;
+                const position = (minutes: number) =>
+                  `${Math.min(100, Math.max(0, ((minutes - DAY_START) / (DAY_END - DAY_START)) * 100))}%`;
+                return (
+                  <div key={category}>
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-sm text-bark/70">{CATEGORY_LABELS[category]}</span>
+                      <span className="text-xs text-bark/40">usually ~{formatClock(typical)}</span>
+                    </div>
+                    <div className="relative h-3 bg-bark/5 rounded-full">
+                      {times.map((minutes, i) => (
+                        <span
+                          key={i}
+                          className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-1.5 h-1.5 rounded-full bg-sage/40"
+                          style={{ left: position(minutes) }}
+                        />
+                      ))}
+                      <span
+                        className="absolute top-0 bottom-0 w-0.5 bg-bark/60 -translate-x-1/2"
+                        style={{ left: position(typical) }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+              <div className="flex justify-between text-[10px] text-bark/30">
+                <span>5am</span>
+                <span>noon</span>
+                <span>6pm</span>
+                <span>midnight</span>
+              </div>
+            </div>
+          </Section>
+        )}
+
+        {pickups.length > 0 && (
+          <Section title="Pickups" hint="Coming home versus the scheduled end plus travel">
+            <div className="space-y-2">
+              {pickups.map((pickup) => {
+                const total = pickup.onTime + pickup.late;
+                const averageLate = pickup.lateMinutes.length > 0
+                  ? Math.round(pickup.lateMinutes.reduce((sum, m) => sum + m, 0) / pickup.lateMinutes.length)
+                  : 0;
+                return (
+                  <div key={`${pickup.childId}:${pickup.blockName}`}>
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-sm text-bark/70">
+                        {getChild(pickup.childId)?.name} · {pickup.blockName}
+                      </span>
+                      <span className="text-xs text-bark/40">
+                        {pickup.late} of {total} late{pickup.late > 0 ? ` (avg ${averageLate} min)` : ''}
+                      </span>
+                    </div>
+                    <div className="flex h-2 rounded-full overflow-hidden bg-bark/5">
+                      <div className="bg-sage" style={{ width: `${(pickup.onTime / total) * 100}%` }} />
+                      <div className="bg-terracotta" style={{ width: `${(pickup.late / total) * 100}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </Section>
+        )}
+
+        <Section title="Coins earned">
+          <WeekBars weeks={weekly} value={(w) => w.coins} max={maxCoins} color="bg-clay" label={(w) => (w.coins > 0 ? `${w.coins}` : '')} />
+        </Section>
+
+        <Section title="Flowers earned">
+          <WeekBars weeks={weekly} value={(w) => w.flowers} max={maxFlowers} color="bg-dustyrose" label={(w) => (w.flowers > 0 ? `${w.flowers}` : '')} />
+        </Section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { addDays, addWeeks, format, parseISO, startOfWeek } from 'date-fns';
+import { useMealStore } from '../stores/useMealStore';
+import { useGroceryStore } from '../stores/useGroceryStore';
+import { usePantryStore } from '../stores/usePantryStore';
+import { ingredientKey, parseIngredient } from '../utils/groceries';
+import { RecipeEditor } from '../components/meals/RecipeEditor';
+import type { MealType, Recipe } from '../types';
+
+const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+const MEAL_LABELS: Record<MealType, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snack',
+};
+
+/**
+ * One slot in the week grid: drop a recipe on it, tap it with a recipe
+ * selected, or tap it to type something in
+ */
+function MealSlot({ date, mealType, selectedRecipeId, onPlanned }: {
+  date: string;
+  mealType: MealType;
+  selectedRecipeId: string | null;
+  onPlanned: () => void;
+}) {
+  const meal = useMealStore((s) => s.mealPlan[date]?.[mealType]);
+  const setPlannedMeal = useMealStore((s) => s.setPlannedMeal);
+  const planRecipe = useMealStore((s) => s.planRecipe);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [dragOver, setDragOver] = useState(false);
+
+  const handleTap = () => {
+    if (selectedRecipeId) {
+      planRecipe(date, mealType, selectedRecipeId);
+      onPlanned();
+      return;
+    }
+    setDraft(meal?.title ?? '');
+    setEditing(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    const recipeId = e.dataTransfer.getData('text/plain');
+    if (recipeId) planRecipe(date, mealType, recipeId);
+  };
+
+  if (editing) {
+    return (
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => {
+          if (draft !== (meal?.title ?? '')) setPlannedMeal(date, mealType, { title: draft, recipeId: null });
+          setEditing(false);
+        }}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        autoFocus
+        className="w-full h-12 px-1.5 rounded-lg border border-sage bg-cream text-[11px] focus:outline-none"
+      />
+    );
+  }
+
+  return (
+    <div
+      onClick={handleTap}
+      onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={handleDrop}
+      className={`relative h-12 rounded-lg px-1.5 py-1 text-[11px] leading-tight cursor-pointer transition-colors ${
+        dragOver || (selectedRecipeId && !meal)
+          ? 'bg-sage/15 border border-dashed border-sage'
+          : meal
+            ? meal.recipeId ? 'bg-sage/10 text-bark' : 'bg-cream text-bark'
+            : 'bg-bark/5 text-bark/30 hover:bg-bark/10'
+      }`}
+    >
+      {meal ? (
+        <>
+          <span className="line-clamp-2 pr-3">{meal.title}</span>
+          <button
+            onClick={(e) => { e.stopPropagation(); setPlannedMeal(date, mealType, null); }}
+            className="absolute top-0.5 right-1 text-bark/30 hover:text-terracotta"
+            title="Clear"
+          >
+            ×
+          </button>
+        </>
+      ) : (
+        <span className="flex items-center justify-center h-full">+</span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A week of breakfasts, lunches, dinners and snacks, planned from a small
+ * recipe library
+ */
+export function MealPlanner() {
+  const navigate = useNavigate();
+  const recipes = useMealStore((s) => s.recipes);
+  const repeatPreviousWeek = useMealStore((s) => s.repeatPreviousWeek);
+  const finishMealPlan = useGroceryStore((s) => s.finishMealPlan);
+  const pantryItems = usePantryStore((s) => s.items);
+  const getExpiring = usePantryStore((s) => s.getExpiring);
+  const [weekStart, setWeekStart] = useState(() => format(startOfWeek(new Date()), 'yyyy-MM-dd'));
+  const [selectedRecipeId, setSelectedRecipeId] = useState<string | null>(null);
+  const [editingRecipe, setEditingRecipe] = useState<Recipe | 'new' | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const days = Array.from({ length: 7 }, (_, i) => format(addDays(parseISO(weekStart), i), 'yyyy-MM-dd'));
+  const shiftWeek = (weeks: number) => setWeekStart(format(addWeeks(parseISO(weekStart), weeks), 'yyyy-MM-dd'));
+
+  // Shop for what's still ahead in the week on screen
+  const handleDone = () => {
+    finishMealPlan(days.filter((date) => date >= today));
+    navigate('/groceries');
+  };
+
+  // Things about to go off, with the recipes that would use them up
+  const useUp = pantryItems.length === 0 ? [] : getExpiring(today).map((item) => {
+    const key = ingredientKey(item.name, null);
+    return {
+      item,
+      recipes: recipes.filter((r) =>
+        r.ingredients.some((line) => ingredientKey(parseIngredient(line).name, null) === key)
+      ),
+    };
+  });
+
+  const allTags = [...new Set(recipes.flatMap((r) => r.tags))].sort();
+  const shownRecipes = recipes
+    .filter((r) => !tagFilter || r.tags.includes(tagFilter))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  return (
+    <div className="min-h-screen bg-cream">
+      <div className="max-w-lg mx-auto p-4 pb-24">
+        <header className="mb-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="text-sm text-bark/50 hover:text-bark mb-2 flex items-center gap-1"
+          >
+            ← Back
+          </button>
+          <h1 className="font-display text-2xl text-bark">Meal Planner</h1>
+          <div className="flex items-center justify-between mt-1">
+            <div className="flex items-center gap-2">
+              <button onClick={() => shiftWeek(-1)} className="text-bark/40 hover:text-bark px-1">‹</button>
+              <span className="text-bark/60 text-sm">
+                {format(parseISO(days[0]), 'MMM d')} – {format(parseISO(days[6]), 'MMM d')}
+              </span>
+              <button onClick={() => shiftWeek(1)} className="text-bark/40 hover:text-bark px-1">›</button>
+            </div>
+            <button
+              onClick={() => repeatPreviousWeek(weekStart)}
+              className="text-xs text-sage hover:text-sage/80 font-medium"
+            >
+              Repeat last week
+            </button>
+          </div>
+        </header>
+
+        {/* Week grid */}
+        <div className="bg-parchment/50 rounded-xl p-2 mb-6">
+          <div className="grid grid-cols-[2.5rem_repeat(4,1fr)] gap-1 mb-1">
+            <span />
+            {MEAL_TYPES.map((mealType) => (
+              <span key={mealType} className="text-[10px] text-bark/50 uppercase tracking-wide text-center">
+                {MEAL_LABELS[mealType]}
+              </span>
+            ))}
+          </div>
+          <div className="space-y-1">
+            {days.map((date) => (
+              <div key={date} className="grid grid-cols-[2.5rem_repeat(4,1fr)] gap-1 items-center">
+                <div className={`text-center ${date === today ? 'text-sage font-semibold' : 'text-bark/60'}`}>
+                  <p className="text-[11px]">{format(parseISO(date), 'EEE')}</p>
+                  <p className="text-[10px] text-bark/40">{format(parseISO(date), 'd')}</p>
+                </div>
+                {MEAL_TYPES.map((mealType) => (
+                  <MealSlot
+                    key={mealType}
+                    date={date}
+                    mealType={mealType}
+                    selectedRecipeId={selectedRecipeId}
+                    onPlanned={() => setSelectedRecipeId(null)}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {days[6] >= today && (
+          <button
+            onClick={handleDone}
+            className="w-full mb-6 py-2.5 rounded-xl text-sm font-medium text-cream bg-sage hover:bg-sage/90 transition-colors"
+          >
+            Done planning — make the grocery list
+          </button>
+        )}
+
+        {useUp.length > 0 && (
+          <section className="mb-6">
+            <h2 className="text-xs font-medium text-bark/50 uppercase tracking-wide mb-2">Use up soon</h2>
+            <div className="bg-parchment/50 rounded-xl p-3 space-y-2">
+              {useUp.map(({ item, recipes: matches }) => (
+                <div key={item.id} className="text-sm">
+                  <p className="text-bark">Use up the {item.name.toLowerCase()}</p>
+                  {matches.length > 0 ? (
+                    <div className="flex flex-wrap gap-1.5 mt-1">
+                      {matches.map((recipe) => (
+                        <button
+                          key={recipe.id}
+                          onClick={() => setSelectedRecipeId(recipe.id)}
+                          className={`px-2.5 py-1 rounded-full text-xs ${
+                            selectedRecipeId === recipe.id ? 'bg-sage text-cream' : 'bg-sage/10 text-sage'
+                          }`}
+                        >
+                          {recipe.title}
+                        </button>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-bark/40">No recipe uses it yet</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Recipe library */}
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-xs font-medium text-bark/50 uppercase tracking-wide">Recipes</h2>
+            <button
+              onClick={() => setEditingRecipe('new')}
+              className="text-xs text-sage hover:text-sage/80 font-medium"
+            >
+              + New recipe
+            </button>
+          </div>
+
+          {recipes.length === 0 ? (
+            <p className="text-sm text-bark/50 bg-parchment/50 rounded-xl p-4">
+              Add the meals you make often, then drag them onto the week.
+            </p>
+          ) : (
+            <>
+              <p className="text-xs text-bark/40 mb-2">
+                {selectedRecipeId ? 'Now tap a slot to plan it.' : 'Drag a recipe onto a slot, or tap one and then a slot.'}
+              </p>
+              {allTags.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mb-3">
+                  {allTags.map((tag) => (
+                    <button
+                      key={tag}
+                      onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                      className={`px-2.5 py-1 rounded-full text-xs ${
+                        tagFilter === tag ? 'bg-sage text-cream' : 'bg-bark/5 text-bark/60'
+                      }`}
+                    >
+                      {tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="space-y-2">
+                {shownRecipes.map((recipe) => (
+                  <div
+                    key={recipe.id}
+                    draggable
+                    onDragStart={(e) => e.dataTransfer.setData('text/plain', recipe.id)}
+                    onClick={() => setSelectedRecipeId(selectedRecipeId === recipe.id ? null : recipe.id)}
+                    className={`bg-parchment rounded-xl p-3 cursor-grab ${
+                      selectedRecipeId === recipe.id ? 'ring-2 ring-sage' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-sm font-medium text-bark truncate">{recipe.title}</span>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); setEditingRecipe(recipe); }}
+                        className="text-xs text-bark/40 hover:text-bark flex-shrink-0"
+                      >
+                        Edit
+                      </button>
+                    </div>
+                    <p className="text-xs text-bark/40 mt-0.5">
+                      {[
+                        recipe.prepMinutes ? `${recipe.prepMinutes} min` : null,
+                        `${recipe.ingredients.length} ingredient${recipe.ingredients.length === 1 ? '' : 's'}`,
+                        recipe.prepSteps?.length ? `${recipe.prepSteps.length} prep step${recipe.prepSteps.length === 1 ? '' : 's'}` : null,
+                        ...recipe.tags,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </section>
+      </div>
+
+      {editingRecipe && (
+        <RecipeEditor
+          recipe={editingRecipe === 'new' ? null : editingRecipe}
+          onClose={() => setEditingRecipe(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { useCareBlockStore } from '../../stores/useCareBlockStore';
 import { useGardenStore } from '../../stores/useGardenStore';
 import { useAwayStore } from '../../stores/useAwayStore';
 import { markAsInstalled } from '../../utils/storageHelpers';
+import { describeSleepTemplate } from '../../utils/sleepTemplates';
 import type { TaskTier, TaskCategory, RecurrenceRule, AvailabilityState } from '../../types';
 
 // ============================================
@@ -19,6 +20,7 @@ interface OnboardingChild {
   birthdate: string;
   bedtime: string;
   wakeTime: string;
+  addSleepBlocks: boolean;  // age-based naps + night sleep as care blocks
 }
 
 interface OnboardingChildcare {
@@ -337,12 +339,14 @@ function ChildcareStep({
   children,
   childcare,
   onChange,
+  onChildrenChange,
   onNext,
   onBack,
 }: {
   children: OnboardingChild[];
   childcare: OnboardingChildcare[];
   onChange: (childcare: OnboardingChildcare[]) => void;
+  onChildrenChange: (children: OnboardingChild[]) => void;
   onNext: () => void;
   onBack: () => void;
 }) {
@@ -391,10 +395,25 @@ function ChildcareStep({
 
       {children.map((child) => {
         const childSchedules = getChildcareForChild(child.id);
+        const sleepTemplate = child.birthdate ? describeSleepTemplate(child.birthdate, new Date()) : null;
         return (
           <div key={child.id} className="mb-6">
             <h3 className="font-medium text-bark mb-3">{child.name}</h3>
 
+            {sleepTemplate && (
+              <label className="flex items-center gap-2 text-sm text-bark/70 mb-3">
+                <input
+                  type="checkbox"
+                  checked={child.addSleepBlocks}
+                  onChange={(e) => onChildrenChange(children.map((c) =>
+                    c.id === child.id ? { ...c, addSleepBlocks: e.target.checked } : c
+                  ))}
+                  className="rounded border-bark/20"
+                />
+                <span>😴 Add sleep blocks ({sleepTemplate})</span>
+              </label>
+            )}
+
             {childSchedules.length === 0 ? (
               <div className="bg-parchment rounded-xl p-4">
                 <p className="text-sm text-bark/60 mb-3">Add regular care for {child.name}:</p>
@@ -1012,6 +1031,7 @@ export function Onboarding({ onComplete }: OnboardingProps) {
   const addTask = useTaskStore((state) => state.addTask);
   const clearTasks = useTaskStore((state) => state.clearTasks);
   const addCareBlock = useCareBlockStore((state) => state.addBlock);
+  const addSleepTemplate = useCareBlockStore((state) => state.addSleepTemplate);
   const clearCareBlocks = useCareBlockStore((state) => state.clearBlocks);
   const clearGardenState = useGardenStore((state) => state.clearGardenState);
   const clearAwayLogs = useAwayStore((state) => state.clearAwayLogs);
@@ -1019,7 +1039,7 @@ export function Onboarding({ onComplete }: OnboardingProps) {
   const [step, setStep] = useState<Step>('welcome');
   const [editingChildId, setEditingChildId] = useState<string | null>(null);
   const [data, setData] = useState<OnboardingData>({
-    children: [{ id: uuidv4(), name: '', birthdate: '', bedtime: '19:30', wakeTime: '07:00' }],
+    children: [{ id: uuidv4(), name: '', birthdate: '', bedtime: '19:30', wakeTime: '07:00', addSleepBlocks: true }],
     childcare: [],
     fixedSchedule: PRESET_FIXED_SCHEDULE.map((t) => ({ ...t, id: uuidv4(), selected: false })),
     routines: PRESET_ROUTINES.map((t) => ({ ...t, id: uuidv4(), selected: false })),
@@ -1041,7 +1061,7 @@ export function Onboarding({ onComplete }: OnboardingProps) {
   };
 
   const handleAddAnother = () => {
-    const newChild = { id: uuidv4(), name: '', birthdate: '', bedtime: '19:30', wakeTime: '07:00' };
+    const newChild = { id: uuidv4(), name: '', birthdate: '', bedtime: '19:30', wakeTime: '07:00', addSleepBlocks: true };
     setData({
       ...data,
       children: [...data.children, newChild],
@@ -1116,6 +1136,14 @@ export function Onboarding({ onComplete }: OnboardingProps) {
       }
     });
 
+    // Default sleep blocks from each child's age
+    data.children.forEach((child) => {
+      const newChildId = childIdMap.get(child.id);
+      if (newChildId && child.birthdate && child.addSleepBlocks) {
+        addSleepTemplate(newChildId);
+      }
+    });
+
     // Save childcare as CareBlocks and create dropoff/pickup tasks
     data.childcare.forEach((care) => {
       const newChildId = childIdMap.get(care.childId);
@@ -1221,6 +1249,7 @@ export function Onboarding({ onComplete }: OnboardingProps) {
             children={data.children}
             childcare={data.childcare}
             onChange={(childcare) => setData({ ...data, childcare })}
+            onChildrenChange={(children) => setData({ ...data, children })}
             onNext={goNext}
             onBack={goBack}
           />
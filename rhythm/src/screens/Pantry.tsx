@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { usePantryStore, guessLocation, EXPIRING_WITHIN_DAYS } from '../stores/usePantryStore';
+import { parseIngredient, formatQuantity } from '../utils/groceries';
+import type { PantryItem, PantryLocation } from '../types';
+
+const LOCATION_LABELS: Record<PantryLocation, string> = {
+  pantry: 'Pantry',
+  fridge: 'Fridge',
+  freezer: 'Freezer',
+};
+
+function describeBestBy(bestBy: string, today: string): string {
+  const days = differenceInCalendarDays(parseISO(bestBy), parseISO(today));
+  if (days < 0) return 'past best-by';
+  if (days === 0) return 'use today';
+  if (days === 1) return 'use by tomorrow';
+  return `by ${format(parseISO(bestBy), 'MMM d')}`;
+}
+
+/** One item: nudge the count, or open it to set a best-by date and restock level */
+function PantryRow({ item, today }: { item: PantryItem; today: string }) {
+  const updateItem = usePantryStore((s) => s.updateItem);
+  const removeItem = usePantryStore((s) => s.removeItem);
+  const [expanded, setExpanded] = useState(false);
+
+  const soon = item.bestBy !== null && differenceInCalendarDays(parseISO(item.bestBy), parseISO(today)) <= EXPIRING_WITHIN_DAYS;
+  const low = item.restockAt !== null && item.quantity !== null && item.quantity <= item.restockAt;
+  const step = (amount: number) => {
+    if (item.quantity === null) return;
+    updateItem(item.id, { quantity: Math.max(0, item.quantity + amount) });
+  };
+
+  return (
+    <div className="px-3 py-2.5">
+      <div className="flex items-center gap-3">
+        <button onClick={() => setExpanded(!expanded)} className="flex-1 min-w-0 text-left">
+          <p className="text-sm text-bark truncate">{item.name}</p>
+          <p className="text-xs text-bark/40">
+            {[
+              item.quantity === null ? 'some' : [formatQuantity(item.quantity), item.unit].filter(Boolean).join(' '),
+              item.restockAt !== null ? 'staple' : null,
+            ].filter(Boolean).join(' · ')}
+            {item.bestBy && (
+              <span className={soon ? 'text-terracotta' : ''}> · {describeBestBy(item.bestBy, today)}</span>
+            )}
+            {low && <span className="text-terracotta"> · running low</span>}
+          </p>
+        </button>
+        {item.quantity !== null && (
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <button onClick={() => step(-1)} className="w-7 h-7 rounded-full bg-bark/5 text-bark/60 hover:bg-bark/10">−</button>
+            <button onClick={() => step(1)} className="w-7 h-7 rounded-full bg-bark/5 text-bark/60 hover:bg-bark/10">+</button>
+          </div>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-2 space-y-2 text-xs">
+          <div className="flex items-center gap-2">
+            <label className="text-bark/50 w-16">Best by</label>
+            <input
+              type="date"
+              value={item.bestBy ?? ''}
+              onChange={(e) => updateItem(item.id, { bestBy: e.target.value || null })}
+              className="px-2 py-1 rounded-lg border border-bark/20 bg-cream focus:outline-none focus:border-sage"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-bark/50 w-16">Where</label>
+            {(Object.keys(LOCATION_LABELS) as PantryLocation[]).map((location) => (
+              <button
+                key={location}
+                onClick={() => updateItem(item.id, { location })}
+                className={`px-2.5 py-1 rounded-full ${
+                  item.location === location ? 'bg-sage text-cream' : 'bg-bark/5 text-bark/60'
+                }`}
+              >
+                {LOCATION_LABELS[location]}
+              </button>
+            ))}
+          </div>
+          {item.quantity !== null && (
+            <div className="flex items-center gap-2">
+              <label className="text-bark/50 w-16">Restock at</label>
+              <input
+                type="number"
+                min={0}
+                value={item.restockAt ?? ''}
+                onChange={(e) => updateItem(item.id, { restockAt: e.target.value === '' ? null : Number(e.target.value) })}
+                placeholder="—"
+                className="w-16 px-2 py-1 rounded-lg border border-bark/20 bg-cream focus:outline-none focus:border-sage"
+              />
+              <span className="text-bark/40">a staple goes back on the list at this count</span>
+            </div>
+          )}
+          <button
+            onClick={() => removeItem(item.id)}
+            className="text-terracotta hover:text-terracotta/80"
+          >
+            Remove
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * What's in the cupboards and freezer. Cooking planned meals uses it up,
+ * ticking off groceries restocks it
+ */
+export function Pantry() {
+  const navigate = useNavigate();
+  const items = usePantryStore((s) => s.items);
+  const addItem = usePantryStore((s) => s.addItem);
+  const [newItem, setNewItem] = useState('');
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  // "2 lb chicken" → 2 lb of chicken, in the fridge
+  const handleAdd = () => {
+    const { name, quantity, unit } = parseIngredient(newItem);
+    if (!name) return;
+    addItem({ name, quantity: quantity ?? 1, unit, location: guessLocation(name), bestBy: null, restockAt: null });
+    setNewItem('');
+  };
+
+  const locations = (Object.keys(LOCATION_LABELS) as PantryLocation[])
+    .map((location) => ({
+      location,
+      items: items
+        .filter((i) => i.location === location)
+        .sort((a, b) => (a.bestBy ?? '9999').localeCompare(b.bestBy ?? '9999') || a.name.localeCompare(b.name)),
+    }))
+    .filter(({ items: locationItems }) => locationItems.length > 0);
+
+  return (
+    <div className="min-h-screen bg-cream">
+      <div className="max-w-lg mx-auto p-4 pb-24">
+        <header className="mb-6">
+          <button
+            onClick={() => navigate(-1)}
+            className="text-sm text-bark/50 hover:text-bark mb-2 flex items-center gap-1"
+          >
+            ← Back
+          </button>
+          <h1 className="font-display text-2xl text-bark">Pantry & Freezer</h1>
+          <p className="text-bark/60 text-sm">Tap an item to set a best-by date or make it a staple</p>
+        </header>
+
+        <div className="flex gap-2 mb-6">
+          <input
+            type="text"
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="2 lb chicken, 3 cans beans…"
+            className="flex-1 px-3 py-2 rounded-lg border border-bark/20 bg-parchment focus:outline-none focus:border-sage text-sm"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!newItem.trim()}
+            className="px-3 py-2 rounded-lg bg-sage text-cream text-sm hover:bg-sage/90 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+
+        {locations.length === 0 ? (
+          <p className="text-sm text-bark/50 bg-parchment/50 rounded-xl p-4">
+            Nothing stocked yet. Add what you have, or tick off groceries to fill it up.
+          </p>
+        ) : (
+          <div className="space-y-5">
+            {locations.map(({ location, items: locationItems }) => (
+              <section key={location}>
+                <h2 className="text-xs font-medium text-bark/50 uppercase tracking-wide mb-2">{LOCATION_LABELS[location]}</h2>
+                <div className="bg-parchment/50 rounded-xl divide-y divide-bark/5">
+                  {locationItems.map((item) => (
+                    <PantryRow key={item.id} item={item} today={today} />
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,13 @@ import { useCareBlockStore } from '../stores/useCareBlockStore';
 import { useTaskStore, getTaskDisplayTitle } from '../stores/useTaskStore';
 import { useResetAppData } from '../hooks/useResetAppData';
 import { useSettingsStore } from '../stores/useSettingsStore';
-import type { ChildColor, CareStatus, CareBlockType, RecurrenceRule } from '../types';
+import { CareBlockExceptions } from '../components/care/CareBlockExceptions';
+import { HolidayClosures } from '../components/care/HolidayClosures';
+import { DayTierCriteriaEditor } from '../components/settings/DayTierCriteriaEditor';
+import { BackupRestore } from '../components/settings/BackupRestore';
+import type { ChildColor, CareStatus, CareBlockType, RecurrenceRule, SeasonOfLife } from '../types';
+import { spansMidnight } from '../utils/scheduling';
+import { describeSleepTemplate } from '../utils/sleepTemplates';
 
 const COLOR_OPTIONS: { value: ChildColor; label: string; bgClass: string; borderClass: string }[] = [
   { value: 'lavender', label: 'Lavender', bgClass: 'bg-lavender', borderClass: 'border-lavender' },
@@ -40,6 +46,12 @@ const RECURRENCE_OPTIONS: { value: 'one-off' | RecurrenceRule; label: string }[]
   { value: 'weekly', label: 'Weekly' },
 ];
 
+const SEASON_OF_LIFE_OPTIONS: { value: SeasonOfLife; label: string }[] = [
+  { value: 'survival', label: 'Survival' },
+  { value: 'finding-footing', label: 'Finding footing' },
+  { value: 'steady-rhythm', label: 'Steady rhythm' },
+];
+
 export function Settings() {
   const navigate = useNavigate();
   const children = useChildStore((state) => state.children);
@@ -54,6 +66,7 @@ export function Settings() {
   const addCareBlock = useCareBlockStore((state) => state.addBlock);
   const updateCareBlock = useCareBlockStore((state) => state.updateBlock);
   const removeCareBlock = useCareBlockStore((state) => state.removeBlock);
+  const addSleepTemplate = useCareBlockStore((state) => state.addSleepTemplate);
   const getLeaveByTime = useCareBlockStore((state) => state.getLeaveByTime);
   const tasks = useTaskStore((state) => state.tasks);
   const ensureChildcareTasksExist = useTaskStore((state) => state.ensureChildcareTasksExist);
@@ -62,6 +75,8 @@ export function Settings() {
   // Garden settings
   const witherModeEnabled = useSettingsStore(s => s.witherModeEnabled);
   const setWitherMode = useSettingsStore(s => s.setWitherMode);
+  const seasonOfLife = useSettingsStore(s => s.seasonOfLife);
+  const setSeasonOfLife = useSettingsStore(s => s.setSeasonOfLife);
 
   // Get linked tasks for a child
   const getLinkedTasks = (childId: string) => {
@@ -182,6 +197,92 @@ export function Settings() {
         </div>
       </section>
 
+      {/* History Section */}
+      <section className="mb-8">
+        <h2 className="font-display text-lg text-bark mb-4">History</h2>
+        <div className="bg-parchment rounded-xl p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-bark">Activity log</p>
+              <p className="text-xs text-bark/50 mt-0.5">Look back day by day, undo recent actions</p>
+            </div>
+            <button
+              onClick={() => navigate('/history')}
+              className="px-4 py-2 bg-bark text-cream text-sm font-semibold rounded-xl hover:bg-bark/90 active:scale-95 transition-all duration-150"
+            >
+              View
+            </button>
+          </div>
+          <div className="flex items-center justify-between mt-4 pt-4 border-t border-bark/10">
+            <div>
+              <p className="text-sm font-semibold text-bark">Weekly review</p>
+              <p className="text-xs text-bark/50 mt-0.5">What got done, and what to keep or drop</p>
+            </div>
+            <button
+              onClick={() => navigate('/review')}
+              className="px-4 py-2 bg-bark text-cream text-sm font-semibold rounded-xl hover:bg-bark/90 active:scale-95 transition-all duration-150"
+            >
+              Review
+            </button>
+          </div>
+          <div className="flex items-center justify-between mt-4 pt-4 border-t border-bark/10">
+            <div>
+              <p className="text-sm font-semibold text-bark">Insights</p>
+              <p className="text-xs text-bark/50 mt-0.5">Trends over the last few weeks</p>
+            </div>
+            <button
+              onClick={() => navigate('/insights')}
+              className="px-4 py-2 bg-bark text-cream text-sm font-semibold rounded-xl hover:bg-bark/90 active:scale-95 transition-all duration-150"
+            >
+              View
+            </button>
+          </div>
+        </div>
+      </section>
+
+      {/* Meals Section */}
+      <section className="mb-8">
+        <h2 className="font-display text-lg text-bark mb-4">Meals</h2>
+        <div className="bg-parchment rounded-xl p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-bark">Meal planner</p>
+              <p className="text-xs text-bark/50 mt-0.5">Plan the week from your recipes</p>
+            </div>
+            <button
+              onClick={() => navigate('/meals')}
+              className="px-4 py-2 bg-bark text-cream text-sm font-semibold rounded-xl hover:bg-bark/90 active:scale-95 transition-all duration-150"
+            >
+              Plan
+            </button>
+          </div>
+          <div className="flex items-center justify-between mt-4 pt-4 border-t border-bark/10">
+            <div>
+              <p className="text-sm font-semibold text-bark">Grocery list</p>
+              <p className="text-xs text-bark/50 mt-0.5">Everything the planned meals need, by aisle</p>
+            </div>
+            <button
+              onClick={() => navigate('/groceries')}
+              className="px-4 py-2 bg-bark text-cream text-sm font-semibold rounded-xl hover:bg-bark/90 active:scale-95 transition-all duration-150"
+            >
+              View
+            </button>
+          </div>
+          <div className="flex items-center justify-between mt-4 pt-4 border-t border-bark/10">
+            <div>
+              <p className="text-sm font-semibold text-bark">Pantry & freezer</p>
+              <p className="text-xs text-bark/50 mt-0.5">What's on hand, and what to use up</p>
+            </div>
+            <button
+              onClick={() => navigate('/pantry')}
+              className="px-4 py-2 bg-bark text-cream text-sm font-semibold rounded-xl hover:bg-bark/90 active:scale-95 transition-all duration-150"
+            >
+              View
+            </button>
+          </div>
+        </div>
+      </section>
+
       {/* Your Schedule Section */}
       <section className="mb-8">
         <h2 className="font-display text-lg text-bark mb-4">Your Schedule</h2>
@@ -209,6 +310,36 @@ export function Settings() {
         </div>
       </section>
 
+      {/* Your Day Section */}
+      <section className="mb-8">
+        <h2 className="font-display text-lg text-bark mb-4">Your Day</h2>
+        <div className="bg-parchment rounded-xl p-4">
+          <p className="text-sm font-semibold text-bark">Season of life</p>
+          <p className="text-xs text-bark/50 mt-0.5 mb-3">Harder seasons ask for less to reach each tier</p>
+          <div className="flex gap-2">
+            {SEASON_OF_LIFE_OPTIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setSeasonOfLife(value)}
+                className={`flex-1 py-2 rounded-lg text-xs font-medium ${
+                  seasonOfLife === value ? 'bg-sage text-cream' : 'bg-cream text-bark/60 hover:text-bark'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-4 pt-4 border-t border-bark/10">
+            <p className="text-sm font-semibold text-bark">Day tiers</p>
+            <p className="text-xs text-bark/50 mt-0.5 mb-3">
+              What makes a Good Enough, Great or Epic day. Each tier also needs everything before it.
+            </p>
+            <DayTierCriteriaEditor />
+          </div>
+        </div>
+      </section>
+
       {/* Children Section */}
       <section className="mb-8">
         <h2 className="font-display text-lg text-bark mb-4">Your Children</h2>
@@ -286,6 +417,23 @@ export function Settings() {
                   </div>
                 </div>
 
+                {/* Age-based sleep template, offered until the child has sleep blocks */}
+                {child.birthdate && describeSleepTemplate(child.birthdate, new Date()) && (
+                  <div className="flex items-center justify-between gap-3 mb-3">
+                    <span className="text-xs text-bark/50">
+                      😴 {describeSleepTemplate(child.birthdate, new Date())}
+                    </span>
+                    {!careBlocks.some((b) => b.blockType === 'sleep' && b.isActive && b.childIds.includes(child.id)) && (
+                      <button
+                        onClick={() => addSleepTemplate(child.id)}
+                        className="text-xs text-sage hover:text-sage/80 flex-shrink-0"
+                      >
+                        + Add sleep blocks
+                      </button>
+                    )}
+                  </div>
+                )}
+
                 {/* Care Status (display only - updated by completing tasks) */}
                 <div className="border-t border-bark/10 pt-3 mt-3">
                   <div className="flex items-center justify-between">
@@ -484,6 +632,9 @@ export function Settings() {
                     />
                   </div>
                 </div>
+                {spansMidnight(block.startTime, block.endTime) && (
+                  <p className="text-xs text-bark/40 -mt-2 mb-3">Ends the next morning</p>
+                )}
 
                 {/* Travel time (optional) */}
                 <div className="border-t border-bark/10 pt-3">
@@ -525,6 +676,9 @@ export function Settings() {
                   )}
                 </div>
 
+                {/* Date exceptions (recurring blocks only) */}
+                {block.recurrence !== 'one-off' && <CareBlockExceptions block={block} />}
+
                 {/* Active toggle */}
                 <div className="border-t border-bark/10 pt-3 mt-3">
                   <label className="flex items-center gap-2 text-sm text-bark/70 cursor-pointer">
@@ -552,6 +706,8 @@ export function Settings() {
         {children.length === 0 && (
           <p className="text-xs text-bark/40 text-center mt-2">Add a child first to create care blocks</p>
         )}
+
+        <HolidayClosures />
       </section>
 
       {/* Habit Blocks Section */}
@@ -581,6 +737,12 @@ export function Settings() {
         </div>
       </section>
 
+      {/* Your Data Section */}
+      <section className="mb-8">
+        <h2 className="font-display text-lg text-bark mb-4">Your Data</h2>
+        <BackupRestore />
+      </section>
+
       <section className="mb-8">
         <h2 className="font-display text-lg text-bark mb-4">Reset</h2>
         <button
@@ -36,7 +36,7 @@ export function Shop() {
   const fountainFrame = useAnimatedFrame(4);
 
   const seasonFlowers = (Object.entries(FLOWER_CATALOG) as [FlowerType, typeof FLOWER_CATALOG[FlowerType]][])
-    .filter(([, info]) => info.season === currentSeason);
+    .filter(([, info]) => info.season === currentSeason && !info.dayTier);
 
   const ownedCount = (type: FlowerType) => flowers.filter((f) => f.type === type).length;
 
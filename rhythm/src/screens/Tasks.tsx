@@ -2,6 +2,8 @@ import { useState, useMemo, useEffect } from 'react';
 import { format, parseISO, isToday, isYesterday } from 'date-fns';
 import { useTaskStore, getTaskDisplayTitle } from '../stores/useTaskStore';
 import { useChildStore } from '../stores/useChildStore';
+import { useRoutineStore, getRoutineSteps } from '../stores/useRoutineStore';
+import { RoutineEditor } from '../components/tasks/RoutineEditor';
 import type { Task, TaskInput, TaskInstance } from '../types';
 
 
@@ -336,6 +338,9 @@ export function Tasks() {
   const [toastMessage, setToastMessage] = useState<string | null>(null);
   const [toastFading, setToastFading] = useState(false);
   const [activeTab, setActiveTab] = useState<'todos' | 'completed'>('todos');
+  const [editingRoutineId, setEditingRoutineId] = useState<string | null>(null);
+  const routines = useRoutineStore((state) => state.routines);
+  const addRoutine = useRoutineStore((state) => state.addRoutine);
 
   useEffect(() => {
     if (!toastMessage) return;
@@ -635,6 +640,54 @@ export function Tasks() {
               )}
             </section>
 
+            {/* Habit stacks */}
+            <section className="mb-3">
+              <button
+                onClick={() => toggleSection('stacks')}
+                className="w-full flex items-center justify-between p-3 rounded-lg bg-sage/5 hover:bg-sage/10 transition-colors"
+              >
+                <h2 className="font-medium text-sage flex items-center gap-2">
+                  <span className="emoji-icon">🧺</span> Habit Stacks
+                  <span className="text-xs text-bark/40 font-normal">({routines.length})</span>
+                </h2>
+                <svg
+                  className={`w-5 h-5 text-bark/40 transition-transform ${expandedSections.has('stacks') ? 'rotate-180' : ''}`}
+                  fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+              {expandedSections.has('stacks') && (
+                <div className="mt-2 space-y-2">
+                  {routines.map((routine) => {
+                    const stepCount = getRoutineSteps(tasks, routine.id).length;
+                    return (
+                      <button
+                        key={routine.id}
+                        onClick={() => setEditingRoutineId(routine.id)}
+                        className={`w-full text-left p-3 rounded-lg border bg-cream border-bark/5 ${routine.isActive ? '' : 'opacity-50'}`}
+                      >
+                        <p className="text-sm font-medium text-bark">{routine.name || 'Untitled stack'}</p>
+                        <p className="text-xs text-bark/40">
+                          {stepCount} step{stepCount === 1 ? '' : 's'}
+                          {routine.preferredTimeBlock && ` · ${routine.preferredTimeBlock}`}
+                        </p>
+                      </button>
+                    );
+                  })}
+                  <button
+                    onClick={() => setEditingRoutineId(addRoutine(
+                      { name: 'New stack', daysOfWeek: null, preferredTimeBlock: null, isActive: true },
+                      []
+                    ))}
+                    className="w-full py-2 rounded-lg text-sm text-sage bg-sage/10 hover:bg-sage/20 transition-colors"
+                  >
+                    + New habit stack
+                  </button>
+                </div>
+              )}
+            </section>
+
             {/* Challenges */}
             <section className="mb-3">
               <button
@@ -714,6 +767,17 @@ export function Tasks() {
         />
       )}
 
+      {/* Habit stack editor */}
+      {editingRoutineId && (
+        <RoutineEditor
+          routineId={editingRoutineId}
+          onClose={() => {
+            setEditingRoutineId(null);
+            generateDailyInstances(new Date());
+          }}
+        />
+      )}
+
       {/* New task modal */}
       {showNewTask && (
         <NewTaskModal
@@ -11,15 +11,25 @@ import { TaskEditor } from '../components/tasks/TaskEditor';
 import { DayOverviewCompact } from '../components/today/DayTimeline';
 import { YourWindow } from '../components/today/YourWindow';
 import { ComingUp } from '../components/today/ComingUp';
+import { DayPlanner } from '../components/today/DayPlanner';
+import { NapControls } from '../components/naps/NapControls';
+import { AwayControls } from '../components/care/AwayControls';
+import { CareTransitionPrompt } from '../components/care/CareTransitionPrompt';
+import { NapTransitionPrompt } from '../components/naps/NapTransitionPrompt';
+import { WeeklyReviewPrompt } from '../components/today/WeeklyReviewPrompt';
 import { TaskCard } from '../components/today/TaskCard';
 import { TaskDetailSheet } from '../components/today/TaskDetailSheet';
 import { GardenPreview } from '../components/today/GardenPreview';
+import { DayTierIndicator } from '../components/today/DayTierIndicator';
 import { RoutineBlock } from '../components/today/RoutineBlock';
 import { useAutoComplete } from '../hooks/useAutoComplete';
 import { useRepeatChallenges } from '../hooks/useRepeatChallenges';
 import { useChallengeProgress } from '../hooks/useChallengeProgress';
 import { useChallengeStore, CHALLENGE_TEMPLATES } from '../stores/useChallengeStore';
 import { useCoinStore } from '../stores/useCoinStore';
+import { useMealStore } from '../stores/useMealStore';
+import { useRoutineStore, getRoutineSteps } from '../stores/useRoutineStore';
+import { isTaskTriggered } from '../utils/triggers';
 import type { Task, TaskInstance, TaskTier, CareContext } from '../types';
 
 // ────────────────────────────────────────────────
@@ -205,12 +215,12 @@ export function Today() {
   const generateDailyInstances = useTaskStore((state) => state.generateDailyInstances);
   const completeTask = useTaskStore((state) => state.completeTask);
   const deferTask = useTaskStore((state) => state.deferTask);
-  const resetTaskInstance = useTaskStore((state) => state.resetTaskInstance);
+  const uncompleteTask = useTaskStore((state) => state.uncompleteTask);
   const { stateLabel, stateDescription } = useAvailability();
-  const hasEventFired = useEventStore((state) => state.hasEventFired);
-  const getEventTimestamp = useEventStore((state) => state.getEventTimestamp);
+  const getEventFirings = useEventStore((state) => state.getEventFirings);
   const { justBloomedId, bloomToast, bloomedTemplateId, dismissBloom } = useChallengeProgress();
   const activeChallenges = useChallengeStore(s => s.activeChallenges);
+  const routines = useRoutineStore((s) => s.routines);
   const navigate = useNavigate();
   const pendingBonus = useCoinStore((s) => s.pendingBonus);
   const clearPendingBonus = useCoinStore((s) => s.clearPendingBonus);
@@ -242,9 +252,10 @@ export function Today() {
     return () => { clearTimeout(fadeTimer); clearTimeout(removeTimer); };
   }, [trayToast]);
 
-  // Generate today's instances on mount
+  // Generate today's instances on mount, then line up any meal prep
   useEffect(() => {
     generateDailyInstances(new Date());
+    useMealStore.getState().syncPrepTasks();
   }, [generateDailyInstances]);
 
   // Cleanup timers on unmount
@@ -266,19 +277,7 @@ export function Today() {
     })
     .filter((item): item is TaskWithInstance => item !== null)
     .filter((item) => !item.task.isInformational && item.task.childTaskType !== 'pickup' && item.task.childTaskType !== 'dropoff')
-    .filter((item) => {
-      if (!item.task.triggeredBy) return true;
-      if (!hasEventFired(item.task.triggeredBy)) return false;
-      if (item.task.triggerDelayMinutes) {
-        const firedAt = getEventTimestamp(item.task.triggeredBy);
-        if (firedAt) {
-          const elapsed = (Date.now() - new Date(firedAt).getTime()) / 60000;
-          return elapsed >= item.task.triggerDelayMinutes;
-        }
-        return false;
-      }
-      return true;
-    });
+    .filter((item) => isTaskTriggered(item.task, getEventFirings));
 
   // Build grouped blocks from all active challenges that have seeded tasks
   const routineChallenges = useMemo(() => {
@@ -290,15 +289,31 @@ export function Today() {
         const items = (c.seededTaskIds ?? [])
           .map(taskId => tasksWithInstances.find(t => t.task.id === taskId))
           .filter((x): x is { task: Task; instance: TaskInstance } => !!x);
-        return { challenge: c, items };
+        return { challenge: c, title: template.groupTitle ?? template.title, items };
       })
-      .filter((x): x is { challenge: typeof activeChallenges[0]; items: { task: Task; instance: TaskInstance }[] } => x !== null && x.items.length > 0);
+      .filter((x): x is { challenge: typeof activeChallenges[0]; title: string; items: { task: Task; instance: TaskInstance }[] } => x !== null && x.items.length > 0);
   }, [activeChallenges, tasksWithInstances]);
 
+  // Habit stacks with steps due today, in step order
+  const habitStacks = useMemo(() => {
+    return routines
+      .filter((routine) => routine.isActive)
+      .map((routine) => ({
+        routine,
+        items: getRoutineSteps(tasks, routine.id)
+          .map((step) => tasksWithInstances.find((t) => t.task.id === step.id))
+          .filter((x): x is TaskWithInstance => !!x),
+      }))
+      .filter((stack) => stack.items.length > 0);
+  }, [routines, tasks, tasksWithInstances]);
+
   // Task IDs that belong to a routine block (excluded from the main list)
   const routineTaskIds = useMemo(() =>
-    new Set(routineChallenges.flatMap(r => r.items.map(i => i.task.id))),
-    [routineChallenges]
+    new Set([
+      ...routineChallenges.flatMap(r => r.items.map(i => i.task.id)),
+      ...habitStacks.flatMap(s => s.items.map(i => i.task.id)),
+    ]),
+    [routineChallenges, habitStacks]
   );
 
   const handleTaskTap = useCallback((instance: TaskInstance) => {
@@ -310,7 +325,7 @@ export function Today() {
       }
       setFadingOut((prev) => { const next = new Set(prev); next.delete(instance.id); return next; });
       setRecentlyCompleted((prev) => { const next = new Set(prev); next.delete(instance.id); return next; });
-      resetTaskInstance(instance.id);
+      uncompleteTask(instance.id);
     } else {
       completeTask(instance.id);
       setRecentlyCompleted((prev) => new Set(prev).add(instance.id));
@@ -327,7 +342,7 @@ export function Today() {
 
       timersRef.current.set(instance.id, [fadeTimer, removeTimer]);
     }
-  }, [completeTask, resetTaskInstance]);
+  }, [completeTask, uncompleteTask]);
 
   const handleDefer = useCallback((instanceId: string) => {
     deferTask(instanceId, null);
@@ -350,13 +365,30 @@ export function Today() {
           <GardenPreview justBloomedId={justBloomedId} />
         </div>
 
+        {/* Good Enough / Great / Epic */}
+        <DayTierIndicator />
+
         {/* ── TASKS ── */}
 
         {/* Routine blocks — always shown when a daily-routine challenge is active */}
-        {routineChallenges.map(({ challenge, items }) => (
+        {routineChallenges.map(({ challenge, title, items }) => (
           <RoutineBlock
             key={challenge.id}
-            challenge={challenge}
+            title={title}
+            items={items}
+            today={today}
+            onTaskTap={handleTaskTap}
+            onEdit={setEditingTask}
+            fadingOut={fadingOut}
+          />
+        ))}
+
+        {/* Habit stacks — user-defined routines like "Close the House" */}
+        {habitStacks.map(({ routine, items }) => (
+          <RoutineBlock
+            key={routine.id}
+            title={routine.name}
+            subtitle={routine.preferredTimeBlock ?? undefined}
             items={items}
             today={today}
             onTaskTap={handleTaskTap}
@@ -365,7 +397,7 @@ export function Today() {
           />
         ))}
 
-        {tasksWithInstances.filter(t => !routineTaskIds.has(t.task.id)).length === 0 && routineChallenges.length === 0 ? (
+        {tasksWithInstances.filter(t => !routineTaskIds.has(t.task.id)).length === 0 && routineChallenges.length === 0 && habitStacks.length === 0 ? (
           <div className="text-center py-12 bg-cream rounded-xl">
             <p className="text-bark/60">No tasks for today.</p>
             <p className="text-bark/40 text-sm mt-2">Add some tasks to get started.</p>
@@ -423,12 +455,24 @@ export function Today() {
 
         {/* ── SCHEDULE ── */}
 
+        {/* Actual away / home, which overrides the care schedule */}
+        <CareTransitionPrompt />
+        <AwayControls />
+
+        {/* Live nap / night sleep logging */}
+        <NapControls />
+        <NapTransitionPrompt />
+        <WeeklyReviewPrompt />
+
         {/* Day overview — compact (current + 2 upcoming) */}
         <DayOverviewCompact />
 
         {/* Coming Up (Phase 5) */}
         <ComingUp />
 
+        {/* Fit to-dos and seeds into today's windows */}
+        <DayPlanner />
+
         {/* Bottom padding for mobile */}
         <div className="h-20" />
       </div>
@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { useTaskStore } from '../stores/useTaskStore';
+import { useSettingsStore } from '../stores/useSettingsStore';
+import { useWeeklyReview } from '../hooks/useWeeklyReview';
+import { DayPicker } from '../components/tasks/DayPicker';
+import type { CompletionRate, Task, TaskCategory, TaskTier } from '../types';
+
+const TIER_LABELS: Record<TaskTier, string> = {
+  'fixed-schedule': 'Fixed schedule',
+  'routine': 'Routines',
+  'todo': 'To-dos',
+};
+
+const CATEGORY_LABELS: Record<TaskCategory, string> = {
+  'meals': 'Meals',
+  'kids': 'Kids',
+  'kitchen': 'Kitchen',
+  'laundry': 'Laundry',
+  'tidying': 'Tidying',
+  'cleaning': 'Cleaning',
+  'errands': 'Errands',
+  'self-care': 'Self-care',
+  'focus-work': 'Focus work',
+  'other': 'Other',
+};
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours > 0) {
+    return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  }
+  return `${mins}m`;
+}
+
+function RateRow({ label, rate }: { label: string; rate: CompletionRate }) {
+  const percent = rate.total > 0 ? Math.round((rate.completed / rate.total) * 100) : 0;
+  return (
+    <div className="flex items-center gap-3">
+      <span className="text-sm text-bark/70 w-28 flex-shrink-0 truncate">{label}</span>
+      <div className="flex-1 h-2 bg-bark/5 rounded-full overflow-hidden">
+        <div className="h-full bg-sage rounded-full" style={{ width: `${percent}%` }} />
+      </div>
+      <span className="text-xs text-bark/40 w-12 text-right flex-shrink-0">
+        {rate.completed}/{rate.total}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Keep / drop / adjust controls for a task that isn't fitting the week
+ */
+function TaskDecisions({ task }: { task: Task }) {
+  const updateTask = useTaskStore((state) => state.updateTask);
+  const moveToChoreQueue = useTaskStore((state) => state.moveToChoreQueue);
+  const [showDays, setShowDays] = useState(false);
+
+  if (!task.isActive) {
+    return (
+      <div className="flex items-center gap-2 mt-2">
+        <span className="text-xs text-bark/40">Paused</span>
+        <button
+          onClick={() => updateTask(task.id, { isActive: true })}
+          className="text-xs text-sage hover:text-sage/80 font-medium"
+        >
+          Resume
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-2">
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setShowDays((show) => !show)}
+          className={`px-3 py-1.5 rounded-lg text-xs font-medium ${
+            showDays ? 'bg-sage text-cream' : 'bg-cream text-bark/60 hover:text-bark'
+          }`}
+        >
+          Change days
+        </button>
+        {task.isChoreQueue ? (
+          <span className="px-3 py-1.5 text-xs text-bark/40">In chore queue</span>
+        ) : (
+          <button
+            onClick={() => moveToChoreQueue(task.id)}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-cream text-bark/60 hover:text-bark"
+          >
+            Move to chore queue
+          </button>
+        )}
+        <button
+          onClick={() => updateTask(task.id, { isActive: false })}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-cream text-bark/60 hover:text-bark"
+        >
+          Pause
+        </button>
+      </div>
+      {showDays && (
+        <div className="mt-2">
+          <DayPicker task={task} onUpdate={updateTask} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A gentle look back at the last seven days, with inline decisions about
+ * what to keep, drop or adjust
+ */
+export function WeeklyReview() {
+  const navigate = useNavigate();
+  const review = useWeeklyReview();
+  const tasks = useTaskStore((state) => state.tasks);
+  const taskInstances = useTaskStore((state) => state.taskInstances);
+  const reseedInstance = useTaskStore((state) => state.reseedInstance);
+  const markWeeklyReviewed = useSettingsStore((state) => state.markWeeklyReviewed);
+
+  useEffect(() => {
+    markWeeklyReviewed();
+  }, [markWeeklyReviewed]);
+
+  const getTask = (id: string) => tasks.find((t) => t.id === id);
+  const categories = (Object.entries(review.byCategory) as [TaskCategory, CompletionRate][])
+    .sort(([, a], [, b]) => b.total - a.total);
+  const usedPercent = review.availableMinutes > 0
+    ? Math.round((review.usedMinutes / review.availableMinutes) * 100)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-cream">
+      <div className="max-w-lg mx-auto p-4 pb-24">
+        <header className="mb-6">
+          <button
+            onClick={() => navigate(-1)}
+            className="text-sm text-bark/50 hover:text-bark mb-2 flex items-center gap-1"
+          >
+            ← Back
+          </button>
+          <h1 className="font-display text-2xl text-bark">Your Week</h1>
+          <p className="text-bark/60 text-sm">
+            {format(parseISO(review.start), 'MMM d')} – {format(parseISO(review.end), 'MMM d')}
+          </p>
+        </header>
+
+        <div className="grid grid-cols-2 gap-3 mb-6">
+          <div className="bg-parchment rounded-xl p-4">
+            <p className="text-2xl font-display text-bark">{review.flowersEarned}</p>
+            <p className="text-xs text-bark/50 mt-0.5">
+              flower{review.flowersEarned === 1 ? '' : 's'} earned
+            </p>
+          </div>
+          <div className="bg-parchment rounded-xl p-4">
+            <p className="text-2xl font-display text-bark">{formatDuration(review.usedMinutes)}</p>
+            <p className="text-xs text-bark/50 mt-0.5">
+              of {formatDuration(review.availableMinutes)} free &amp; quiet time used ({usedPercent}%)
+            </p>
+          </div>
+        </div>
+
+        <section className="mb-6">
+          <h2 className="text-xs font-medium text-bark/50 uppercase tracking-wide mb-2">Done by type</h2>
+          <div className="bg-parchment/50 rounded-xl p-3 space-y-2">
+            {(Object.keys(TIER_LABELS) as TaskTier[]).map((tier) => (
+              <RateRow key={tier} label={TIER_LABELS[tier]} rate={review.byTier[tier]} />
+            ))}
+          </div>
+        </section>
+
+        {categories.length > 0 && (
+          <section className="mb-6">
+            <h2 className="text-xs font-medium text-bark/50 uppercase tracking-wide mb-2">Done by category</h2>
+            <div className="bg-parchment/50 rounded-xl p-3 space-y-2">
+              {categories.map(([category, rate]) => (
+                <RateRow key={category} label={CATEGORY_LABELS[category]} rate={rate} />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {review.mostSkipped.length > 0 && (
+          <section className="mb-6">
+            <h2 className="text-xs font-medium text-bark/50 uppercase tracking-wide mb-1">Routines that slipped</h2>
+            <p className="text-xs text-bark/40 mb-2">Keep them, move them to days that work, or let them go for now.</p>
+            <div className="space-y-2">
+              {review.mostSkipped.map(({ taskId, missed, total }) => {
+                const task = getTask(taskId);
+                if (!task) return null;
+                return (
+                  <div key={taskId} className="bg-parchment rounded-xl p-3">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-sm font-medium text-bark truncate">{task.title}</span>
+                      <span className="text-xs text-bark/40 flex-shrink-0">missed {missed} of {total}</span>
+                    </div>
+                    <TaskDecisions task={task} />
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
+        {review.expiredSeeds.length > 0 && (
+          <section className="mb-6">
+            <h2 className="text-xs font-medium text-bark/50 uppercase tracking-wide mb-1">Seeds that expired</h2>
+            <p className="text-xs text-bark/40 mb-2">These sat in the tray for two weeks. Plant any that still matter.</p>
+            <div className="bg-parchment/50 rounded-xl p-3 space-y-2">
+              {review.expiredSeeds.map(({ taskId, instanceId, expiredAt }) => {
+                const task = getTask(taskId);
+                const isReseeded = taskInstances.find((i) => i.id === instanceId)?.status === 'deferred';
+                return (
+                  <div key={instanceId} className="flex items-center gap-3">
+                    <span className="text-sm text-bark/70 flex-1 truncate">{task?.title}</span>
+                    <span className="text-xs text-bark/30 flex-shrink-0">{format(parseISO(expiredAt), 'EEE')}</span>
+                    {isReseeded ? (
+                      <span className="text-xs text-bark/40 w-16 text-right">Re-seeded</span>
+                    ) : (
+                      <button
+                        onClick={() => reseedInstance(instanceId)}
+                        className="text-xs text-sage hover:text-sage/80 font-medium w-16 text-right"
+                      >
+                        Re-seed
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
+        <button
+          onClick={() => navigate('/insights')}
+          className="w-full py-2 text-sm text-sage hover:text-sage/80 font-medium"
+        >
+          See longer trends →
+        </button>
+      </div>
+    </div>
+  );
+}
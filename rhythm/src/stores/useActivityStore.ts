@@ -0,0 +1,113 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { v4 as uuidv4 } from 'uuid';
+import { format } from 'date-fns';
+import type { ActivityEntry, ActivityType, CompletionEffects } from '../types';
+
+// Oldest entries are dropped past this
+const MAX_ACTIVITY_ENTRIES = 2000;
+
+type ActivityInput = Omit<ActivityEntry, 'id' | 'timestamp' | 'date' | 'undoneAt' | 'redoneAt'>;
+type ActivityTags = Pick<ActivityEntry, 'groupId' | 'redoOf' | 'auto'>;
+
+// Tags applied to everything logged inside withActivityTags
+let activeTags: ActivityTags = {};
+
+/**
+ * Run `fn`, tagging any entries it logs, e.g. the coins a completion earned
+ * (grouped under the completion) or tasks completed automatically
+ */
+export function withActivityTags<T>(tags: ActivityTags, fn: () => T): T {
+  const previous = activeTags;
+  activeTags = { ...previous, ...tags };
+  try {
+    return fn();
+  } finally {
+    activeTags = previous;
+  }
+}
+
+interface ActivityState {
+  entries: ActivityEntry[];
+
+  logActivity: (entry: ActivityInput) => string;
+  attachEffects: (id: string, effects: CompletionEffects) => void;
+  markUndone: (id: string) => void;
+  markRedone: (id: string) => void;
+  clearActivity: () => void;
+
+  // Query methods
+  getEntriesForDate: (date: string) => ActivityEntry[];
+  getEntries: (filter?: { types?: ActivityType[]; since?: Date }) => ActivityEntry[];
+}
+
+/**
+ * Append-only journal of what happened and when. Entries are never edited
+ * except to record their side effects and whether they were undone or redone.
+ */
+export const useActivityStore = create<ActivityState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+
+      logActivity: (entryData) => {
+        const now = new Date();
+        const id = uuidv4();
+        const entry: ActivityEntry = {
+          id,
+          ...activeTags,
+          ...entryData,
+          timestamp: now.toISOString(),
+          date: format(now, 'yyyy-MM-dd'),
+        };
+        set((state) => ({
+          entries: [...state.entries, entry].slice(-MAX_ACTIVITY_ENTRIES),
+        }));
+        return id;
+      },
+
+      attachEffects: (id, effects) => {
+        set((state) => ({
+          entries: state.entries.map((entry) => (entry.id === id ? { ...entry, effects } : entry)),
+        }));
+      },
+
+      // Undoing an entry also undoes everything logged in its group
+      markUndone: (id) => {
+        const undoneAt = new Date().toISOString();
+        set((state) => ({
+          entries: state.entries.map((entry) =>
+            entry.id === id || entry.groupId === id ? { ...entry, undoneAt } : entry
+          ),
+        }));
+      },
+
+      markRedone: (id) => {
+        set((state) => ({
+          entries: state.entries.map((entry) =>
+            entry.id === id ? { ...entry, redoneAt: new Date().toISOString() } : entry
+          ),
+        }));
+      },
+
+      clearActivity: () => {
+        set({ entries: [] });
+      },
+
+      getEntriesForDate: (date) => {
+        return get().entries.filter((entry) => entry.date === date);
+      },
+
+      getEntries: (filter = {}) => {
+        const sinceIso = filter.since?.toISOString();
+        return get().entries.filter((entry) =>
+          (!filter.types || filter.types.includes(entry.type)) &&
+          (!sinceIso || entry.timestamp >= sinceIso)
+        );
+      },
+    }),
+    {
+      name: 'rhythm_activity',
+    }
+  )
+);
@@ -1,9 +1,10 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import type { AwayLog } from '../types';
 import { useChildStore } from './useChildStore';
+import { useActivityStore } from './useActivityStore';
 
 interface AwayState {
   awayLogs: AwayLog[];
@@ -22,6 +23,7 @@ interface AwayState {
   isChildAway: (childId: string) => boolean;
   isChildAwayForSchedule: (childId: string, scheduleName: string) => boolean;
   getLogsForTimelineDate: (date: string) => AwayLog[];
+  getLoggedAwayState: (childId: string, since: Date) => 'away' | 'home' | null;
 }
 
 export const useAwayStore = create<AwayState>()(
@@ -47,10 +49,19 @@ export const useAwayStore = create<AwayState>()(
         // Update child care status to 'away'
         useChildStore.getState().updateCareStatus(childId, 'away');
 
+        const name = useChildStore.getState().getChild(childId)?.name;
+        useActivityStore.getState().logActivity({
+          type: 'child-away',
+          label: scheduleName ? `${name} left for ${scheduleName}` : `${name} went out`,
+          refId: id,
+          childId,
+        });
+
         return id;
       },
 
       endAway: (childId) => {
+        const active = get().getActiveAwayForChild(childId);
         const now = new Date().toISOString();
         set((state) => ({
           awayLogs: state.awayLogs.map((log) =>
@@ -62,6 +73,15 @@ export const useAwayStore = create<AwayState>()(
 
         // Update child care status to 'home'
         useChildStore.getState().updateCareStatus(childId, 'home');
+
+        if (active) {
+          useActivityStore.getState().logActivity({
+            type: 'child-home',
+            label: `${useChildStore.getState().getChild(childId)?.name} came home`,
+            refId: active.id,
+            childId,
+          });
+        }
       },
 
       updateAwayLog: (logId, updates) => {
@@ -129,6 +149,20 @@ export const useAwayStore = create<AwayState>()(
           return startsOnDate || endsOnDate || spansDate;
         });
       },
+
+      getLoggedAwayState: (childId, since) => {
+        // A running log means away; a log that ended after `since` (e.g. the
+        // start of a scheduled childcare block) means they came home early
+        if (get().isChildAway(childId)) return 'away';
+        const sinceMs = since.getTime();
+        const cameHomeSince = get().awayLogs.some(
+          (log) =>
+            log.childId === childId &&
+            log.endedAt !== null &&
+            parseISO(log.endedAt).getTime() >= sinceMs
+        );
+        return cameHomeSince ? 'home' : null;
+      },
     }),
     {
       name: 'rhythm_away',
@@ -1,9 +1,15 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
-import { format, getDay } from 'date-fns';
-import type { CareBlock, CareBlockType, AvailabilityState, RecurrenceRule } from '../types';
+import { addDays, addMinutes, format, parseISO, startOfDay, subDays } from 'date-fns';
+import type { Child, CareBlock, CareBlockType, CareBlockExceptionInput, CareClosure, CareStatus, AvailabilityState, AvailabilityWindow, ChildAvailability, ChildStatusDetail, ChildStatuses, NapDayPrediction, NapLog } from '../types';
 import { useChildStore } from './useChildStore';
+import { useNapStore } from './useNapStore';
+import { useAwayStore } from './useAwayStore';
+import { adjustTime, findBlockOccurrenceAt, resolveBlockOnDate, getCurrentTimeString, getSpanMinutes, isTimeBetween, minutesToTime, timeToMinutes } from '../utils/scheduling';
+import { getPredictedSleepStart, isAsleepInPrediction, predictNapDay } from '../utils/napPrediction';
+import { combineChildStatuses } from '../utils/availability';
+import { buildNapBlocks, buildSleepBlocks, isNapBlock } from '../utils/sleepTemplates';
 
 /**
  * Maps CareBlockType to the AvailabilityState it creates
@@ -24,77 +30,174 @@ function getAvailabilityFromBlockType(blockType: CareBlockType): AvailabilitySta
 }
 
 /**
- * Check if a time string (HH:mm) is between two other time strings
+ * Whether the blocks active at a time keep me busy: travel time either
+ * side of a block, or being at an appointment or activity with a child
  */
-function isTimeBetween(current: string, start: string, end: string): boolean {
-  const [currentH, currentM] = current.split(':').map(Number);
-  const [startH, startM] = start.split(':').map(Number);
-  const [endH, endM] = end.split(':').map(Number);
+function isBusyDuringBlocks(blocksAtTime: CareBlock[], time: string): boolean {
+  for (const block of blocksAtTime) {
+    // During travel time before, we're unavailable
+    if (block.travelTimeBefore) {
+      const leaveByTime = adjustTime(block.startTime, -block.travelTimeBefore);
+      if (isTimeBetween(time, leaveByTime, block.startTime)) {
+        return true;
+      }
+    }
 
-  const currentMins = currentH * 60 + currentM;
-  const startMins = startH * 60 + startM;
-  const endMins = endH * 60 + endM;
+    // During travel time after, we're unavailable
+    if (block.travelTimeAfter) {
+      const returnTime = adjustTime(block.endTime, block.travelTimeAfter);
+      if (isTimeBetween(time, block.endTime, returnTime)) {
+        return true;
+      }
+    }
 
-  return currentMins >= startMins && currentMins < endMins;
+    // If we're in an appointment or activity with the kid
+    if (getAvailabilityFromBlockType(block.blockType) === 'unavailable') {
+      return true;
+    }
+  }
+  return false;
 }
 
 /**
- * Get current time as HH:mm string
+ * Each child's status from the blocks active at a time. Being away
+ * (childcare, babysitter) wins over being asleep.
  */
-function getCurrentTimeString(): string {
-  const now = new Date();
-  return `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+function getChildStatusesFromBlocks(
+  blocksAtTime: CareBlock[],
+  children: Child[],
+  asleepChildIds: string[]
+): ChildStatuses {
+  const awayBlocks = blocksAtTime.filter((block) =>
+    getAvailabilityFromBlockType(block.blockType) === 'free'
+  );
+  const statuses: ChildStatuses = {};
+  for (const child of children) {
+    if (awayBlocks.some((block) => block.childIds.includes(child.id))) {
+      statuses[child.id] = 'away';
+    } else if (asleepChildIds.includes(child.id)) {
+      statuses[child.id] = 'asleep';
+    } else {
+      statuses[child.id] = 'awake';
+    }
+  }
+  return statuses;
 }
 
 /**
- * Check if a block should occur on a given date based on its recurrence
+ * Determine availability from the blocks active at a time and where each
+ * child is. Priority: unavailable > free > quiet > one-on-one > parenting
  */
-function shouldBlockOccurOnDate(block: CareBlock, date: Date): boolean {
-  if (!block.isActive) return false;
+function getAvailabilityFromBlocks(
+  blocksAtTime: CareBlock[],
+  time: string,
+  statuses: ChildStatuses
+): AvailabilityState {
+  if (isBusyDuringBlocks(blocksAtTime, time)) return 'unavailable';
+  return combineChildStatuses(statuses);
+}
 
-  const dayOfWeek = getDay(date); // 0 = Sunday
-  const dateStr = format(date, 'yyyy-MM-dd');
+/**
+ * The most recent moment the clock read `time` — today, or yesterday if
+ * that's still ahead (e.g. the start of a sleep block that began last night)
+ */
+function getLastTimeOccurrence(time: string, now: Date): Date {
+  const today = addMinutes(startOfDay(now), timeToMinutes(time));
+  return today > now ? subDays(today, 1) : today;
+}
 
-  // One-off event
-  if (block.recurrence === 'one-off') {
-    return block.oneOffDate === dateStr;
+// Predictions by date, kept until the sleep logs, the children or the
+// minute change, so status lookups through the day don't each redo them
+let predictionCache: {
+  napLogs: NapLog[];
+  children: Child[];
+  minute: string;
+  byDate: Map<string, NapDayPrediction[]>;
+} | null = null;
+
+function getPredictionsForDate(date: Date): NapDayPrediction[] {
+  const { napLogs } = useNapStore.getState();
+  const { children } = useChildStore.getState();
+  const minute = format(new Date(), 'yyyy-MM-dd HH:mm');
+  if (!predictionCache || predictionCache.napLogs !== napLogs || predictionCache.children !== children || predictionCache.minute !== minute) {
+    predictionCache = { napLogs, children, minute, byDate: new Map() };
   }
 
-  // If daysOfWeek is set on the block, use it
-  if (block.daysOfWeek && block.daysOfWeek.length > 0) {
-    return block.daysOfWeek.includes(dayOfWeek);
+  const dateStr = format(date, 'yyyy-MM-dd');
+  let predictions = predictionCache.byDate.get(dateStr);
+  if (!predictions) {
+    predictions = children.map((child) => predictNapDay(child, napLogs, date));
+    predictionCache.byDate.set(dateStr, predictions);
   }
+  return predictions;
+}
 
-  // Otherwise use recurrence rule
-  const recurrence = block.recurrence as RecurrenceRule;
-  switch (recurrence) {
-    case 'daily':
-      return true;
-    case 'weekdays':
-      return dayOfWeek >= 1 && dayOfWeek <= 5;
-    case 'weekends':
-      return dayOfWeek === 0 || dayOfWeek === 6;
-    case 'weekly':
-      return dayOfWeek === 0; // Default to Sunday
-    case 'monthly':
-      return date.getDate() === 1;
-    default:
-      if (typeof recurrence === 'object' && recurrence.type === 'specific-days') {
-        return recurrence.days.includes(dayOfWeek);
+/**
+ * Where each child is planned to be at a time: sleep blocks, with
+ * predicted naps filling in. Age-based guesses don't second-guess a sleep
+ * block the parent has set up for that day.
+ */
+function getPlannedChildStatuses(
+  blocksAtTime: CareBlock[],
+  sleepBlocksOnDate: CareBlock[],
+  predictions: NapDayPrediction[],
+  time: string
+): ChildStatuses {
+  const children = useChildStore.getState().children;
+  const asleep = children
+    .filter((child) => {
+      if (blocksAtTime.some((block) => block.blockType === 'sleep' && block.childIds.includes(child.id))) {
+        return true;
       }
-      return false;
-  }
+      const prediction = predictions.find((p) => p.childId === child.id);
+      if (!prediction) return false;
+      const hasSleepBlock = sleepBlocksOnDate.some((block) => block.childIds.includes(child.id));
+      if (prediction.source === 'age-default' && hasSleepBlock) return false;
+      return isAsleepInPrediction(prediction, time);
+    })
+    .map((child) => child.id);
+  return getChildStatusesFromBlocks(blocksAtTime, children, asleep);
 }
 
+const CARE_STATUS_AVAILABILITY: Record<CareStatus, ChildAvailability> = {
+  home: 'awake',
+  away: 'away',
+  asleep: 'asleep',
+};
+
 /**
- * Adjust time by minutes (for travel time calculations)
+ * What a child is actually doing, from the most trusted source that has
+ * something to say:
+ * 1. Sleep logs (Nap / Bedtime / Awake)
+ * 2. Away logs (Away / Home, and confirmed or dismissed care transitions)
+ * 3. Care status from dropoff, pickup, bedtime and wake-up tasks
+ * 4. The schedule
+ * Running logs always count. Finished logs and care status changes only
+ * count if they happened after the scheduled block began (or today, when
+ * nothing is scheduled).
  */
-function adjustTime(time: string, minutes: number): string {
-  const [h, m] = time.split(':').map(Number);
-  const totalMinutes = h * 60 + m + minutes;
-  const newH = Math.floor(totalMinutes / 60) % 24;
-  const newM = totalMinutes % 60;
-  return `${String(newH).padStart(2, '0')}:${String(newM).padStart(2, '0')}`;
+function resolveActualStatus(
+  child: Child,
+  scheduled: ChildAvailability,
+  blockStart: Date | null,
+  now: Date
+): Pick<ChildStatusDetail, 'actual' | 'source'> {
+  const since = blockStart ?? now;
+
+  const sleep = useNapStore.getState().getLoggedSleepState(child.id, since);
+  if (sleep === 'asleep') return { actual: 'asleep', source: 'sleep-log' };
+  if (sleep === 'awake' && scheduled === 'asleep') return { actual: 'awake', source: 'sleep-log' };
+
+  const away = useAwayStore.getState().getLoggedAwayState(child.id, since);
+  if (away === 'away') return { actual: 'away', source: 'away-log' };
+  if (away === 'home' && scheduled === 'away') return { actual: 'awake', source: 'away-log' };
+
+  const statusSince = blockStart ?? startOfDay(now);
+  if (child.careStatus && child.careStatusUpdatedAt && parseISO(child.careStatusUpdatedAt) >= statusSince) {
+    return { actual: CARE_STATUS_AVAILABILITY[child.careStatus], source: 'care-status' };
+  }
+
+  return { actual: scheduled, source: 'schedule' };
 }
 
 interface CareBlockState {
@@ -108,14 +211,32 @@ interface CareBlockState {
   replaceBlocks: (blocks: CareBlock[]) => void;
   getBlock: (id: string) => CareBlock | undefined;
 
+  // Date exceptions (holidays, sick days, swapped days)
+  closures: CareClosure[];
+  addException: (blockId: string, exception: CareBlockExceptionInput) => string;
+  removeException: (blockId: string, exceptionId: string) => void;
+  skipChildOnDate: (childId: string, date: string, reason?: string) => void;
+  addClosure: (closure: Omit<CareClosure, 'id'>) => string;
+  removeClosure: (id: string) => void;
+
+  // Age-based sleep templates
+  addSleepTemplate: (childId: string) => void;
+  setNapCount: (childId: string, napCount: number) => void; // replaces the child's nap blocks
+
   // Query methods
   getBlocksForChild: (childId: string) => CareBlock[];
-  getActiveBlocksForDate: (date: Date) => CareBlock[];
+  getActiveBlocksForDate: (date: Date) => CareBlock[]; // resolved with exceptions
   getActiveBlocksNow: () => CareBlock[];
+  getActiveBlocksAt: (date: Date, time: string) => CareBlock[];
 
   // Availability computation
   getCurrentAvailabilityState: () => AvailabilityState;
   getAvailabilityForDateAndTime: (date: Date, time: string) => AvailabilityState;
+  getChildrenAsleepNow: () => string[]; // asleep in getChildStatusesNow
+  getChildStatusesNow: () => ChildStatuses; // actual, see resolveActualStatus
+  getChildStatusDetailsNow: () => Record<string, ChildStatusDetail>; // planned (as getChildStatusesAt) vs actual
+  getChildStatusesAt: (date: Date, time: string) => ChildStatuses; // planned, with predicted naps
+  getAvailabilityWindows: (date: Date) => AvailabilityWindow[]; // the day sliced into planned windows
 
   // Travel time helpers
   getLeaveByTime: (block: CareBlock) => string | null;
@@ -137,6 +258,7 @@ export const useCareBlockStore = create<CareBlockState>()(
   persist(
     (set, get) => ({
       blocks: [],
+      closures: [],
 
       addBlock: (blockData) => {
         const id = uuidv4();
@@ -158,6 +280,10 @@ export const useCareBlockStore = create<CareBlockState>()(
       removeBlock: (id) => {
         set((state) => ({
           blocks: state.blocks.filter((block) => block.id !== id),
+          closures: state.closures.map((closure) => ({
+            ...closure,
+            blockIds: closure.blockIds.filter((blockId) => blockId !== id),
+          })),
         }));
       },
 
@@ -173,161 +299,235 @@ export const useCareBlockStore = create<CareBlockState>()(
         return get().blocks.find((block) => block.id === id);
       },
 
+      addException: (blockId, exceptionData) => {
+        const id = uuidv4();
+        set((state) => ({
+          blocks: state.blocks.map((block) =>
+            block.id === blockId
+              ? { ...block, exceptions: [...(block.exceptions ?? []), { id, ...exceptionData }] }
+              : block
+          ),
+        }));
+        return id;
+      },
+
+      removeException: (blockId, exceptionId) => {
+        set((state) => ({
+          blocks: state.blocks.map((block) =>
+            block.id === blockId
+              ? { ...block, exceptions: (block.exceptions ?? []).filter((ex) => ex.id !== exceptionId) }
+              : block
+          ),
+        }));
+      },
+
+      skipChildOnDate: (childId, date, reason) => {
+        // A sick day keeps the child home from everything except sleep
+        const blocksForDay = get().getActiveBlocksForDate(parseISO(date));
+        for (const block of blocksForDay) {
+          if (block.blockType === 'sleep' || !block.childIds.includes(childId)) continue;
+          get().addException(block.id, { date, type: 'skip', childIds: [childId], reason });
+        }
+      },
+
+      addClosure: (closureData) => {
+        const id = uuidv4();
+        set((state) => ({
+          closures: [...state.closures, { id, ...closureData }],
+        }));
+        for (const blockId of closureData.blockIds) {
+          get().addException(blockId, {
+            date: closureData.date,
+            type: 'skip',
+            reason: closureData.name,
+            closureId: id,
+          });
+        }
+        return id;
+      },
+
+      removeClosure: (id) => {
+        set((state) => ({
+          closures: state.closures.filter((closure) => closure.id !== id),
+          blocks: state.blocks.map((block) => ({
+            ...block,
+            exceptions: block.exceptions?.filter((ex) => ex.type !== 'skip' || ex.closureId !== id),
+          })),
+        }));
+      },
+
+      addSleepTemplate: (childId) => {
+        const child = useChildStore.getState().getChild(childId);
+        if (!child) return;
+        buildSleepBlocks(child, new Date()).forEach((block) => {
+          get().addBlock({ ...block, childIds: [childId] });
+        });
+      },
+
+      setNapCount: (childId, napCount) => {
+        const child = useChildStore.getState().getChild(childId);
+        if (!child) return;
+
+        // Retire the old naps rather than deleting them: shared blocks just
+        // lose this child, the child's own blocks are switched off
+        set((state) => ({
+          blocks: state.blocks.map((block) => {
+            if (!block.isActive || !isNapBlock(block) || !block.childIds.includes(childId)) return block;
+            return block.childIds.length > 1
+              ? { ...block, childIds: block.childIds.filter((id) => id !== childId) }
+              : { ...block, isActive: false };
+          }),
+        }));
+
+        buildNapBlocks(child, new Date(), napCount).forEach((block) => {
+          get().addBlock({ ...block, childIds: [childId] });
+        });
+      },
+
       getBlocksForChild: (childId) => {
         return get().blocks.filter((block) => block.childIds.includes(childId));
       },
 
       getActiveBlocksForDate: (date) => {
-        return get().blocks.filter((block) => shouldBlockOccurOnDate(block, date));
+        return get().blocks
+          .map((block) => resolveBlockOnDate(block, date))
+          .filter((block): block is CareBlock => block !== null);
       },
 
       getActiveBlocksNow: () => {
         const now = new Date();
-        const currentTime = getCurrentTimeString();
-        const activeToday = get().getActiveBlocksForDate(now);
-
-        return activeToday.filter((block) => {
-          // Check if current time is within the block's time range
-          // Account for travel time
-          const effectiveStart = block.travelTimeBefore
-            ? adjustTime(block.startTime, -block.travelTimeBefore)
-            : block.startTime;
-          const effectiveEnd = block.travelTimeAfter
-            ? adjustTime(block.endTime, block.travelTimeAfter)
-            : block.endTime;
-
-          return isTimeBetween(currentTime, effectiveStart, effectiveEnd);
-        });
+        return get().getActiveBlocksAt(now, getCurrentTimeString(now));
       },
 
-      getCurrentAvailabilityState: () => {
-        const children = useChildStore.getState().children;
-        const currentTime = getCurrentTimeString();
-
-        // Get active care blocks
-        const activeBlocks = get().getActiveBlocksNow();
-
-        // Determine highest-priority availability state
-        // Priority: unavailable > free > quiet > parenting
-
-        // Check for unavailable blocks first (travel time)
-        for (const block of activeBlocks) {
-          // During travel time before, we're unavailable
-          if (block.travelTimeBefore) {
-            const leaveByTime = adjustTime(block.startTime, -block.travelTimeBefore);
-            if (isTimeBetween(currentTime, leaveByTime, block.startTime)) {
-              return 'unavailable';
-            }
-          }
-
-          // During travel time after, we're unavailable
-          if (block.travelTimeAfter) {
-            const returnTime = adjustTime(block.endTime, block.travelTimeAfter);
-            if (isTimeBetween(currentTime, block.endTime, returnTime)) {
-              return 'unavailable';
-            }
-          }
+      getActiveBlocksAt: (date, time) => {
+        // Includes travel time, and overnight blocks from the previous day
+        return get().blocks
+          .map((block) => findBlockOccurrenceAt(block, date, time))
+          .filter((block): block is CareBlock => block !== null);
+      },
 
-          // If we're in an appointment or activity with the kid
-          const blockAvailability = getAvailabilityFromBlockType(block.blockType);
-          if (blockAvailability === 'unavailable') {
-            return 'unavailable';
-          }
-        }
+      getCurrentAvailabilityState: () => {
+        const now = new Date();
+        const time = getCurrentTimeString(now);
+        return getAvailabilityFromBlocks(
+          get().getActiveBlocksAt(now, time),
+          time,
+          get().getChildStatusesNow()
+        );
+      },
 
-        // Check if all children are away (free state from childcare/babysitter)
-        const awayBlocks = activeBlocks.filter((block) => {
-          const availability = getAvailabilityFromBlockType(block.blockType);
-          return availability === 'free';
-        });
+      getAvailabilityForDateAndTime: (date, time) => {
+        return getAvailabilityFromBlocks(
+          get().getActiveBlocksAt(date, time),
+          time,
+          get().getChildStatusesAt(date, time)
+        );
+      },
 
-        if (awayBlocks.length > 0 && children.length > 0) {
-          // Check if all children are covered by "free" blocks
-          const allChildrenAway = children.every((child) =>
-            awayBlocks.some((block) => block.childIds.includes(child.id))
-          );
-          if (allChildrenAway) {
-            return 'free';
-          }
+      getChildStatusesNow: () => {
+        const details = get().getChildStatusDetailsNow();
+        const statuses: ChildStatuses = {};
+        for (const [childId, detail] of Object.entries(details)) {
+          statuses[childId] = detail.actual;
         }
+        return statuses;
+      },
 
-        // Check for sleep blocks (bedtime, scheduled naps)
-        const sleepBlocks = activeBlocks.filter((block) => block.blockType === 'sleep');
-        if (sleepBlocks.length > 0 && children.length > 0) {
-          const allChildrenAsleep = children.every((child) =>
-            sleepBlocks.some((block) => block.childIds.includes(child.id))
+      // The same plan as getChildStatusesAt, predicted naps included, with
+      // logged changes laid over it
+      getChildStatusDetailsNow: () => {
+        const now = new Date();
+        const time = getCurrentTimeString(now);
+        const blocksAtTime = get().getActiveBlocksAt(now, time);
+        const children = useChildStore.getState().children;
+        const scheduled = get().getChildStatusesAt(now, time);
+
+        const details: Record<string, ChildStatusDetail> = {};
+        for (const child of children) {
+          // The block or predicted sleep behind the scheduled status, if
+          // any; logged changes before it began are out of date
+          const block = blocksAtTime.find((b) =>
+            b.childIds.includes(child.id) &&
+            (scheduled[child.id] === 'away'
+              ? getAvailabilityFromBlockType(b.blockType) === 'free'
+              : b.blockType === 'sleep')
           );
-          if (allChildrenAsleep) {
-            return 'quiet';
-          }
+          const prediction = getPredictionsForDate(now).find((p) => p.childId === child.id);
+          const startTime = block?.startTime
+            ?? (scheduled[child.id] === 'asleep' && prediction ? getPredictedSleepStart(prediction, time) : null);
+          const blockStart = startTime ? getLastTimeOccurrence(startTime, now) : null;
+          details[child.id] = {
+            scheduled: scheduled[child.id],
+            ...resolveActualStatus(child, scheduled[child.id], blockStart, now),
+          };
         }
-
-        // Default: parenting
-        return 'parenting';
+        return details;
       },
 
-      getAvailabilityForDateAndTime: (date, time) => {
-        const children = useChildStore.getState().children;
-        const activeBlocks = get().getActiveBlocksForDate(date);
-
-        // Filter blocks active at the specified time
-        const blocksAtTime = activeBlocks.filter((block) => {
-          const effectiveStart = block.travelTimeBefore
-            ? adjustTime(block.startTime, -block.travelTimeBefore)
-            : block.startTime;
-          const effectiveEnd = block.travelTimeAfter
-            ? adjustTime(block.endTime, block.travelTimeAfter)
-            : block.endTime;
-
-          return isTimeBetween(time, effectiveStart, effectiveEnd);
-        });
-
-        // Check travel time (unavailable)
-        for (const block of blocksAtTime) {
-          if (block.travelTimeBefore) {
-            const leaveByTime = adjustTime(block.startTime, -block.travelTimeBefore);
-            if (isTimeBetween(time, leaveByTime, block.startTime)) {
-              return 'unavailable';
-            }
-          }
-          if (block.travelTimeAfter) {
-            const returnTime = adjustTime(block.endTime, block.travelTimeAfter);
-            if (isTimeBetween(time, block.endTime, returnTime)) {
-              return 'unavailable';
-            }
-          }
+      getChildStatusesAt: (date, time) => {
+        return getPlannedChildStatuses(
+          get().getActiveBlocksAt(date, time),
+          get().getActiveBlocksForDate(date).filter((b) => b.blockType === 'sleep'),
+          getPredictionsForDate(date),
+          time
+        );
+      },
 
-          const blockAvailability = getAvailabilityFromBlockType(block.blockType);
-          if (blockAvailability === 'unavailable') {
-            return 'unavailable';
+      getAvailabilityWindows: (date) => {
+        const sleepBlocksOnDate = get().getActiveBlocksForDate(date).filter((b) => b.blockType === 'sleep');
+        const predictions = getPredictionsForDate(date);
+
+        // Availability can only change where a block (with its travel time)
+        // or a predicted sleep starts or ends, so check just those moments
+        const boundaries = new Set<number>([0]);
+        for (const offset of [-1, 0, 1]) {
+          for (const block of get().getActiveBlocksForDate(addDays(date, offset))) {
+            const padded = getSpanMinutes(block.startTime, block.endTime, block.travelTimeBefore ?? 0, block.travelTimeAfter ?? 0);
+            const span = getSpanMinutes(block.startTime, block.endTime);
+            [padded.start, span.start, span.end, padded.end].forEach((m) => boundaries.add(m + offset * 24 * 60));
           }
         }
-
-        // Check for free state
-        const awayBlocks = blocksAtTime.filter((block) =>
-          getAvailabilityFromBlockType(block.blockType) === 'free'
-        );
-        if (awayBlocks.length > 0 && children.length > 0) {
-          const allChildrenAway = children.every((child) =>
-            awayBlocks.some((block) => block.childIds.includes(child.id))
-          );
-          if (allChildrenAway) {
-            return 'free';
-          }
+        for (const prediction of predictions) {
+          [prediction.wakeTime, prediction.bedtime.start, ...prediction.naps.flatMap((nap) => [nap.start, nap.end ?? nap.start])]
+            .forEach((time) => boundaries.add(timeToMinutes(time)));
         }
-
-        // Check for quiet state
-        const sleepBlocks = blocksAtTime.filter((block) => block.blockType === 'sleep');
-        if (sleepBlocks.length > 0 && children.length > 0) {
-          const allChildrenAsleep = children.every((child) =>
-            sleepBlocks.some((block) => block.childIds.includes(child.id))
+        const sorted = [...boundaries].filter((m) => m >= 0 && m < 24 * 60).sort((a, b) => a - b);
+
+        const dateStr = format(date, 'yyyy-MM-dd');
+        const windows: AvailabilityWindow[] = [];
+        sorted.forEach((startMinutes, i) => {
+          const time = minutesToTime(startMinutes);
+          const blocksAtTime = get().getActiveBlocksAt(date, time);
+          const state = getAvailabilityFromBlocks(
+            blocksAtTime,
+            time,
+            getPlannedChildStatuses(blocksAtTime, sleepBlocksOnDate, predictions, time)
           );
-          if (allChildrenAsleep) {
-            return 'quiet';
+          const endMinutes = sorted[i + 1] ?? 24 * 60;
+          const last = windows[windows.length - 1];
+          if (last && last.state === state) {
+            last.end = minutesToTime(endMinutes);
+            last.endMinutes = endMinutes;
+            last.durationMinutes = endMinutes - last.startMinutes;
+          } else {
+            windows.push({
+              state,
+              date: dateStr,
+              start: time,
+              end: minutesToTime(endMinutes),
+              startMinutes,
+              endMinutes,
+              durationMinutes: endMinutes - startMinutes,
+            });
           }
-        }
+        });
+        return windows;
+      },
 
-        return 'parenting';
+      getChildrenAsleepNow: () => {
+        return Object.entries(get().getChildStatusesNow())
+          .filter(([, status]) => status === 'asleep')
+          .map(([childId]) => childId);
       },
 
       getLeaveByTime: (block) => {
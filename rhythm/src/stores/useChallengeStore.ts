@@ -4,6 +4,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { format } from 'date-fns';
 import { useGardenStore, PLOT_COLS, PLOT_ROW, getCurrentSeason } from './useGardenStore';
 import { useTaskStore } from './useTaskStore';
+import { useActivityStore } from './useActivityStore';
 import { useSettingsStore, getChallengeWitherLevel } from './useSettingsStore';
 import type { ChallengeTemplate, ActiveChallenge, GrowthStage, Season } from '../types';
 
@@ -220,6 +221,12 @@ export const useChallengeStore = create<ChallengeState>()(
             : {}),
         }));
 
+        useActivityStore.getState().logActivity({
+          type: 'challenge-planted',
+          label: `Planted ${template.title}`,
+          refId: id,
+        });
+
         return id;
       },
 
@@ -284,6 +291,14 @@ export const useChallengeStore = create<ChallengeState>()(
             : s.completedChallengeIds,
         }));
 
+        if (isBlooming) {
+          useActivityStore.getState().logActivity({
+            type: 'challenge-bloomed',
+            label: `${template.title} bloomed`,
+            refId: challengeId,
+          });
+        }
+
         return isBlooming ? 'bloomed' : 'progressed';
       },
 
@@ -69,7 +69,9 @@ export const useChildStore = create<ChildState>()(
       updateCareStatus: (childId, status) => {
         set((state) => ({
           children: state.children.map((child) =>
-            child.id === childId ? { ...child, careStatus: status } : child
+            child.id === childId
+              ? { ...child, careStatus: status, careStatusUpdatedAt: new Date().toISOString() }
+              : child
           ),
         }));
       },
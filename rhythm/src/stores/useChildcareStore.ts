@@ -1,8 +1,8 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
-import { getDay } from 'date-fns';
 import type { ChildcareSchedule } from '../types';
+import { doesChildcareScheduleOccurOnDate, findOccurrenceAt, getCurrentTimeString, getSpanMinutes } from '../utils/scheduling';
 
 interface ChildcareState {
   schedules: ChildcareSchedule[];
@@ -17,29 +17,6 @@ interface ChildcareState {
   isChildCurrentlyScheduledAway: (childId: string) => boolean;
 }
 
-/**
- * Check if a time string (HH:mm) is between two other time strings
- */
-function isTimeBetween(current: string, start: string, end: string): boolean {
-  const [currentH, currentM] = current.split(':').map(Number);
-  const [startH, startM] = start.split(':').map(Number);
-  const [endH, endM] = end.split(':').map(Number);
-
-  const currentMins = currentH * 60 + currentM;
-  const startMins = startH * 60 + startM;
-  const endMins = endH * 60 + endM;
-
-  return currentMins >= startMins && currentMins < endMins;
-}
-
-/**
- * Get current time as HH:mm string
- */
-function getCurrentTimeString(): string {
-  const now = new Date();
-  return `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
-}
-
 export const useChildcareStore = create<ChildcareState>()(
   persist(
     (set, get) => ({
@@ -83,9 +60,8 @@ export const useChildcareStore = create<ChildcareState>()(
       },
 
       getActiveSchedulesForDate: (childId, date) => {
-        const dayOfWeek = getDay(date); // 0 = Sunday
         return get().schedules.filter(
-          (s) => s.childId === childId && s.isActive && s.daysOfWeek.includes(dayOfWeek)
+          (s) => s.childId === childId && doesChildcareScheduleOccurOnDate(s, date)
         );
       },
 
@@ -96,12 +72,16 @@ export const useChildcareStore = create<ChildcareState>()(
 
       isChildCurrentlyScheduledAway: (childId) => {
         const now = new Date();
-        const activeSchedules = get().getActiveSchedulesForDate(childId, now);
-        if (activeSchedules.length === 0) return false;
-
-        const currentTime = getCurrentTimeString();
-        return activeSchedules.some((s) =>
-          isTimeBetween(currentTime, s.dropoffTime, s.pickupTime)
+        const currentTime = getCurrentTimeString(now);
+        // Overnight schedules started yesterday can still be running
+        return get().getSchedulesForChild(childId).some((s) =>
+          findOccurrenceAt(
+            (date) => doesChildcareScheduleOccurOnDate(s, date)
+              ? getSpanMinutes(s.dropoffTime, s.pickupTime)
+              : null,
+            now,
+            currentTime
+          ) !== null
         );
       },
     }),
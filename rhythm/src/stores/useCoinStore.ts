@@ -1,6 +1,15 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { format } from 'date-fns';
+import { useActivityStore } from './useActivityStore';
+
+function logCoins(type: 'coins-earned' | 'coins-spent', amount: number) {
+  useActivityStore.getState().logActivity({
+    type,
+    label: `${type === 'coins-earned' ? 'Earned' : 'Spent'} ${amount} coin${amount === 1 ? '' : 's'}`,
+    amount,
+  });
+}
 
 interface CoinState {
   coins: number;
@@ -11,6 +20,10 @@ interface CoinState {
   spendCoins: (amount: number) => boolean;
   earnDailyBonus: () => void;
   clearPendingBonus: () => void;
+  /** Take back coins from an undone action (not logged as spending) */
+  revokeCoins: (amount: number) => void;
+  revokeDailyBonus: (previousBonusDate: string | null) => void;
+  clearCoins: () => void;
 }
 
 export const useCoinStore = create<CoinState>()(
@@ -19,11 +32,15 @@ export const useCoinStore = create<CoinState>()(
       coins: 0,
       bonusEarnedDate: null,
       pendingBonus: false,
-      earnCoin: () => set((state) => ({ coins: state.coins + 1 })),
-      addCoins: (amount) => set((state) => ({ coins: state.coins + amount })),
+      earnCoin: () => get().addCoins(1),
+      addCoins: (amount) => {
+        set((state) => ({ coins: state.coins + amount }));
+        logCoins('coins-earned', amount);
+      },
       spendCoins: (amount) => {
         if (get().coins < amount) return false;
         set((state) => ({ coins: state.coins - amount }));
+        logCoins('coins-spent', amount);
         return true;
       },
       earnDailyBonus: () => {
@@ -34,8 +51,12 @@ export const useCoinStore = create<CoinState>()(
           bonusEarnedDate: today,
           pendingBonus: true,
         }));
+        logCoins('coins-earned', 3);
       },
       clearPendingBonus: () => set({ pendingBonus: false }),
+      revokeCoins: (amount) => set((state) => ({ coins: Math.max(0, state.coins - amount) })),
+      revokeDailyBonus: (previousBonusDate) => set({ bonusEarnedDate: previousBonusDate, pendingBonus: false }),
+      clearCoins: () => set({ coins: 0, bonusEarnedDate: null, pendingBonus: false }),
     }),
     { name: 'rhythm_coins' }
   )
@@ -0,0 +1,94 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { v4 as uuidv4 } from 'uuid';
+import type { DayTier, DayTierCriterion } from '../types';
+import { DAY_TIERS, isTierAtLeast } from '../utils/dayTiers';
+import { useGardenStore, DAY_TIER_FLOWERS } from './useGardenStore';
+
+const DEFAULT_CRITERIA: Omit<DayTierCriterion, 'id'>[] = [
+  // Good Enough — everyone fed and the basics kept up
+  { tier: 'good-enough', label: 'Meals', categories: ['meals'], keywords: ['breakfast', 'lunch', 'dinner', 'supper'], count: 2 },
+  { tier: 'good-enough', label: 'Basics', categories: ['kitchen', 'tidying'], count: 1 },
+  // Great — plus chores and routines
+  { tier: 'great', label: 'Chores', categories: ['laundry', 'cleaning', 'errands'], count: 2 },
+  { tier: 'great', label: 'Routines', categories: [], taskTier: 'routine', count: 3 },
+  // Epic — plus something for you and the kids
+  { tier: 'epic', label: 'Self-care', categories: ['self-care'], count: 1 },
+  { tier: 'epic', label: 'Kids activity', categories: ['kids'], count: 1 },
+  { tier: 'epic', label: 'Exercise', categories: [], keywords: ['exercise', 'walk', 'run', 'workout', 'yoga', 'stretch', 'gym'], count: 1 },
+];
+
+function defaultCriteria(): DayTierCriterion[] {
+  return DEFAULT_CRITERIA.map((criterion) => ({ ...criterion, id: uuidv4() }));
+}
+
+interface DayTierState {
+  criteria: DayTierCriterion[];
+  history: Record<string, DayTier>; // 'yyyy-MM-dd' → tier reached that day
+  // Flowers earned for the last day recorded, so an undo can take them back
+  awards: { date: string; flowerIds: Partial<Record<DayTier, string>> } | null;
+
+  addCriterion: (tier: DayTier) => void;
+  updateCriterion: (id: string, updates: Partial<Omit<DayTierCriterion, 'id'>>) => void;
+  removeCriterion: (id: string) => void;
+  resetCriteria: () => void;
+  /**
+   * Record the tier a day has reached, earning a flower for each new tier.
+   * A lower tier, as after an undo, takes back the flowers for tiers lost.
+   */
+  recordDayTier: (date: string, tier: DayTier | null) => void;
+  clearHistory: () => void;
+}
+
+export const useDayTierStore = create<DayTierState>()(
+  persist(
+    (set, get) => ({
+      criteria: defaultCriteria(),
+      history: {},
+      awards: null,
+
+      addCriterion: (tier) => {
+        set((state) => ({
+          criteria: [...state.criteria, { id: uuidv4(), tier, label: 'New requirement', categories: [], count: 1 }],
+        }));
+      },
+
+      updateCriterion: (id, updates) => {
+        set((state) => ({
+          criteria: state.criteria.map((c) => (c.id === id ? { ...c, ...updates } : c)),
+        }));
+      },
+
+      removeCriterion: (id) => {
+        set((state) => ({ criteria: state.criteria.filter((c) => c.id !== id) }));
+      },
+
+      resetCriteria: () => set({ criteria: defaultCriteria() }),
+
+      recordDayTier: (date, tier) => {
+        const { history, awards } = get();
+        const previous = history[date] ?? null;
+        if (previous === tier) return;
+
+        const gardenStore = useGardenStore.getState();
+        const flowerIds = awards?.date === date ? { ...awards.flowerIds } : {};
+        for (const t of DAY_TIERS) {
+          if (isTierAtLeast(tier, t) && !isTierAtLeast(previous, t)) {
+            flowerIds[t] = gardenStore.earnFlower(DAY_TIER_FLOWERS[t]);
+          } else if (isTierAtLeast(previous, t) && !isTierAtLeast(tier, t)) {
+            if (flowerIds[t]) gardenStore.revokeFlower(flowerIds[t]);
+            delete flowerIds[t];
+          }
+        }
+
+        const nextHistory = { ...history };
+        if (tier) nextHistory[date] = tier;
+        else delete nextHistory[date];
+        set({ history: nextHistory, awards: { date, flowerIds } });
+      },
+
+      clearHistory: () => set({ history: {}, awards: null }),
+    }),
+    { name: 'rhythm_day_tiers' }
+  )
+);
@@ -5,6 +5,7 @@ interface DecorationState {
   owned: Record<string, number>; // decorationId → count
   buyDecoration: (id: string) => void;
   getCount: (id: string) => number;
+  clearDecorations: () => void;
 }
 
 export const useDecorationStore = create<DecorationState>()(
@@ -19,6 +20,8 @@ export const useDecorationStore = create<DecorationState>()(
       },
 
       getCount: (id) => get().owned[id] ?? 0,
+
+      clearDecorations: () => set({ owned: {} }),
     }),
     { name: 'rhythm_decorations' }
   )
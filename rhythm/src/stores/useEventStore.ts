@@ -1,6 +1,13 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { format } from 'date-fns';
+import { format, subDays } from 'date-fns';
+
+// Long enough for chains like "2 days after Thaw chicken", with time left to
+// do a task that came due after the longest delay
+const EVENT_RETENTION_DAYS = 30;
+
+// The longest a triggered task may wait after its event
+export const MAX_TRIGGER_DELAY_MINUTES = 14 * 24 * 60;
 
 interface RhythmEvent {
   key: string;       // e.g. 'nap-end', 'nap-end:CHILD_ID', 'task-complete:TASK_ID'
@@ -9,74 +16,94 @@ interface RhythmEvent {
 }
 
 interface EventState {
-  todaysEvents: RhythmEvent[];
+  events: RhythmEvent[];
 
-  emitEvent: (eventKey: string) => void;
-  hasEventFired: (eventKey: string) => boolean;
+  /** Record an event (at `at`, if it happened earlier), returning its timestamp */
+  emitEvent: (eventKey: string, at?: Date) => string;
+  retractEvent: (eventKey: string, timestamp: string) => void;
+  hasEventFired: (eventKey: string, date?: string) => boolean; // on `date`, today by default
   getEventTimestamp: (eventKey: string) => string | null;
+  getEventFirings: (eventKey: string, since: Date) => string[];
   clearEventsForDate: (date: string) => void;
-  ensureTodayClean: () => void;
+  pruneOldEvents: () => void;
 }
 
 export const useEventStore = create<EventState>()(
   persist(
     (set, get) => ({
-      todaysEvents: [],
+      events: [],
 
-      emitEvent: (eventKey) => {
-        const now = new Date();
-        const today = format(now, 'yyyy-MM-dd');
-
-        // Clean stale events from previous days
-        get().ensureTodayClean();
+      emitEvent: (eventKey, at = new Date()) => {
+        // Drop events too old for any chain to use
+        get().pruneOldEvents();
 
         const event: RhythmEvent = {
           key: eventKey,
-          timestamp: now.toISOString(),
-          date: today,
+          timestamp: at.toISOString(),
+          date: format(at, 'yyyy-MM-dd'),
         };
 
         set((state) => ({
-          todaysEvents: [...state.todaysEvents, event],
+          events: [...state.events, event],
         }));
+        return event.timestamp;
       },
 
-      hasEventFired: (eventKey) => {
-        const today = format(new Date(), 'yyyy-MM-dd');
-        return get().todaysEvents.some(
-          (e) => e.date === today && e.key === eventKey
+      // Remove one firing, e.g. when the completion that emitted it is undone
+      retractEvent: (eventKey, timestamp) => {
+        set((state) => ({
+          events: state.events.filter((e) => e.key !== eventKey || e.timestamp !== timestamp),
+        }));
+      },
+
+      hasEventFired: (eventKey, date = format(new Date(), 'yyyy-MM-dd')) => {
+        return get().events.some(
+          (e) => e.date === date && e.key === eventKey
         );
       },
 
       getEventTimestamp: (eventKey) => {
         const today = format(new Date(), 'yyyy-MM-dd');
-        const event = get().todaysEvents.find(
+        const event = get().events.find(
           (e) => e.date === today && e.key === eventKey
         );
         return event?.timestamp ?? null;
       },
 
+      getEventFirings: (eventKey, since) => {
+        const sinceIso = since.toISOString();
+        return get().events
+          .filter((e) => e.key === eventKey && e.timestamp >= sinceIso)
+          .map((e) => e.timestamp);
+      },
+
       clearEventsForDate: (date) => {
         set((state) => ({
-          todaysEvents: state.todaysEvents.filter((e) => e.date !== date),
+          events: state.events.filter((e) => e.date !== date),
         }));
       },
 
-      ensureTodayClean: () => {
-        const today = format(new Date(), 'yyyy-MM-dd');
-        const { todaysEvents } = get();
-        // Keep only today's events and yesterday's (for trigger delays that span midnight)
-        const yesterday = format(new Date(Date.now() - 86400000), 'yyyy-MM-dd');
-        const filtered = todaysEvents.filter(
-          (e) => e.date === today || e.date === yesterday
-        );
-        if (filtered.length !== todaysEvents.length) {
-          set({ todaysEvents: filtered });
+      pruneOldEvents: () => {
+        const { events } = get();
+        const cutoff = format(subDays(new Date(), EVENT_RETENTION_DAYS), 'yyyy-MM-dd');
+        const filtered = events.filter((e) => e.date >= cutoff);
+        if (filtered.length !== events.length) {
+          set({ events: filtered });
         }
       },
     }),
     {
       name: 'rhythm_events',
+      version: 1,
+      migrate: (persisted: unknown, version: number) => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const state = persisted as any;
+        if (version < 1) {
+          // todaysEvents → events (no longer only today's)
+          return { events: state?.todaysEvents ?? [] };
+        }
+        return state;
+      },
     }
   )
 );
@@ -2,8 +2,9 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
 import { format } from 'date-fns';
-import type { Flower, FlowerType, Season, Garden } from '../types';
+import type { DayTier, Flower, FlowerType, Season, Garden } from '../types';
 import { DECOR_CATALOG } from '../data/decorations';
+import { useActivityStore } from './useActivityStore';
 
 // Your sprite sheets — add new ones here and add an entry to FLOWER_CATALOG below
 import snowdropSheet from '../assets/flowers/sheets/0_winter/snowdrop.png';
@@ -62,6 +63,7 @@ export const FLOWER_CATALOG: Record<FlowerType, {
   sheetBloomFrame?: number;
   sheetFrameCount?: number;
   season: Season;
+  dayTier?: DayTier; // reward for reaching this day tier — grows all year, not sold
 }> = {
   // Winter
   'daily-daisy':        { ...sheet(snowdropSheet,    'Snowdrop',     '❄️'), season: 'winter' },
@@ -77,8 +79,25 @@ export const FLOWER_CATALOG: Record<FlowerType, {
   'poppy':              { ...sheet6(poppySheet,       'Poppy',         '🌺'), season: 'spring' },
   'hibiscus':           { ...sheet6(hibiscusSheet,    'Hibiscus',      '🌸'), season: 'spring' },
   'pansy':              { ...sheet6(pansySheet,       'Pansy',         '🌸'), season: 'spring' },
+  // Day tier rewards
+  'enough-primula':     { ...sheet6(primulaSheet,     'Good Enough Primula', '🌼'), season: 'spring', dayTier: 'good-enough' },
+  'great-tulip':        { ...sheet6(pinktulipSheet,   'Great Tulip',         '🌷'), season: 'spring', dayTier: 'great' },
+  'epic-hibiscus':      { ...sheet6(hibiscusSheet,    'Epic Hibiscus',       '🌺'), season: 'spring', dayTier: 'epic' },
 };
 
+/** The flower awarded for reaching each day tier */
+export const DAY_TIER_FLOWERS: Record<DayTier, FlowerType> = {
+  'good-enough': 'enough-primula',
+  'great': 'great-tulip',
+  'epic': 'epic-hibiscus',
+};
+
+/** Whether a flower can be planted this season (day tier rewards always can) */
+export function isPlantableInSeason(type: FlowerType, season: Season): boolean {
+  const info = FLOWER_CATALOG[type];
+  return info.season === season || info.dayTier !== undefined;
+}
+
 // ===========================================
 // TYPES
 // ===========================================
@@ -160,6 +179,8 @@ interface GardenState extends Garden {
 
   // Earning flowers
   earnFlower: (type: FlowerType, challengeId?: string, sprite?: string) => string;
+  /** Take back an earned flower, wherever it's planted */
+  revokeFlower: (flowerId: string) => void;
   getFlowersForDate: (date: string) => Flower[];
   getTotalFlowers: () => number;
   getFlowersByType: (type: FlowerType) => Flower[];
@@ -173,7 +194,8 @@ interface GardenState extends Garden {
   setMode: (mode: GardenMode) => void;
   placeFlower: (col: number, row: number) => boolean;
   autoPlaceFlower: (flowerId: string, flowerType: FlowerType, col: number, row: number) => void;
-  tickAllFlowers: () => void;
+  tickAllFlowers: () => string[];
+  untickFlowers: (flowerIds: string[]) => void;
   bloomAllFlowers: () => void;
   removeFlowerFromGrid: (placedId: string) => void;
   moveFlower: (placedId: string, newCol: number, newRow: number) => boolean;
@@ -229,9 +251,26 @@ export const useGardenStore = create<GardenState>()(
           currentSeason: getCurrentSeason(),
         }));
 
+        useActivityStore.getState().logActivity({
+          type: 'flower-earned',
+          label: `Earned a ${FLOWER_CATALOG[type].label.toLowerCase()}`,
+          refId: id,
+        });
+
         return id;
       },
 
+      revokeFlower: (flowerId) => {
+        set((state) => ({
+          flowers: state.flowers.filter((f) => f.id !== flowerId),
+          placedFlowers: state.placedFlowers.filter((pf) => pf.flowerId !== flowerId),
+        }));
+
+        const activityStore = useActivityStore.getState();
+        const earned = activityStore.entries.find((e) => e.type === 'flower-earned' && e.refId === flowerId);
+        if (earned) activityStore.markUndone(earned.id);
+      },
+
       getFlowersForDate: (date) => {
         return get().flowers.filter((flower) => flower.earnedDate === date);
       },
@@ -351,6 +390,7 @@ export const useGardenStore = create<GardenState>()(
         });
       },
 
+      // Returns the IDs of the flowers that grew, so the tick can be undone
       tickAllFlowers: () => {
         const placedFlowerIds = new Set(get().placedFlowers.map((pf) => pf.flowerId));
         set((state) => ({
@@ -360,6 +400,18 @@ export const useGardenStore = create<GardenState>()(
               : f
           ),
         }));
+        return get().flowers.filter((f) => placedFlowerIds.has(f.id)).map((f) => f.id);
+      },
+
+      untickFlowers: (flowerIds) => {
+        const ids = new Set(flowerIds);
+        set((state) => ({
+          flowers: state.flowers.map((f) =>
+            ids.has(f.id)
+              ? { ...f, growthTicks: Math.max(0, (f.growthTicks ?? 0) - 1) }
+              : f
+          ),
+        }));
       },
 
       bloomAllFlowers: () => {
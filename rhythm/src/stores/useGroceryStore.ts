@@ -0,0 +1,176 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { v4 as uuidv4 } from 'uuid';
+import { addDays, format } from 'date-fns';
+import type { GroceryItem, GrocerySection } from '../types';
+import { aggregateIngredients, guessSection, ingredientKey, parseIngredient } from '../utils/groceries';
+import { useMealStore } from './useMealStore';
+import { useTaskStore } from './useTaskStore';
+import { useCareBlockStore } from './useCareBlockStore';
+import { usePantryStore } from './usePantryStore';
+
+export const GROCERY_RUN_TITLE = 'Grocery run';
+
+// How far ahead to look for a free window for the grocery run
+const GROCERY_RUN_LOOKAHEAD_DAYS = 7;
+
+interface GroceryState {
+  items: GroceryItem[];
+  generatedFor: string[] | null; // the planned dates the list was last built from
+
+  /** Rebuild the planned part of the list, keeping hand-added items and what's already ticked */
+  generateFromPlan: (dates: string[]) => void;
+  addItem: (name: string, section?: GrocerySection) => void;
+  toggleItem: (id: string) => void;
+  updateItem: (id: string, updates: Partial<Omit<GroceryItem, 'id'>>) => void;
+  removeItem: (id: string) => void;
+  clearChecked: () => void;
+  /** Put pantry staples that are running low on the list, if they aren't already */
+  addLowStaples: () => void;
+  /** Build the list for the planned dates and put a grocery run in the next free window */
+  finishMealPlan: (dates: string[]) => void;
+  clearGroceries: () => void;
+}
+
+/**
+ * Find the next free window from now and add a "Grocery run" to-do there,
+ * unless one is already waiting (today, later, or in the seeds tray)
+ */
+function scheduleGroceryRun() {
+  const taskStore = useTaskStore.getState();
+  const now = new Date();
+  const today = format(now, 'yyyy-MM-dd');
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  const hasOpenRun = taskStore.tasks.some((task) =>
+    task.title === GROCERY_RUN_TITLE && task.isActive &&
+    taskStore.taskInstances.some((i) =>
+      i.taskId === task.id && ((i.status === 'pending' && i.date >= today) || i.status === 'deferred')
+    )
+  );
+  if (hasOpenRun) return;
+
+  const { getAvailabilityWindows } = useCareBlockStore.getState();
+  for (let offset = 0; offset < GROCERY_RUN_LOOKAHEAD_DAYS; offset++) {
+    const date = addDays(now, offset);
+    const window = getAvailabilityWindows(date).find(
+      (w) => w.state === 'free' && (offset > 0 || w.endMinutes > nowMinutes)
+    );
+    if (!window) continue;
+    const start = offset === 0 && window.startMinutes < nowMinutes ? format(now, 'HH:mm') : window.start;
+    taskStore.addSeed(GROCERY_RUN_TITLE, 'any', 'errands', ['free'], start, window.date);
+    return;
+  }
+
+  // No free window this week: leave it in the seeds tray
+  taskStore.addSeed(GROCERY_RUN_TITLE, 'any', 'errands', ['free']);
+}
+
+export const useGroceryStore = create<GroceryState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+      generatedFor: null,
+
+      generateFromPlan: (dates) => {
+        const { mealPlan, recipes } = useMealStore.getState();
+        const recipeById = new Map(recipes.map((r) => [r.id, r]));
+        const lines = dates.flatMap((date) =>
+          Object.values(mealPlan[date] ?? {}).flatMap((meal) =>
+            meal?.recipeId ? recipeById.get(meal.recipeId)?.ingredients ?? [] : []
+          )
+        );
+
+        set((state) => {
+          const wasChecked = new Set(
+            state.items.filter((i) => i.checked && !i.isManual).map((i) => ingredientKey(i.name, i.unit))
+          );
+          const planned = aggregateIngredients(lines).map((ingredient) => ({
+            ...ingredient,
+            id: uuidv4(),
+            checked: wasChecked.has(ingredientKey(ingredient.name, ingredient.unit)),
+            isManual: false,
+          }));
+          return {
+            items: [...planned, ...state.items.filter((i) => i.isManual)],
+            generatedFor: dates,
+          };
+        });
+        get().addLowStaples();
+      },
+
+      addItem: (name, section) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        const item: GroceryItem = {
+          id: uuidv4(),
+          name: trimmed,
+          quantity: null,
+          unit: null,
+          section: section ?? guessSection(trimmed),
+          checked: false,
+          isManual: true,
+        };
+        set((state) => ({ items: [...state.items, item] }));
+      },
+
+      // Ticking something off puts it in the pantry; unticking takes it back out
+      toggleItem: (id) => {
+        const item = get().items.find((i) => i.id === id);
+        if (!item) return;
+        set((state) => ({
+          items: state.items.map((i) => (i.id === id ? { ...i, checked: !i.checked } : i)),
+        }));
+        // Hand-typed items keep the whole line as their name
+        const { name, quantity, unit } = item.isManual && item.quantity === null ? parseIngredient(item.name) : item;
+        const amount = quantity ?? 1;
+        usePantryStore.getState().adjustStock(name, unit, item.checked ? -amount : amount);
+      },
+
+      updateItem: (id, updates) => {
+        set((state) => ({
+          items: state.items.map((i) => (i.id === id ? { ...i, ...updates } : i)),
+        }));
+      },
+
+      removeItem: (id) => {
+        set((state) => ({ items: state.items.filter((i) => i.id !== id) }));
+      },
+
+      clearChecked: () => {
+        set((state) => ({ items: state.items.filter((i) => !i.checked) }));
+      },
+
+      // Staples stay on the list like hand-added items, so rebuilding keeps them
+      addLowStaples: () => {
+        const onList = new Set(get().items.map((i) => ingredientKey(i.name, null)));
+        const missing = usePantryStore.getState().getLowStaples()
+          .filter((staple) => !onList.has(ingredientKey(staple.name, null)));
+        if (missing.length === 0) return;
+
+        set((state) => ({
+          items: [
+            ...state.items,
+            ...missing.map((staple) => ({
+              id: uuidv4(),
+              name: staple.name,
+              quantity: staple.unit ? 1 : null,
+              unit: staple.unit,
+              section: guessSection(staple.name),
+              checked: false,
+              isManual: true,
+            })),
+          ],
+        }));
+      },
+
+      finishMealPlan: (dates) => {
+        get().generateFromPlan(dates);
+        if (get().items.some((i) => !i.checked)) scheduleGroceryRun();
+      },
+
+      clearGroceries: () => set({ items: [], generatedFor: null }),
+    }),
+    { name: 'rhythm_groceries' }
+  )
+);
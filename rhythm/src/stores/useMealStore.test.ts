@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('legacy planned meals', () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    vi.resetModules();
+    storage = new Map([
+      ['rhythm_tasks', JSON.stringify({
+        version: 7,
+        state: {
+          tasks: [{
+            id: 'dinner', type: 'meal', mealType: 'dinner', title: 'Dinner', tier: 'fixed-schedule', scheduledTime: '18:00',
+            recurrence: 'daily', napContext: null, isActive: true, category: 'meals',
+            plannedMeals: { '2026-01-05': 'Tacos' },
+          }],
+          taskInstances: [],
+        },
+      })],
+    ]);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+  });
+
+  it('moves them into the saved meal plan before taking them off the tasks', async () => {
+    await import('./useMealStore');
+
+    const meals = JSON.parse(storage.get('rhythm_meals')!);
+    expect(meals.state.mealPlan).toEqual({ '2026-01-05': { dinner: { title: 'Tacos', recipeId: null } } });
+    const tasks = JSON.parse(storage.get('rhythm_tasks')!);
+    expect(tasks.state.tasks[0].plannedMeals).toBeUndefined();
+  });
+
+  it('keeps them through a reload', async () => {
+    await import('./useMealStore');
+    vi.resetModules();
+    const { useMealStore } = await import('./useMealStore');
+
+    expect(useMealStore.getState().mealPlan['2026-01-05']?.dinner?.title).toBe('Tacos');
+  });
+});
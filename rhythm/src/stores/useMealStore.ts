@@ -0,0 +1,152 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { v4 as uuidv4 } from 'uuid';
+import { addDays, format, parseISO } from 'date-fns';
+import type { MealPlan, MealType, PlannedMeal, Recipe } from '../types';
+import { DEFAULT_MEAL_TIMES, mergeLegacyPlannedMeals, planMealPrep } from '../utils/mealPrep';
+import { useTaskStore } from './useTaskStore';
+
+export const RECIPE_TAG_SUGGESTIONS = ['freezer-friendly', 'kid-approved', 'quick', 'one-pot', 'make-ahead', 'vegetarian'];
+
+interface MealState {
+  recipes: Recipe[];
+  mealPlan: MealPlan;
+
+  // Recipe library
+  addRecipe: (recipe: Omit<Recipe, 'id'>) => string;
+  updateRecipe: (id: string, updates: Partial<Omit<Recipe, 'id'>>) => void;
+  deleteRecipe: (id: string) => void;
+
+  // Weekly plan
+  setPlannedMeal: (date: string, mealType: MealType, meal: PlannedMeal | null) => void;
+  planRecipe: (date: string, mealType: MealType, recipeId: string) => void;
+  /** Copy the previous week's meals into any empty slots of the week starting `weekStart` */
+  repeatPreviousWeek: (weekStart: string) => void;
+  getPlannedMeal: (date: string, mealType: MealType) => PlannedMeal | undefined;
+  clearMeals: () => void;
+
+  /** Bring the prep tasks for upcoming planned recipes in line with the plan */
+  syncPrepTasks: () => void;
+}
+
+/** When a meal is eaten: its scheduled meal task's time, or a sensible default */
+function getMealTime(mealType: MealType): string {
+  const mealTask = useTaskStore.getState().tasks.find(
+    (t) => t.type === 'meal' && t.mealType === mealType && t.isActive && t.scheduledTime
+  );
+  return mealTask?.scheduledTime ?? DEFAULT_MEAL_TIMES[mealType];
+}
+
+export const useMealStore = create<MealState>()(
+  persist(
+    (set, get) => ({
+      recipes: [],
+      mealPlan: {},
+
+      addRecipe: (recipe) => {
+        const id = uuidv4();
+        set((state) => ({ recipes: [...state.recipes, { ...recipe, id }] }));
+        return id;
+      },
+
+      updateRecipe: (id, updates) => {
+        set((state) => ({
+          recipes: state.recipes.map((r) => (r.id === id ? { ...r, ...updates } : r)),
+        }));
+        get().syncPrepTasks();
+      },
+
+      // Planned meals keep their title but lose the link
+      deleteRecipe: (id) => {
+        set((state) => ({
+          recipes: state.recipes.filter((r) => r.id !== id),
+          mealPlan: Object.fromEntries(
+            Object.entries(state.mealPlan).map(([date, meals]) => [
+              date,
+              Object.fromEntries(
+                Object.entries(meals).map(([mealType, meal]) => [
+                  mealType,
+                  meal?.recipeId === id ? { ...meal, recipeId: null } : meal,
+                ])
+              ),
+            ])
+          ),
+        }));
+        get().syncPrepTasks();
+      },
+
+      setPlannedMeal: (date, mealType, meal) => {
+        set((state) => {
+          const day = { ...state.mealPlan[date] };
+          if (meal && meal.title.trim()) {
+            day[mealType] = { ...meal, title: meal.title.trim() };
+          } else {
+            delete day[mealType];
+          }
+          return { mealPlan: { ...state.mealPlan, [date]: day } };
+        });
+        get().syncPrepTasks();
+      },
+
+      planRecipe: (date, mealType, recipeId) => {
+        const recipe = get().recipes.find((r) => r.id === recipeId);
+        if (!recipe) return;
+        get().setPlannedMeal(date, mealType, { title: recipe.title, recipeId });
+      },
+
+      repeatPreviousWeek: (weekStart) => {
+        const start = parseISO(weekStart);
+        set((state) => {
+          const mealPlan = { ...state.mealPlan };
+          for (let i = 0; i < 7; i++) {
+            const date = format(addDays(start, i), 'yyyy-MM-dd');
+            const previous = state.mealPlan[format(addDays(start, i - 7), 'yyyy-MM-dd')];
+            if (!previous) continue;
+            mealPlan[date] = { ...previous, ...mealPlan[date] };
+          }
+          return { mealPlan };
+        });
+        get().syncPrepTasks();
+      },
+
+      getPlannedMeal: (date, mealType) => {
+        return get().mealPlan[date]?.[mealType];
+      },
+
+      clearMeals: () => {
+        set({ recipes: [], mealPlan: {} });
+        get().syncPrepTasks();
+      },
+
+      syncPrepTasks: () => {
+        const today = format(new Date(), 'yyyy-MM-dd');
+        const { mealPlan, recipes } = get();
+        useTaskStore.getState().syncMealPrepTasks(planMealPrep(mealPlan, recipes, getMealTime, today), today);
+      },
+    }),
+    { name: 'rhythm_meals' }
+  )
+);
+
+/**
+ * Move what meal tasks used to note for each date into the meal plan. The
+ * plan is saved first, and only then do the tasks let go of them.
+ */
+function adoptLegacyPlannedMeals() {
+  const { tasks } = useTaskStore.getState();
+  if (!tasks.some((t) => t.type === 'meal' && t.plannedMeals)) return;
+
+  useMealStore.setState((state) => ({ mealPlan: mergeLegacyPlannedMeals(state.mealPlan, tasks) }));
+  useTaskStore.setState((state) => ({
+    tasks: state.tasks.map((t) => {
+      if (t.type !== 'meal' || !t.plannedMeals) return t;
+      const rest = { ...t };
+      delete rest.plannedMeals;
+      return rest;
+    }),
+  }));
+}
+
+// Once on load, and again whenever a restored backup reloads the plan
+adoptLegacyPlannedMeals();
+useMealStore.persist.onFinishHydration(adoptLegacyPlannedMeals);
@@ -0,0 +1,177 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { v4 as uuidv4 } from 'uuid';
+import { format, parseISO } from 'date-fns';
+import type { NapDayPrediction, NapLog, SleepType } from '../types';
+import { predictNapDay } from '../utils/napPrediction';
+import { useChildStore } from './useChildStore';
+import { useAwayStore } from './useAwayStore';
+import { useEventStore } from './useEventStore';
+import { useActivityStore } from './useActivityStore';
+
+interface NapState {
+  napLogs: NapLog[];
+  dismissedTransitions: Record<string, string>; // childId → YYYY-MM-DD the nap transition prompt was dismissed
+
+  // Sleep log actions
+  startSleep: (childId: string, sleepType?: SleepType) => string;
+  endSleep: (childId: string) => void;
+  updateSleepLog: (logId: string, updates: Partial<Pick<NapLog, 'startedAt' | 'endedAt' | 'sleepType'>>) => void;
+  deleteSleepLog: (logId: string) => void;
+  clearSleepLogs: () => void;
+  replaceSleepLogs: (napLogs: NapLog[]) => void;
+  dismissNapTransition: (childId: string) => void;
+
+  // Query methods
+  getSleepLogsForDate: (date: string) => NapLog[];
+  getActiveSleepForChild: (childId: string) => NapLog | undefined;
+  isChildAsleep: (childId: string) => boolean;
+  getLoggedSleepState: (childId: string, since: Date) => 'asleep' | 'awake' | null;
+  getPrediction: (childId: string, date?: Date) => NapDayPrediction | null;
+}
+
+export const useNapStore = create<NapState>()(
+  persist(
+    (set, get) => ({
+      napLogs: [],
+      dismissedTransitions: {},
+
+      startSleep: (childId, sleepType = 'nap') => {
+        // Already asleep — keep the running log
+        const active = get().getActiveSleepForChild(childId);
+        if (active) return active.id;
+
+        const now = new Date();
+        const id = uuidv4();
+        const newLog: NapLog = {
+          id,
+          childId,
+          date: format(now, 'yyyy-MM-dd'),
+          startedAt: now.toISOString(),
+          endedAt: null,
+          sleepType,
+        };
+        set((state) => ({
+          napLogs: [...state.napLogs, newLog],
+        }));
+
+        useChildStore.getState().updateCareStatus(childId, 'asleep');
+
+        useActivityStore.getState().logActivity({
+          type: 'sleep-start',
+          label: `${useChildStore.getState().getChild(childId)?.name} fell asleep${sleepType === 'night' ? ' for the night' : ''}`,
+          refId: id,
+          childId,
+        });
+
+        return id;
+      },
+
+      endSleep: (childId) => {
+        const active = get().getActiveSleepForChild(childId);
+        if (!active) return;
+
+        const now = new Date().toISOString();
+        set((state) => ({
+          napLogs: state.napLogs.map((log) =>
+            log.id === active.id ? { ...log, endedAt: now } : log
+          ),
+        }));
+
+        // Back to whatever they were before falling asleep
+        const isAway = useAwayStore.getState().isChildAway(childId);
+        useChildStore.getState().updateCareStatus(childId, isAway ? 'away' : 'home');
+
+        useActivityStore.getState().logActivity({
+          type: 'sleep-end',
+          label: `${useChildStore.getState().getChild(childId)?.name} woke up`,
+          refId: active.id,
+          childId,
+        });
+
+        // Fire nap-end triggers for tasks waiting on this nap
+        if (active.sleepType === 'nap') {
+          const eventStore = useEventStore.getState();
+          eventStore.emitEvent('nap-end');
+          eventStore.emitEvent(`nap-end:${childId}`);
+        }
+      },
+
+      updateSleepLog: (logId, updates) => {
+        set((state) => ({
+          napLogs: state.napLogs.map((log) => {
+            if (log.id !== logId) return log;
+            const updated = { ...log, ...updates };
+            // Keep the log attributed to the day it started
+            if (updates.startedAt) {
+              updated.date = format(parseISO(updates.startedAt), 'yyyy-MM-dd');
+            }
+            return updated;
+          }),
+        }));
+      },
+
+      deleteSleepLog: (logId) => {
+        set((state) => ({
+          napLogs: state.napLogs.filter((log) => log.id !== logId),
+        }));
+      },
+
+      clearSleepLogs: () => {
+        set({ napLogs: [], dismissedTransitions: {} });
+      },
+
+      replaceSleepLogs: (napLogs) => {
+        set({ napLogs });
+      },
+
+      dismissNapTransition: (childId) => {
+        set((state) => ({
+          dismissedTransitions: {
+            ...state.dismissedTransitions,
+            [childId]: format(new Date(), 'yyyy-MM-dd'),
+          },
+        }));
+      },
+
+      getSleepLogsForDate: (date) => {
+        return get().napLogs.filter((log) => log.date === date);
+      },
+
+      getActiveSleepForChild: (childId) => {
+        return get().napLogs.find(
+          (log) => log.childId === childId && log.endedAt === null
+        );
+      },
+
+      isChildAsleep: (childId) => {
+        return get().napLogs.some(
+          (log) => log.childId === childId && log.endedAt === null
+        );
+      },
+
+      getLoggedSleepState: (childId, since) => {
+        // A running log means asleep; a log that ended after `since` (e.g. the
+        // start of a scheduled sleep block) means they woke up early
+        if (get().isChildAsleep(childId)) return 'asleep';
+        const sinceMs = since.getTime();
+        const wokeSince = get().napLogs.some(
+          (log) =>
+            log.childId === childId &&
+            log.endedAt !== null &&
+            parseISO(log.endedAt).getTime() >= sinceMs
+        );
+        return wokeSince ? 'awake' : null;
+      },
+
+      getPrediction: (childId, date = new Date()) => {
+        const child = useChildStore.getState().getChild(childId);
+        if (!child) return null;
+        return predictNapDay(child, get().napLogs, date);
+      },
+    }),
+    {
+      name: 'rhythm_naps',
+    }
+  )
+);
@@ -0,0 +1,153 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { v4 as uuidv4 } from 'uuid';
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import type { PantryItem, PantryLocation, PantryUse } from '../types';
+import { guessSection, ingredientKey, parseIngredient } from '../utils/groceries';
+
+// How soon a best-by date counts as "use it up"
+export const EXPIRING_WITHIN_DAYS = 3;
+
+// How long to remember which meals were already taken out of the pantry
+const CONSUMED_MEALS_KEEP_DAYS = 14;
+
+interface PantryState {
+  items: PantryItem[];
+  consumedMeals: string[]; // `${date}|${mealType}` already deducted
+
+  addItem: (item: Omit<PantryItem, 'id'>) => void;
+  updateItem: (id: string, updates: Partial<Omit<PantryItem, 'id'>>) => void;
+  removeItem: (id: string) => void;
+  /** Add (or with a negative amount, take away) stock of an item, adding it if it's new */
+  adjustStock: (name: string, unit: string | null, amount: number) => void;
+  /** Take a cooked meal's ingredients out of stock, once per meal; null if already taken */
+  consumeMeal: (date: string, mealType: string, ingredients: string[]) => PantryUse | null;
+  /** Put back what consumeMeal took, when the meal is undone */
+  restoreMeal: (use: PantryUse) => void;
+  getExpiring: (today: string) => PantryItem[];
+  getLowStaples: () => PantryItem[];
+  clearPantry: () => void;
+}
+
+/** Same item whatever the unit, so "2 cups spinach" finds "Spinach" */
+function nameKey(name: string): string {
+  return ingredientKey(name, null);
+}
+
+/** Where something new from the store probably lives */
+export function guessLocation(name: string): PantryLocation {
+  const section = guessSection(name);
+  if (section === 'frozen') return 'freezer';
+  if (section === 'produce' || section === 'dairy' || section === 'meat-fish') return 'fridge';
+  return 'pantry';
+}
+
+export const usePantryStore = create<PantryState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+      consumedMeals: [],
+
+      addItem: (item) => {
+        const name = item.name.trim();
+        if (!name) return;
+        set((state) => ({ items: [...state.items, { ...item, name, id: uuidv4() }] }));
+      },
+
+      updateItem: (id, updates) => {
+        set((state) => ({
+          items: state.items.map((i) => (i.id === id ? { ...i, ...updates } : i)),
+        }));
+      },
+
+      removeItem: (id) => {
+        set((state) => ({ items: state.items.filter((i) => i.id !== id) }));
+      },
+
+      // A bare count ("spinach", "2 onions") is in whatever unit it's stocked
+      // in; amounts in another unit can't be converted, so leave the count alone
+      adjustStock: (name, unit, amount) => {
+        const key = nameKey(name);
+        const existing = get().items.find((i) => nameKey(i.name) === key);
+
+        if (!existing) {
+          if (amount > 0) {
+            get().addItem({
+              name,
+              quantity: amount,
+              unit,
+              location: guessLocation(name),
+              bestBy: null,
+              restockAt: null,
+            });
+          }
+          return;
+        }
+        if (existing.quantity === null || (unit !== null && existing.unit !== unit)) return;
+
+        const quantity = Math.max(0, existing.quantity + amount);
+        set((state) => ({
+          // Run-out one-offs go; staples stay so they can be restocked
+          items: quantity === 0 && existing.restockAt === null
+            ? state.items.filter((i) => i.id !== existing.id)
+            : state.items.map((i) => (i.id === existing.id ? { ...i, quantity } : i)),
+        }));
+      },
+
+      consumeMeal: (date, mealType, ingredients) => {
+        const mealKey = `${date}|${mealType}`;
+        if (get().consumedMeals.includes(mealKey)) return null;
+
+        const taken: PantryUse['taken'] = [];
+        for (const line of ingredients) {
+          const { name, quantity, unit } = parseIngredient(line);
+          if (!name) continue;
+          const before = get().items.find((i) => nameKey(i.name) === nameKey(name));
+          get().adjustStock(name, unit, -(quantity ?? 1));
+          const after = before && get().items.find((i) => i.id === before.id);
+          const amount = (before?.quantity ?? 0) - (after?.quantity ?? 0);
+          if (before && amount > 0) taken.push({ item: before, amount });
+        }
+
+        const keepFrom = format(subDays(new Date(), CONSUMED_MEALS_KEEP_DAYS), 'yyyy-MM-dd');
+        set((state) => ({
+          consumedMeals: [...state.consumedMeals.filter((key) => key >= keepFrom), mealKey],
+        }));
+        return { mealKey, taken };
+      },
+
+      // Newest first, so an item used up and dropped comes back before
+      // earlier amounts are added to it
+      restoreMeal: (use) => {
+        set((state) => {
+          let items = state.items;
+          for (const { item, amount } of [...use.taken].reverse()) {
+            items = items.some((i) => i.id === item.id)
+              ? items.map((i) => (i.id === item.id && i.quantity !== null ? { ...i, quantity: i.quantity + amount } : i))
+              : [...items, item];
+          }
+          return {
+            items,
+            consumedMeals: state.consumedMeals.filter((key) => key !== use.mealKey),
+          };
+        });
+      },
+
+      getExpiring: (today) => {
+        const soon = format(addDays(parseISO(today), EXPIRING_WITHIN_DAYS), 'yyyy-MM-dd');
+        return get().items
+          .filter((i) => i.bestBy && i.bestBy <= soon && i.quantity !== 0)
+          .sort((a, b) => a.bestBy!.localeCompare(b.bestBy!));
+      },
+
+      getLowStaples: () => {
+        return get().items.filter(
+          (i) => i.restockAt !== null && i.quantity !== null && i.quantity <= i.restockAt
+        );
+      },
+
+      clearPantry: () => set({ items: [], consumedMeals: [] }),
+    }),
+    { name: 'rhythm_pantry' }
+  )
+);
@@ -0,0 +1,57 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { format } from 'date-fns';
+import type { PlannedTask } from '../types';
+import { useTaskStore } from './useTaskStore';
+import { timeToMinutes } from '../utils/scheduling';
+
+interface PlannerState {
+  planDate: string | null;             // the day the plan below is for
+  accepted: Record<string, number>;    // taskId → accepted start minutes
+  shuffle: number;
+
+  acceptPlan: (planned: PlannedTask[]) => void;
+  shufflePlan: () => void;
+  clearPlan: () => void;
+  getAcceptedForToday: () => Record<string, number>;
+}
+
+export const usePlannerStore = create<PlannerState>()(
+  persist(
+    (set, get) => ({
+      planDate: null,
+      accepted: {},
+      shuffle: 0,
+
+      acceptPlan: (planned) => {
+        const today = format(new Date(), 'yyyy-MM-dd');
+        // Accepted seeds move onto today's list
+        const scheduleForDate = useTaskStore.getState().scheduleForDate;
+        planned.forEach((item) => scheduleForDate(item.taskId, today));
+
+        const accepted = get().planDate === today ? { ...get().accepted } : {};
+        planned.forEach((item) => {
+          accepted[item.taskId] = timeToMinutes(item.start);
+        });
+        set({ planDate: today, accepted, shuffle: 0 });
+      },
+
+      shufflePlan: () => {
+        const today = format(new Date(), 'yyyy-MM-dd');
+        set((state) => ({
+          planDate: today,
+          accepted: state.planDate === today ? state.accepted : {},
+          shuffle: state.shuffle + 1,
+        }));
+      },
+
+      clearPlan: () => set({ planDate: null, accepted: {}, shuffle: 0 }),
+
+      getAcceptedForToday: () => {
+        const today = format(new Date(), 'yyyy-MM-dd');
+        return get().planDate === today ? get().accepted : {};
+      },
+    }),
+    { name: 'rhythm_planner' }
+  )
+);
@@ -0,0 +1,124 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { v4 as uuidv4 } from 'uuid';
+import type { Routine, Task } from '../types';
+import { useTaskStore } from './useTaskStore';
+import { withActivityTags } from './useActivityStore';
+
+type RoutineInput = Omit<Routine, 'id'>;
+
+/** A stack's steps in order */
+export function getRoutineSteps(tasks: Task[], routineId: string): Task[] {
+  return tasks
+    .filter((task) => task.routineId === routineId)
+    .sort((a, b) => (a.routineOrder ?? 0) - (b.routineOrder ?? 0));
+}
+
+interface RoutineState {
+  routines: Routine[];
+
+  addRoutine: (routine: RoutineInput, stepTitles: string[]) => string;
+  updateRoutine: (id: string, updates: Partial<RoutineInput>) => void;
+  deleteRoutine: (id: string) => void;
+  addStep: (routineId: string, title: string) => void;
+  removeStep: (taskId: string) => void;
+  moveStep: (routineId: string, taskId: string, offset: -1 | 1) => void;
+  getRoutine: (id: string) => Routine | undefined;
+}
+
+export const useRoutineStore = create<RoutineState>()(
+  persist(
+    (set, get) => ({
+      routines: [],
+
+      addRoutine: (routineData, stepTitles) => {
+        const id = uuidv4();
+        set((state) => ({ routines: [...state.routines, { id, ...routineData }] }));
+        stepTitles
+          .map((title) => title.trim())
+          .filter(Boolean)
+          .forEach((title) => get().addStep(id, title));
+        return id;
+      },
+
+      updateRoutine: (id, updates) => {
+        set((state) => ({
+          routines: state.routines.map((routine) =>
+            routine.id === id ? { ...routine, ...updates } : routine
+          ),
+        }));
+
+        // Steps follow the stack's name, days, window and active state
+        const routine = get().getRoutine(id);
+        if (!routine) return;
+        const taskStore = useTaskStore.getState();
+        getRoutineSteps(taskStore.tasks, id).forEach((step) => {
+          taskStore.updateTask(step.id, {
+            routineGroup: routine.name,
+            daysOfWeek: routine.daysOfWeek,
+            preferredTimeBlock: routine.preferredTimeBlock,
+            isActive: routine.isActive,
+          });
+        });
+      },
+
+      deleteRoutine: (id) => {
+        const taskStore = useTaskStore.getState();
+        // The steps go with the stack, so they aren't undoable on their own
+        withActivityTags({ groupId: id }, () => {
+          getRoutineSteps(taskStore.tasks, id).forEach((step) => taskStore.deleteTask(step.id));
+        });
+        set((state) => ({ routines: state.routines.filter((routine) => routine.id !== id) }));
+      },
+
+      addStep: (routineId, title) => {
+        const routine = get().getRoutine(routineId);
+        if (!routine) return;
+        const taskStore = useTaskStore.getState();
+        const steps = getRoutineSteps(taskStore.tasks, routineId);
+        taskStore.addTask({
+          type: 'standard',
+          title,
+          tier: 'routine',
+          scheduledTime: null,
+          recurrence: 'daily',
+          napContext: null,
+          isActive: routine.isActive,
+          category: 'other',
+          daysOfWeek: routine.daysOfWeek,
+          preferredTimeBlock: routine.preferredTimeBlock,
+          routineGroup: routine.name,
+          routineOrder: (steps[steps.length - 1]?.routineOrder ?? 0) + 1,
+          routineId,
+        });
+      },
+
+      removeStep: (taskId) => {
+        useTaskStore.getState().deleteTask(taskId);
+      },
+
+      moveStep: (routineId, taskId, offset) => {
+        const taskStore = useTaskStore.getState();
+        const steps = getRoutineSteps(taskStore.tasks, routineId);
+        const from = steps.findIndex((step) => step.id === taskId);
+        const to = from + offset;
+        if (from < 0 || to < 0 || to >= steps.length) return;
+
+        const reordered = [...steps];
+        [reordered[from], reordered[to]] = [reordered[to], reordered[from]];
+        reordered.forEach((step, index) => {
+          if (step.routineOrder !== index + 1) {
+            taskStore.updateTask(step.id, { routineOrder: index + 1 });
+          }
+        });
+      },
+
+      getRoutine: (id) => {
+        return get().routines.find((routine) => routine.id === id);
+      },
+    }),
+    {
+      name: 'rhythm_routines',
+    }
+  )
+);
@@ -1,13 +1,19 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { SeasonOfLife } from '../types';
 
 interface SettingsState {
   witherModeEnabled: boolean;
   lastActivityDate: string | null; // 'yyyy-MM-dd'
+  lastWeeklyReview: string | null; // 'yyyy-MM-dd'
+  seasonOfLife: SeasonOfLife;      // scales how much each day tier asks for
 
   setWitherMode: (enabled: boolean) => void;
   recordActivity: () => void;
+  restoreActivityDate: (date: string | null) => void;
+  markWeeklyReviewed: () => void;
+  setSeasonOfLife: (season: SeasonOfLife) => void;
   /** Returns calendar days since last activity, or 0 if wither mode is off / no activity recorded */
   getDaysMissed: () => number;
 }
@@ -39,6 +45,8 @@ export const useSettingsStore = create<SettingsState>()(
     (set, get) => ({
       witherModeEnabled: false,
       lastActivityDate: null,
+      lastWeeklyReview: null,
+      seasonOfLife: 'finding-footing',
 
       setWitherMode: (enabled) => set({ witherModeEnabled: enabled }),
 
@@ -47,6 +55,12 @@ export const useSettingsStore = create<SettingsState>()(
         set({ lastActivityDate: today });
       },
 
+      restoreActivityDate: (date) => set({ lastActivityDate: date }),
+
+      markWeeklyReviewed: () => set({ lastWeeklyReview: format(new Date(), 'yyyy-MM-dd') }),
+
+      setSeasonOfLife: (season) => set({ seasonOfLife: season }),
+
       getDaysMissed: () => {
         const { witherModeEnabled, lastActivityDate } = get();
         if (!witherModeEnabled || !lastActivityDate) return 0;
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { format, subDays } from 'date-fns';
+import type { StandardTask, TaskInstance } from '../types';
+
+const today = format(new Date(), 'yyyy-MM-dd');
+const yesterday = format(subDays(new Date(), 1), 'yyyy-MM-dd');
+
+function makeTask(id: string, overrides: Partial<StandardTask> = {}): StandardTask {
+  return {
+    id,
+    type: 'standard',
+    title: id,
+    tier: 'todo',
+    scheduledTime: null,
+    recurrence: 'daily',
+    napContext: null,
+    isActive: true,
+    category: 'tidying',
+    ...overrides,
+  };
+}
+
+function makeInstance(taskId: string, date = today): TaskInstance {
+  return { id: `${taskId}-${date}`, taskId, date, status: 'pending', completedAt: null, deferredTo: null };
+}
+
+async function loadStores() {
+  vi.resetModules();
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  const { useTaskStore } = await import('./useTaskStore');
+  const { useGardenStore } = await import('./useGardenStore');
+  const { useEventStore } = await import('./useEventStore');
+  return { useTaskStore, useGardenStore, useEventStore };
+}
+
+describe('flower growth on undo', () => {
+  let stores: Awaited<ReturnType<typeof loadStores>>;
+  const growth = () => stores.useGardenStore.getState().flowers[0].growthTicks ?? 0;
+
+  beforeEach(async () => {
+    stores = await loadStores();
+    stores.useGardenStore.setState({
+      flowers: [{ id: 'rose', type: 'daily-daisy', earnedDate: today, challengeId: null, growthTicks: 0 }],
+      placedFlowers: [{ id: 'p', flowerId: 'rose', flowerType: 'daily-daisy', col: 0, row: 0, placedAt: today, growthTicks: 0 }],
+    });
+    stores.useTaskStore.setState({
+      tasks: [makeTask('dishes'), makeTask('laundry')],
+      taskInstances: [makeInstance('dishes'), makeInstance('laundry')],
+    });
+  });
+
+  it('keeps the growth while another completion that day counts toward it', () => {
+    const { completeTask, uncompleteTask } = stores.useTaskStore.getState();
+    completeTask(`dishes-${today}`);
+    completeTask(`laundry-${today}`);
+    expect(growth()).toBe(1);
+
+    uncompleteTask(`dishes-${today}`);
+    expect(growth()).toBe(1);
+
+    uncompleteTask(`laundry-${today}`);
+    expect(growth()).toBe(0);
+
+    completeTask(`laundry-${today}`);
+    expect(growth()).toBe(1);
+  });
+});
+
+describe('routine-complete', () => {
+  let stores: Awaited<ReturnType<typeof loadStores>>;
+  const key = 'routine-complete:bedtime';
+
+  beforeEach(async () => {
+    stores = await loadStores();
+    const steps = [makeTask('bath', { routineId: 'bedtime' }), makeTask('story', { routineId: 'bedtime' })];
+    stores.useTaskStore.setState({
+      tasks: steps,
+      taskInstances: [yesterday, today].flatMap((date) => steps.map((step) => makeInstance(step.id, date))),
+    });
+  });
+
+  it('fires when the last step is skipped', () => {
+    const { completeTask, skipTask } = stores.useTaskStore.getState();
+    completeTask(`bath-${today}`);
+    expect(stores.useEventStore.getState().hasEventFired(key)).toBe(false);
+    skipTask(`story-${today}`);
+    expect(stores.useEventStore.getState().hasEventFired(key)).toBe(true);
+  });
+
+  it("checks and dates a past day's stack by that day", () => {
+    const { completeTask, skipTask } = stores.useTaskStore.getState();
+    completeTask(`bath-${yesterday}`);
+    skipTask(`story-${yesterday}`);
+    const events = stores.useEventStore.getState();
+    expect(events.hasEventFired(key, yesterday)).toBe(true);
+    expect(events.hasEventFired(key)).toBe(false);
+
+    completeTask(`bath-${today}`);
+    expect(stores.useEventStore.getState().hasEventFired(key)).toBe(false);
+  });
+});
@@ -1,13 +1,18 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
-import { format, getDay, subDays, differenceInDays, parseISO } from 'date-fns';
-import type { Task, TaskInput, TaskInstance, TaskStatus, CareStatus, ChildTaskType, ChildcareSchedule, AvailabilityState } from '../types';
+import { format, subDays, differenceInDays, differenceInCalendarDays, endOfDay, parseISO } from 'date-fns';
+import type { Task, TaskInput, TaskInstance, TaskStatus, TaskCategory, DurationEstimate, CareStatus, ChildTaskType, ChildcareSchedule, CompletionEffects, ActivityEntry, AvailabilityState, ChildStatuses, MealPrepRef, PlannedPrepStep } from '../types';
 import { useChildStore } from './useChildStore';
 import { useEventStore } from './useEventStore';
 import { useCoinStore } from './useCoinStore';
 import { useGardenStore } from './useGardenStore';
 import { useSettingsStore } from './useSettingsStore';
+import { useActivityStore, withActivityTags } from './useActivityStore';
+import { usePantryStore } from './usePantryStore';
+import { getNextDueDate, isCompletionRelative, upgradeLegacyRecurrence } from '../utils/recurrence';
+import { occursOnDate } from '../utils/scheduling';
+import { matchesBestWhen, satisfiesState } from '../utils/availability';
 
 /**
  * Check if a task is suggested for the current availability state.
@@ -15,11 +20,12 @@ import { useSettingsStore } from './useSettingsStore';
  */
 export function isTaskSuggestedForAvailability(
   task: Task,
-  currentAvailability: AvailabilityState
+  currentAvailability: AvailabilityState,
+  childStatuses: ChildStatuses = {}
 ): boolean {
   // If task has bestWhen set, use it
   if (task.bestWhen && task.bestWhen.length > 0) {
-    return task.bestWhen.includes(currentAvailability);
+    return matchesBestWhen(task.bestWhen, currentAvailability, childStatuses);
   }
 
   // Fall back to legacy logic for migration compatibility
@@ -30,9 +36,10 @@ export function isTaskSuggestedForAvailability(
         return currentAvailability === 'quiet';
       case 'baby-asleep':
       case 'toddler-asleep':
-        return currentAvailability === 'quiet';
+        // One child asleep leaves the other with me
+        return currentAvailability === 'quiet' || currentAvailability === 'one-on-one';
       case 'both-awake':
-        return currentAvailability === 'parenting';
+        return satisfiesState('parenting', currentAvailability);
     }
   }
 
@@ -43,7 +50,7 @@ export function isTaskSuggestedForAvailability(
       case 'any-away':
         return currentAvailability === 'free' || currentAvailability === 'quiet';
       case 'all-home':
-        return currentAvailability === 'parenting';
+        return satisfiesState('parenting', currentAvailability);
     }
   }
 
@@ -83,6 +90,112 @@ export function getTaskDisplayTitle(task: Task, getChild: (id: string) => { name
   return task.title;
 }
 
+/**
+ * Most recent date (YYYY-MM-DD) a task was completed, or null if never
+ */
+export function getLastCompletedDate(taskId: string, instances: TaskInstance[]): string | null {
+  let latest: string | null = null;
+  for (const instance of instances) {
+    if (instance.taskId !== taskId || instance.status !== 'completed' || !instance.completedAt) continue;
+    if (!latest || instance.completedAt > latest) latest = instance.completedAt;
+  }
+  return latest ? format(new Date(latest), 'yyyy-MM-dd') : null;
+}
+
+/**
+ * Days until a completion-relative task is next due (negative = overdue).
+ * Returns null for calendar-scheduled tasks.
+ */
+export function getDaysUntilDue(task: Task, instances: TaskInstance[], date: Date): number | null {
+  if (!isCompletionRelative(task.recurrence)) return null;
+  const dueDate = getNextDueDate(task.recurrence, getLastCompletedDate(task.id, instances));
+  return differenceInCalendarDays(parseISO(dueDate), date);
+}
+
+// Typical minutes for a task nobody has timed yet
+const CATEGORY_DURATION_MINUTES: Record<TaskCategory, number> = {
+  meals: 30,
+  kids: 20,
+  kitchen: 15,
+  laundry: 20,
+  tidying: 10,
+  cleaning: 25,
+  errands: 45,
+  'self-care': 20,
+  'focus-work': 45,
+  other: 15,
+};
+
+const DURATION_HISTORY_SIZE = 10;
+const MAX_TIMED_MINUTES = 8 * 60; // longer means it was started and forgotten
+
+/**
+ * Minutes each timed completion of a task took, most recent first
+ * (only instances that were started with "Start" count)
+ */
+export function getDurationHistory(taskId: string, instances: TaskInstance[]): number[] {
+  return instances
+    .filter((i) => i.taskId === taskId && i.status === 'completed' && i.startedAt && i.completedAt)
+    .sort((a, b) => b.completedAt!.localeCompare(a.completedAt!))
+    .map((i) => Math.round((new Date(i.completedAt!).getTime() - new Date(i.startedAt!).getTime()) / 60000))
+    .filter((minutes) => minutes >= 1 && minutes <= MAX_TIMED_MINUTES)
+    .slice(0, DURATION_HISTORY_SIZE);
+}
+
+/**
+ * How long a task usually takes: the median of its recent timed
+ * completions, else its set duration, else a default for its category
+ */
+export function estimateTaskDuration(task: Task, instances: TaskInstance[]): DurationEstimate {
+  const history = getDurationHistory(task.id, instances);
+  if (history.length > 0) {
+    const sorted = [...history].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 === 0 ? Math.round((sorted[mid - 1] + sorted[mid]) / 2) : sorted[mid];
+    return { minutes: median, source: 'history', samples: history.length };
+  }
+  if (task.duration) return { minutes: task.duration, source: 'task', samples: 0 };
+  return { minutes: CATEGORY_DURATION_MINUTES[task.category] ?? 15, source: 'category', samples: 0 };
+}
+
+/**
+ * Pick the chore-queue task that has waited longest: the most overdue
+ * completion-relative chore, otherwise the one done least recently.
+ * Returns null if the pool is empty or already has a chore on this date.
+ */
+function pickChoreOfTheDay(tasks: Task[], instances: TaskInstance[], date: Date): Task | null {
+  const dateStr = format(date, 'yyyy-MM-dd');
+  const pool = tasks.filter((t) => t.isChoreQueue && t.isActive);
+  if (pool.some((t) => instances.some((i) => i.taskId === t.id && i.date === dateStr))) {
+    return null;
+  }
+
+  let best: { task: Task; waitingDays: number } | null = null;
+  for (const task of pool) {
+    // Already scheduled for another day or waiting in the seed tray
+    if (instances.some((i) => i.taskId === task.id && (i.status === 'pending' || i.status === 'deferred'))) {
+      continue;
+    }
+
+    const lastCompleted = getLastCompletedDate(task.id, instances);
+    let waitingDays: number;
+    if (isCompletionRelative(task.recurrence)) {
+      const daysUntilDue = getDaysUntilDue(task, instances, date)!;
+      if (daysUntilDue > 0) continue; // Not due yet
+      waitingDays = -daysUntilDue;
+    } else {
+      waitingDays = lastCompleted
+        ? differenceInCalendarDays(date, parseISO(lastCompleted))
+        : Infinity;
+    }
+
+    if (!best || waitingDays > best.waitingDays) {
+      best = { task, waitingDays };
+    }
+  }
+
+  return best?.task ?? null;
+}
 
 interface TaskState {
   tasks: Task[];
@@ -92,15 +205,22 @@ interface TaskState {
   addTask: (task: TaskInput) => string;
   updateTask: (id: string, updates: Partial<TaskInput>) => void;
   deleteTask: (id: string) => void;
+  restoreTask: (task: Task, instances: TaskInstance[]) => void;
   clearTasks: () => void;
   replaceTasks: (tasks: Task[], taskInstances: TaskInstance[]) => void;
   getTask: (id: string) => Task | undefined;
 
   // Task instance actions
+  startTask: (instanceId: string) => void;
   completeTask: (instanceId: string) => void;
   skipTask: (instanceId: string) => void;
   deferTask: (instanceId: string, deferToDate: string | null) => void;
   resetTaskInstance: (instanceId: string) => void;
+  restoreTaskInstance: (instance: TaskInstance) => void;
+  /** Reverse a logged completion and all its side effects; false if it can't be */
+  revertCompletion: (entryId: string) => boolean;
+  /** Un-check a completed task, reversing its coins, flower growth and events */
+  uncompleteTask: (instanceId: string) => void;
   updateTaskCompletionTime: (instanceId: string, completedAt: string) => void;
 
   // Daily management
@@ -108,9 +228,9 @@ interface TaskState {
   getInstancesForDate: (date: string) => TaskInstance[];
   getDeferredTasks: () => TaskInstance[];
 
-  // Meal task actions
-  updateMealPlan: (taskId: string, date: string, meal: string) => void;
-  getMealPlan: (taskId: string, date: string) => string | undefined;
+  // Meal prep
+  /** Create, move or remove prep tasks so they match the planned steps from `fromDate` on */
+  syncMealPrepTasks: (planned: PlannedPrepStep[], fromDate: string) => void;
 
   // Seeds queue management
   getSeeds: () => TaskInstance[];
@@ -120,6 +240,8 @@ interface TaskState {
   scheduleForDate: (taskId: string, date: string) => void;
   dismissSeed: (instanceId: string) => void;
   archiveOldSeeds: () => void;
+  /** Put an expired or dismissed seed back in the tray, aging from today */
+  reseedInstance: (instanceId: string) => void;
 
   // Childcare task management
   ensureChildcareTasksExist: (schedule: ChildcareSchedule) => void;
@@ -128,47 +250,85 @@ interface TaskState {
 
   // Chore queue
   getChoreQueueTasks: () => Task[];
+  moveToChoreQueue: (taskId: string) => void;
+}
+
+/** Journal a change to a task instance, keeping its prior state for undo */
+function logInstanceChange(
+  state: Pick<TaskState, 'tasks' | 'taskInstances'>,
+  instanceId: string,
+  type: 'task-skipped' | 'task-deferred' | 'seed-dismissed',
+  verb: string,
+  details: Pick<ActivityEntry, 'deferredTo'> = {}
+): string | null {
+  const instance = state.taskInstances.find((i) => i.id === instanceId);
+  const task = instance ? state.tasks.find((t) => t.id === instance.taskId) : undefined;
+  if (!instance || !task) return null;
+  return useActivityStore.getState().logActivity({
+    type,
+    label: `${verb} ${task.title}`,
+    refId: instance.id,
+    previousInstance: instance,
+    ...details,
+  });
 }
 
 /**
- * Check if a task should occur on a given date based on its recurrence rule
+ * Undo the day's flower growth along with the completion that earned it,
+ * unless another completion that day still counts toward it. The latest of
+ * those takes the growth over, so undoing it later takes the growth back.
  */
-export function shouldTaskOccurOnDate(task: Task, date: Date): boolean {
-  if (!task.isActive) return false;
-
-  const dayOfWeek = getDay(date); // 0 = Sunday
-
-  // If daysOfWeek is set, use it as the day filter
-  if (task.daysOfWeek != null && task.daysOfWeek.length > 0) {
-    return task.daysOfWeek.includes(dayOfWeek);
+function handOverFlowerGrowth(instances: TaskInstance[], entry: ActivityEntry, flowerIds: string[]) {
+  const stillDone = new Set(
+    instances
+      .filter((i) => i.date === entry.date && i.status === 'completed' && i.id !== entry.refId)
+      .map((i) => i.id)
+  );
+  if (stillDone.size === 0) {
+    useGardenStore.getState().untickFlowers(flowerIds);
+    return;
   }
 
-  // Otherwise fall back to recurrence rules
-  switch (task.recurrence) {
-    case 'daily':
-      return true;
-
-    case 'weekdays':
-      return dayOfWeek >= 1 && dayOfWeek <= 5;
-
-    case 'weekends':
-      return dayOfWeek === 0 || dayOfWeek === 6;
-
-    case 'weekly':
-      // Default to Sunday for weekly tasks
-      return dayOfWeek === 0;
-
-    case 'monthly':
-      // Default to 1st of month
-      return date.getDate() === 1;
+  const activityStore = useActivityStore.getState();
+  const heir = [...activityStore.entries].reverse().find(
+    (e) => e.type === 'task-completed' && e.id !== entry.id && !e.undoneAt && e.effects && stillDone.has(e.refId ?? '')
+  );
+  if (heir?.effects) {
+    activityStore.attachEffects(heir.id, { ...heir.effects, tickedFlowerIds: [...heir.effects.tickedFlowerIds, ...flowerIds] });
+  }
+}
 
-    default:
-      // Handle specific-days recurrence
-      if (typeof task.recurrence === 'object' && task.recurrence.type === 'specific-days') {
-        return task.recurrence.days.includes(dayOfWeek);
-      }
-      return false;
+/**
+ * Finishing the last step of a habit stack on a date, by doing or skipping
+ * it, completes that day's stack. A past day's stack is dated to the end of
+ * that day. Returns the routine-complete event if this fired it.
+ */
+function emitRoutineCompleteIfDone(
+  state: Pick<TaskState, 'tasks' | 'taskInstances'>,
+  task: Task | null | undefined,
+  date: string
+): { key: string; timestamp: string } | null {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  if (!task?.routineId || date > today) return null;
+  const stepIds = new Set(state.tasks.filter((t) => t.routineId === task.routineId).map((t) => t.id));
+  const stepInstances = state.taskInstances.filter(
+    (i) => i.date === date && stepIds.has(i.taskId) && i.status !== 'deferred'
+  );
+  const eventKey = `routine-complete:${task.routineId}`;
+  const eventStore = useEventStore.getState();
+  if (!stepInstances.every((i) => i.status === 'completed' || i.status === 'skipped') || eventStore.hasEventFired(eventKey, date)) {
+    return null;
   }
+  const at = date === today ? new Date() : endOfDay(parseISO(date));
+  return { key: eventKey, timestamp: eventStore.emitEvent(eventKey, at) };
+}
+
+/**
+ * Check if a task should occur on a given date based on its recurrence rule.
+ * Completion-relative tasks also need the date they were last completed.
+ */
+export function shouldTaskOccurOnDate(task: Task, date: Date, lastCompletedDate: string | null = null): boolean {
+  return occursOnDate(task, date, { lastCompletedDate });
 }
 
 export const useTaskStore = create<TaskState>()(
@@ -180,7 +340,11 @@ export const useTaskStore = create<TaskState>()(
       // Task template actions
       addTask: (taskData) => {
         const id = uuidv4();
-        const newTask = { id, ...taskData } as Task;
+        const newTask = {
+          id,
+          ...taskData,
+          recurrence: upgradeLegacyRecurrence(taskData.recurrence, new Date()),
+        } as Task;
         set((state) => ({
           tasks: [...state.tasks, newTask],
         }));
@@ -196,6 +360,15 @@ export const useTaskStore = create<TaskState>()(
       },
 
       deleteTask: (id) => {
+        const task = get().tasks.find((t) => t.id === id);
+        if (task) {
+          useActivityStore.getState().logActivity({
+            type: 'task-deleted',
+            label: `Deleted ${task.title}`,
+            refId: id,
+            deletedTask: { task, instances: get().taskInstances.filter((i) => i.taskId === id) },
+          });
+        }
         set((state) => ({
           tasks: state.tasks.filter((task) => task.id !== id),
           // Also remove any instances of this task
@@ -203,6 +376,16 @@ export const useTaskStore = create<TaskState>()(
         }));
       },
 
+      restoreTask: (task, instances) => {
+        set((state) => ({
+          tasks: state.tasks.some((t) => t.id === task.id) ? state.tasks : [...state.tasks, task],
+          taskInstances: [
+            ...state.taskInstances,
+            ...instances.filter((i) => !state.taskInstances.some((existing) => existing.id === i.id)),
+          ],
+        }));
+      },
+
       clearTasks: () => {
         set({ tasks: [], taskInstances: [] });
       },
@@ -216,6 +399,14 @@ export const useTaskStore = create<TaskState>()(
       },
 
       // Task instance actions
+      startTask: (instanceId) => {
+        set((state) => ({
+          taskInstances: state.taskInstances.map((i) =>
+            i.id === instanceId ? { ...i, startedAt: new Date().toISOString() } : i
+          ),
+        }));
+      },
+
       completeTask: (instanceId) => {
         const instance = get().taskInstances.find((i) => i.id === instanceId);
         const task = instance ? get().tasks.find((t) => t.id === instance.taskId) : null;
@@ -225,6 +416,15 @@ export const useTaskStore = create<TaskState>()(
           return;
         }
 
+        const entryId = instance && task
+          ? useActivityStore.getState().logActivity({
+              type: 'task-completed',
+              label: `Completed ${task.title}`,
+              refId: instance.id,
+              previousInstance: instance,
+            })
+          : null;
+
         set((state) => ({
           taskInstances: state.taskInstances.map((i) =>
             i.id === instanceId
@@ -237,53 +437,125 @@ export const useTaskStore = create<TaskState>()(
           ),
         }));
 
-        // Update care status for child tasks (but not for bedtime - that's now handled by sleep timer)
-        if (task?.childTaskType && task?.childId && task.childTaskType !== 'bedtime') {
-          const newStatus = getStatusFromTaskType(task.childTaskType);
-          if (newStatus) {
-            useChildStore.getState().updateCareStatus(task.childId, newStatus);
+        // Side effects are recorded on the log entry so undo can reverse them together
+        const coinStore = useCoinStore.getState();
+        const effects: CompletionEffects = {
+          coins: 0,
+          dailyBonus: false,
+          previousBonusDate: coinStore.bonusEarnedDate,
+          tickedFlowerIds: [],
+          events: [],
+          careStatus: null,
+          previousActivityDate: useSettingsStore.getState().lastActivityDate,
+        };
+        const emit = (key: string) => {
+          effects.events.push({ key, timestamp: useEventStore.getState().emitEvent(key) });
+        };
+
+        withActivityTags({ groupId: entryId }, () => {
+          // Update care status for child tasks (but not for bedtime - that's now handled by sleep timer)
+          if (task?.childTaskType && task?.childId && task.childTaskType !== 'bedtime') {
+            const newStatus = getStatusFromTaskType(task.childTaskType);
+            if (newStatus) {
+              const childStore = useChildStore.getState();
+              effects.careStatus = { childId: task.childId, previous: childStore.getCareStatus(task.childId) };
+              childStore.updateCareStatus(task.childId, newStatus);
+            }
           }
-        }
 
-        // Earn a coin for completing a task
-        useCoinStore.getState().earnCoin();
+          // Earn a coin for completing a task
+          coinStore.earnCoin();
+          effects.coins += 1;
 
-        // Record activity for wither mode
-        useSettingsStore.getState().recordActivity();
+          // Record activity for wither mode
+          useSettingsStore.getState().recordActivity();
 
-        // If this is the first task completed today, grow all flowers one step
-        const today = format(new Date(), 'yyyy-MM-dd');
-        const wasFirstTaskToday = !get().taskInstances.some(
-          (i) => i.id !== instanceId && i.date === today && i.status === 'completed'
-        );
-        if (wasFirstTaskToday) {
-          useGardenStore.getState().tickAllFlowers();
-        }
+          // If this is the first task completed today, grow all flowers one step
+          const today = format(new Date(), 'yyyy-MM-dd');
+          const wasFirstTaskToday = !get().taskInstances.some(
+            (i) => i.id !== instanceId && i.date === today && i.status === 'completed'
+          );
+          if (wasFirstTaskToday) {
+            effects.tickedFlowerIds = useGardenStore.getState().tickAllFlowers();
+          }
+
+          // Check if all today's tasks are now done → award daily bonus
+          const allTasks = get().tasks;
+          const todayInstances = get().taskInstances.filter((i) => {
+            if (i.date !== today) return false;
+            if (i.status === 'deferred') return false;
+            const t = allTasks.find((t) => t.id === i.taskId);
+            if (!t) return false;
+            if (t.isInformational) return false;
+            if (t.childTaskType === 'pickup' || t.childTaskType === 'dropoff') return false;
+            return true;
+          });
+          const allDone = todayInstances.length > 0 &&
+            todayInstances.every((i) => i.status === 'completed' || i.status === 'skipped');
+          if (allDone) {
+            coinStore.earnDailyBonus();
+            if (useCoinStore.getState().bonusEarnedDate !== effects.previousBonusDate) {
+              effects.dailyBonus = true;
+              effects.coins += 3;
+            }
+          }
+
+          // Emit task-complete event
+          if (task) {
+            emit(`task-complete:${task.id}`);
+          }
 
-        // Check if all today's tasks are now done → award daily bonus
-        const allTasks = get().tasks;
-        const todayInstances = get().taskInstances.filter((i) => {
-          if (i.date !== today) return false;
-          if (i.status === 'deferred') return false;
-          const t = allTasks.find((t) => t.id === i.taskId);
-          if (!t) return false;
-          if (t.isInformational) return false;
-          if (t.childTaskType === 'pickup' || t.childTaskType === 'dropoff') return false;
-          return true;
+          const routineEvent = instance ? emitRoutineCompleteIfDone(get(), task, instance.date) : null;
+          if (routineEvent) effects.events.push(routineEvent);
         });
-        const allDone = todayInstances.length > 0 &&
-          todayInstances.every((i) => i.status === 'completed' || i.status === 'skipped');
-        if (allDone) {
-          useCoinStore.getState().earnDailyBonus();
+
+        if (entryId) {
+          useActivityStore.getState().attachEffects(entryId, effects);
         }
+      },
 
-        // Emit task-complete event
-        if (task) {
-          useEventStore.getState().emitEvent(`task-complete:${task.id}`);
+      revertCompletion: (entryId) => {
+        const entry = useActivityStore.getState().entries.find((e) => e.id === entryId);
+        if (!entry || entry.type !== 'task-completed' || !entry.previousInstance) return false;
+
+        const { effects } = entry;
+        if (effects) {
+          const coinStore = useCoinStore.getState();
+          coinStore.revokeCoins(effects.coins);
+          if (effects.dailyBonus) coinStore.revokeDailyBonus(effects.previousBonusDate);
+          if (effects.tickedFlowerIds.length > 0) {
+            handOverFlowerGrowth(get().taskInstances, entry, effects.tickedFlowerIds);
+          }
+          effects.events.forEach(({ key, timestamp }) => useEventStore.getState().retractEvent(key, timestamp));
+          if (effects.careStatus) {
+            useChildStore.getState().updateCareStatus(effects.careStatus.childId, effects.careStatus.previous);
+          }
+          useSettingsStore.getState().restoreActivityDate(effects.previousActivityDate);
+        }
+
+        // A cooked meal's ingredients go back in the pantry
+        useActivityStore.getState().entries
+          .filter((e) => e.groupId === entryId && e.pantryUse)
+          .forEach((e) => usePantryStore.getState().restoreMeal(e.pantryUse!));
+
+        get().restoreTaskInstance(entry.previousInstance);
+        return true;
+      },
+
+      uncompleteTask: (instanceId) => {
+        const activityStore = useActivityStore.getState();
+        const entry = [...activityStore.entries].reverse().find(
+          (e) => e.type === 'task-completed' && e.refId === instanceId && !e.undoneAt
+        );
+        if (entry && get().revertCompletion(entry.id)) {
+          activityStore.markUndone(entry.id);
+        } else {
+          get().resetTaskInstance(instanceId);
         }
       },
 
       skipTask: (instanceId) => {
+        const entryId = logInstanceChange(get(), instanceId, 'task-skipped', 'Skipped');
         set((state) => ({
           taskInstances: state.taskInstances.map((instance) =>
             instance.id === instanceId
@@ -291,9 +563,28 @@ export const useTaskStore = create<TaskState>()(
               : instance
           ),
         }));
+
+        // Kept on the log entry so undoing the skip takes the event back too
+        const instance = get().taskInstances.find((i) => i.id === instanceId);
+        const routineEvent = instance
+          ? emitRoutineCompleteIfDone(get(), get().tasks.find((t) => t.id === instance.taskId), instance.date)
+          : null;
+        if (routineEvent && entryId) {
+          const coinStore = useCoinStore.getState();
+          useActivityStore.getState().attachEffects(entryId, {
+            coins: 0,
+            dailyBonus: false,
+            previousBonusDate: coinStore.bonusEarnedDate,
+            tickedFlowerIds: [],
+            events: [routineEvent],
+            careStatus: null,
+            previousActivityDate: useSettingsStore.getState().lastActivityDate,
+          });
+        }
       },
 
       deferTask: (instanceId, deferToDate) => {
+        logInstanceChange(get(), instanceId, 'task-deferred', 'Moved to tray:', { deferredTo: deferToDate });
         set((state) => ({
           taskInstances: state.taskInstances.map((instance) =>
             instance.id === instanceId
@@ -316,12 +607,21 @@ export const useTaskStore = create<TaskState>()(
                   status: 'pending' as TaskStatus,
                   completedAt: null,
                   deferredTo: null,
+                  startedAt: null,
                 }
               : instance
           ),
         }));
       },
 
+      restoreTaskInstance: (snapshot) => {
+        set((state) => ({
+          taskInstances: state.taskInstances.map((instance) =>
+            instance.id === snapshot.id ? snapshot : instance
+          ),
+        }));
+      },
+
       updateTaskCompletionTime: (instanceId, completedAt) => {
         set((state) => ({
           taskInstances: state.taskInstances.map((instance) =>
@@ -354,6 +654,12 @@ export const useTaskStore = create<TaskState>()(
           }
 
           const task = tasks.find((t) => t.id === instance.taskId);
+
+          // Completion-relative to-dos stay due until done — carry them forward
+          if (task?.tier === 'todo' && isCompletionRelative(task.recurrence)) {
+            return { ...instance, date: dateStr };
+          }
+
           if (task?.tier === 'todo') {
             // Move to seeds queue by marking as deferred
             return {
@@ -373,9 +679,14 @@ export const useTaskStore = create<TaskState>()(
             .map((instance) => instance.taskId)
         );
 
-        // Generate new instances for tasks that should occur today (todos are excluded — they only appear when explicitly scheduled)
+        // Generate new instances for tasks that should occur today (todos are excluded — they only appear
+        // when explicitly scheduled — unless they repeat after completion; chore-queue todos are picked below)
         const newInstances: TaskInstance[] = tasks
-          .filter((task) => task.tier !== 'todo' && shouldTaskOccurOnDate(task, date) && !existingTaskIds.has(task.id))
+          .filter((task) =>
+            (task.tier !== 'todo' || (isCompletionRelative(task.recurrence) && !task.isChoreQueue)) &&
+            shouldTaskOccurOnDate(task, date, getLastCompletedDate(task.id, updatedInstances)) &&
+            !existingTaskIds.has(task.id)
+          )
           .map((task) => ({
             id: uuidv4(),
             taskId: task.id,
@@ -385,6 +696,19 @@ export const useTaskStore = create<TaskState>()(
             deferredTo: null,
           }));
 
+        // Chore queue: add the chore that has waited longest, once per day
+        const choreOfTheDay = pickChoreOfTheDay(tasks, [...updatedInstances, ...newInstances], date);
+        if (choreOfTheDay) {
+          newInstances.push({
+            id: uuidv4(),
+            taskId: choreOfTheDay.id,
+            date: dateStr,
+            status: 'pending' as TaskStatus,
+            completedAt: null,
+            deferredTo: null,
+          });
+        }
+
         set({
           taskInstances: [...updatedInstances, ...newInstances],
         });
@@ -398,23 +722,95 @@ export const useTaskStore = create<TaskState>()(
         return get().taskInstances.filter((instance) => instance.status === 'deferred');
       },
 
-      // Meal task actions
-      updateMealPlan: (taskId, date, meal) => {
+      // Meal prep actions
+      syncMealPrepTasks: (planned, fromDate) => {
+        const prepKey = (ref: MealPrepRef) => `${ref.date}|${ref.mealType}|${ref.recipeId}|${ref.stepId}`;
+        const { tasks, taskInstances } = get();
+        const done = new Set(taskInstances.filter((i) => i.status === 'completed').map((i) => i.taskId));
+        const existing = new Map(
+          tasks.filter((t) => t.mealPrep).map((t) => [prepKey(t.mealPrep!), t])
+        );
+        const wanted = new Set(planned.map((step) => prepKey(step.ref)));
+
+        // Drop prep for meals no longer planned, unless it's been done or is in the past
+        const removedIds = new Set(
+          tasks
+            .filter((t) => t.mealPrep && t.mealPrep.date >= fromDate && !wanted.has(prepKey(t.mealPrep)) && !done.has(t.id))
+            .map((t) => t.id)
+        );
+
+        // Prep for meals already past: unfinished instances have expired, and
+        // the task stays (inactive) only as long as some history points at it
+        const pastIds = new Set(tasks.filter((t) => t.mealPrep && t.mealPrep.date < fromDate).map((t) => t.id));
+        const isExpired = (i: TaskInstance) => pastIds.has(i.taskId) && (i.status === 'pending' || i.status === 'deferred');
+        const resolvedIds = new Set(taskInstances.filter((i) => pastIds.has(i.taskId) && !isExpired(i)).map((i) => i.taskId));
+        pastIds.forEach((id) => {
+          if (!resolvedIds.has(id)) removedIds.add(id);
+        });
+
+        const idByStep = new Map<string, string>();
+        const stepKey = (ref: MealPrepRef, stepId: string) => prepKey({ ...ref, stepId });
+        planned.forEach((step) => idByStep.set(prepKey(step.ref), existing.get(prepKey(step.ref))?.id ?? uuidv4()));
+
+        const updatedTasks = new Map<string, Task>();
+        const newInstances: TaskInstance[] = [];
+        const instanceDates = new Map<string, string>();
+        for (const step of planned) {
+          const key = prepKey(step.ref);
+          const current = existing.get(key);
+          if (current && done.has(current.id)) continue;
+
+          const previousId = step.previousStepId ? idByStep.get(stepKey(step.ref, step.previousStepId)) : undefined;
+          const task: Task = {
+            ...(current ?? {}),
+            id: idByStep.get(key)!,
+            type: 'standard',
+            title: step.title,
+            tier: 'todo',
+            category: 'meals',
+            recurrence: 'daily',
+            dueDate: step.date,
+            scheduledTime: previousId ? null : step.time,
+            triggeredBy: previousId ? `task-complete:${previousId}` : null,
+            triggerDelayMinutes: previousId ? step.delayMinutes : null,
+            napContext: null,
+            isActive: true,
+            mealPrep: step.ref,
+          };
+          updatedTasks.set(task.id, task);
+
+          if (current) {
+            instanceDates.set(current.id, step.date);
+          } else {
+            newInstances.push({
+              id: uuidv4(),
+              taskId: task.id,
+              date: step.date,
+              status: 'pending',
+              completedAt: null,
+              deferredTo: null,
+            });
+          }
+        }
+
         set((state) => ({
-          tasks: state.tasks.map((task) => {
-            if (task.id !== taskId || task.type !== 'meal') return task;
-            const plannedMeals = { ...task.plannedMeals, [date]: meal };
-            return { ...task, plannedMeals };
-          }),
+          tasks: [
+            ...state.tasks
+              .filter((t) => !removedIds.has(t.id))
+              .map((t) => updatedTasks.get(t.id) ?? (pastIds.has(t.id) && t.isActive ? { ...t, isActive: false } : t)),
+            ...[...updatedTasks.values()].filter((t) => !existing.has(prepKey(t.mealPrep!))),
+          ],
+          taskInstances: [
+            ...state.taskInstances
+              .filter((i) => !removedIds.has(i.taskId) && !isExpired(i))
+              .map((i) => (instanceDates.has(i.taskId) && i.status === 'pending'
+                ? { ...i, date: instanceDates.get(i.taskId)! }
+                : i)),
+            ...newInstances,
+          ],
         }));
       },
 
-      getMealPlan: (taskId, date) => {
-        const task = get().tasks.find((t) => t.id === taskId);
-        if (!task || task.type !== 'meal') return undefined;
-        return task.plannedMeals?.[date];
-      },
-
       // Seeds queue management
       getSeeds: () => {
         return get().taskInstances.filter(
@@ -533,6 +929,7 @@ export const useTaskStore = create<TaskState>()(
       },
 
       dismissSeed: (instanceId) => {
+        logInstanceChange(get(), instanceId, 'seed-dismissed', 'Dismissed seed:');
         set((state) => ({
           taskInstances: state.taskInstances.map((instance) =>
             instance.id === instanceId
@@ -544,6 +941,7 @@ export const useTaskStore = create<TaskState>()(
 
       archiveOldSeeds: () => {
         const today = new Date();
+        const expired: TaskInstance[] = [];
         set((state) => ({
           taskInstances: state.taskInstances.map((instance) => {
             // Only process deferred (seeds) instances
@@ -556,12 +954,36 @@ export const useTaskStore = create<TaskState>()(
 
             // Auto-archive seeds older than 14 days
             if (ageInDays > SEED_MAX_AGE_DAYS) {
+              expired.push(instance);
               return { ...instance, status: 'skipped' as TaskStatus };
             }
 
             return instance;
           }),
         }));
+
+        // Journaled so the weekly review can offer to re-seed them
+        const { tasks } = get();
+        expired.forEach((instance) => {
+          useActivityStore.getState().logActivity({
+            type: 'seed-expired',
+            label: `Seed expired: ${tasks.find((t) => t.id === instance.taskId)?.title ?? 'task'}`,
+            refId: instance.id,
+            previousInstance: instance,
+            auto: true,
+          });
+        });
+      },
+
+      reseedInstance: (instanceId) => {
+        const today = format(new Date(), 'yyyy-MM-dd');
+        set((state) => ({
+          taskInstances: state.taskInstances.map((instance) =>
+            instance.id === instanceId
+              ? { ...instance, date: today, status: 'deferred' as TaskStatus, deferredTo: null }
+              : instance
+          ),
+        }));
       },
 
       // Childcare task management
@@ -664,10 +1086,21 @@ export const useTaskStore = create<TaskState>()(
       getChoreQueueTasks: () => {
         return get().tasks.filter((t) => t.isChoreQueue && t.isActive);
       },
+
+      // Turn a routine or fixed task into a to-do that comes up when it's waited longest
+      moveToChoreQueue: (taskId) => {
+        get().updateTask(taskId, {
+          tier: 'todo',
+          isChoreQueue: true,
+          scheduledTime: null,
+          routineId: null,
+          routineOrder: null,
+        });
+      },
     }),
     {
       name: 'rhythm_tasks',
-      version: 6,
+      version: 7,
       migrate: (persisted: unknown, version: number) => {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         let state = persisted as any;
@@ -745,6 +1178,19 @@ export const useTaskStore = create<TaskState>()(
           };
         }
 
+        if (version < 7) {
+          // Replace hard-coded 'weekly' (Sunday) / 'monthly' (the 1st) with anchored patterns
+          const now = new Date();
+          state = {
+            ...state,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            tasks: (state.tasks as any[]).map((task: any) => ({
+              ...task,
+              recurrence: upgradeLegacyRecurrence(task.recurrence, now),
+            })),
+          };
+        }
+
         return state as TaskState;
       },
     }
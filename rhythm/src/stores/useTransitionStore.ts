@@ -1,15 +1,26 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
-import { format, getDay } from 'date-fns';
-import type { PendingTransition } from '../types';
+import { addDays, format, subDays } from 'date-fns';
+import type { PendingTransition, TransitionType } from '../types';
 import { useChildStore } from './useChildStore';
 import { useAwayStore } from './useAwayStore';
 import { useCareBlockStore } from './useCareBlockStore';
 import { useEventStore } from './useEventStore';
+import { getSpanMinutes, spansMidnight } from '../utils/scheduling';
 
 const AUTO_CONFIRM_MS = 30 * 60 * 1000; // 30 minutes
 
+/**
+ * Fire the drop-off / pickup events that trigger chains wait on. Used for
+ * confirmed transitions and when away / home is marked by hand.
+ */
+export function emitCareTransitionEvents(type: TransitionType, childId: string, at?: Date) {
+  const eventStore = useEventStore.getState();
+  eventStore.emitEvent(type, at);
+  eventStore.emitEvent(`${type}:${childId}`, at);
+}
+
 interface TransitionState {
   transitions: PendingTransition[];
   lastCheckedAt: string | null;
@@ -17,41 +28,12 @@ interface TransitionState {
   checkForTransitions: () => void;
   confirmTransition: (id: string) => void;
   dismissTransition: (id: string) => void;
+  skipTransitionToday: (id: string) => void;
   autoConfirmStale: () => void;
   getPendingTransitions: () => PendingTransition[];
   clearTransitionsForDate: (date: string) => void;
 }
 
-function isTimePast(time: string, now: Date): boolean {
-  const [h, m] = time.split(':').map(Number);
-  const nowMins = now.getHours() * 60 + now.getMinutes();
-  return nowMins >= h * 60 + m;
-}
-
-function shouldBlockOccurToday(block: { recurrence: string | { type: string; days: number[] }; daysOfWeek?: number[]; oneOffDate?: string; isActive: boolean }, today: Date): boolean {
-  if (!block.isActive) return false;
-  const dayOfWeek = getDay(today);
-  const dateStr = format(today, 'yyyy-MM-dd');
-
-  if (block.recurrence === 'one-off') {
-    return block.oneOffDate === dateStr;
-  }
-  if (block.daysOfWeek && block.daysOfWeek.length > 0) {
-    return block.daysOfWeek.includes(dayOfWeek);
-  }
-  switch (block.recurrence) {
-    case 'daily': return true;
-    case 'weekdays': return dayOfWeek >= 1 && dayOfWeek <= 5;
-    case 'weekends': return dayOfWeek === 0 || dayOfWeek === 6;
-    default: {
-      if (typeof block.recurrence === 'object' && block.recurrence.type === 'specific-days') {
-        return block.recurrence.days.includes(dayOfWeek);
-      }
-      return false;
-    }
-  }
-}
-
 export const useTransitionStore = create<TransitionState>()(
   persist(
     (set, get) => ({
@@ -60,27 +42,41 @@ export const useTransitionStore = create<TransitionState>()(
 
       checkForTransitions: () => {
         const now = new Date();
-        const today = format(now, 'yyyy-MM-dd');
+        const yesterday = subDays(now, 1);
+        const nowMinutes = now.getHours() * 60 + now.getMinutes();
         const children = useChildStore.getState().children;
-        const blocks = useCareBlockStore.getState().blocks;
+        const careBlockStore = useCareBlockStore.getState();
         const awayStore = useAwayStore.getState();
         const existing = get().transitions;
 
+        // Today's blocks, plus yesterday's overnight blocks still running into this morning
+        const occurrences = [
+          ...careBlockStore.getActiveBlocksForDate(now).map((block) => ({ block, date: now, dayOffset: 0 })),
+          ...careBlockStore.getActiveBlocksForDate(yesterday)
+            .filter((block) => spansMidnight(block.startTime, block.endTime))
+            .map((block) => ({ block, date: yesterday, dayOffset: 1 })),
+        ];
+
         const newTransitions: PendingTransition[] = [];
 
-        // Check care blocks for today
-        for (const block of blocks) {
-          if (!shouldBlockOccurToday(block, now)) continue;
+        for (const { block, date, dayOffset } of occurrences) {
           if (block.blockType !== 'childcare' && block.blockType !== 'babysitter') continue;
 
+          // Minutes measured from the occurrence date's midnight, so an
+          // overnight end (e.g. 07:00 next day) compares as 31:00
+          const span = getSpanMinutes(block.startTime, block.endTime);
+          const elapsed = nowMinutes + dayOffset * 24 * 60;
+          const startDate = format(date, 'yyyy-MM-dd');
+          const endDate = format(addDays(date, span.end >= 24 * 60 ? 1 : 0), 'yyyy-MM-dd');
+
           for (const childId of block.childIds) {
             const child = children.find((c) => c.id === childId);
             if (!child) continue;
 
             // Care block START: child should go away
-            if (isTimePast(block.startTime, now)) {
+            if (elapsed >= span.start) {
               const alreadyExists = existing.some(
-                (t) => t.type === 'care-block-start' && t.blockId === block.id && t.childId === childId && t.scheduledDate === today
+                (t) => t.type === 'care-block-start' && t.blockId === block.id && t.childId === childId && t.scheduledDate === startDate
               );
               const isAlreadyAway = awayStore.isChildAway(childId);
 
@@ -92,7 +88,7 @@ export const useTransitionStore = create<TransitionState>()(
                   type: 'care-block-start',
                   childId,
                   scheduledTime: block.startTime,
-                  scheduledDate: today,
+                  scheduledDate: startDate,
                   blockId: block.id,
                   description: `${child.name} at ${block.name}?`,
                   autoConfirmAfterMs: AUTO_CONFIRM_MS,
@@ -103,9 +99,9 @@ export const useTransitionStore = create<TransitionState>()(
             }
 
             // Care block END: child should come home
-            if (isTimePast(block.endTime, now)) {
+            if (elapsed >= span.end) {
               const alreadyExists = existing.some(
-                (t) => t.type === 'care-block-end' && t.blockId === block.id && t.childId === childId && t.scheduledDate === today
+                (t) => t.type === 'care-block-end' && t.blockId === block.id && t.childId === childId && t.scheduledDate === endDate
               );
               const isCurrentlyAway = awayStore.isChildAway(childId);
 
@@ -117,7 +113,7 @@ export const useTransitionStore = create<TransitionState>()(
                   type: 'care-block-end',
                   childId,
                   scheduledTime: block.endTime,
-                  scheduledDate: today,
+                  scheduledDate: endDate,
                   blockId: block.id,
                   description: `${child.name} home from ${block.name}?`,
                   autoConfirmAfterMs: AUTO_CONFIRM_MS,
@@ -150,16 +146,9 @@ export const useTransitionStore = create<TransitionState>()(
           ),
         }));
 
-        // Emit events on confirmation
-        if (transition) {
-          const eventStore = useEventStore.getState();
-          if (transition.type === 'care-block-start') {
-            eventStore.emitEvent('care-block-start');
-            eventStore.emitEvent(`care-block-start:${transition.childId}`);
-          } else if (transition.type === 'care-block-end') {
-            eventStore.emitEvent('care-block-end');
-            eventStore.emitEvent(`care-block-end:${transition.childId}`);
-          }
+        // Emit events on confirmation, dated to when the away state flipped
+        if (transition && transition.status === 'pending') {
+          emitCareTransitionEvents(transition.type, transition.childId, new Date(transition.createdAt));
         }
       },
 
@@ -184,18 +173,36 @@ export const useTransitionStore = create<TransitionState>()(
         }));
       },
 
+      skipTransitionToday: (id) => {
+        // "Not today": the child isn't going this time, so skip them for this
+        // occurrence of the block and undo the auto-started away log
+        const transition = get().transitions.find((t) => t.id === id);
+        if (!transition || transition.type !== 'care-block-start' || !transition.blockId) return;
+
+        useCareBlockStore.getState().addException(transition.blockId, {
+          date: transition.scheduledDate,
+          type: 'skip',
+          childIds: [transition.childId],
+          reason: 'Not today',
+        });
+        get().dismissTransition(id);
+      },
+
       autoConfirmStale: () => {
         const now = Date.now();
+        const stale = get().transitions.filter(
+          (t) => t.status === 'pending' && now - new Date(t.createdAt).getTime() > t.autoConfirmAfterMs
+        );
+        if (stale.length === 0) return;
+
+        const staleIds = new Set(stale.map((t) => t.id));
         set((state) => ({
-          transitions: state.transitions.map((t) => {
-            if (t.status !== 'pending') return t;
-            const age = now - new Date(t.createdAt).getTime();
-            if (age > t.autoConfirmAfterMs) {
-              return { ...t, status: 'auto-confirmed' };
-            }
-            return t;
-          }),
+          transitions: state.transitions.map((t) =>
+            staleIds.has(t.id) ? { ...t, status: 'auto-confirmed' } : t
+          ),
         }));
+        // Nobody said otherwise, so it happened
+        stale.forEach((t) => emitCareTransitionEvents(t.type, t.childId, new Date(t.createdAt)));
       },
 
       getPendingTransitions: () => {
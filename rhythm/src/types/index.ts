@@ -14,6 +14,7 @@ export interface Child {
   bedtime?: string;   // HH:mm format (e.g., "19:30")
   wakeTime?: string;  // HH:mm format (e.g., "07:00")
   careStatus?: CareStatus;  // Current care status (default: 'home')
+  careStatusUpdatedAt?: string; // ISO datetime careStatus last changed
 }
 
 export interface ChildcareSchedule {
@@ -35,13 +36,96 @@ export interface AwayLog {
   scheduleName?: string;  // e.g., "Daycare"
 }
 
+// Sleep logging (live nap / night tracking)
+export type SleepType = 'nap' | 'night';
+
+export interface NapLog {
+  id: string;
+  childId: string;
+  date: string;           // YYYY-MM-DD the sleep started
+  startedAt: string;      // ISO datetime
+  endedAt: string | null; // null while still asleep
+  sleepType: SleepType;
+}
+
+// A nap or bedtime on a child's predicted day. Times are HH:mm; `start`
+// may be earlier than `end` on the clock for night sleep.
+export interface PredictedSleep {
+  childId: string;
+  sleepType: SleepType;
+  index: number;                  // 0-based nap number (0 for night)
+  start: string;
+  end: string | null;             // null for bedtime (sleeps until morning)
+  startRange: [string, string];   // confidence range for the start
+  status: 'done' | 'in-progress' | 'predicted' | 'missed';  // missed: a nap whose window passed unlogged
+}
+
+export interface NapDayPrediction {
+  childId: string;
+  date: string;                   // YYYY-MM-DD
+  wakeTime: string;               // HH:mm, actual if logged
+  naps: PredictedSleep[];
+  bedtime: PredictedSleep;
+  source: 'history' | 'age-default';
+  sampleDays: number;             // days of logged history used
+}
+
+// A child who seems to be dropping a nap (2→1 or 1→0)
+export interface NapTransition {
+  childId: string;
+  fromNaps: number;
+  toNaps: number;
+  reason: 'logs' | 'skipped-naps';
+  evidenceDays: number;           // days in the last two weeks that point to it
+}
+
 // Availability States - the core states that determine what tasks to suggest
 export type AvailabilityState =
   | 'unavailable'  // I'm busy (driving, at appointment with kid)
   | 'free'         // Kids are away, I have alone time
-  | 'quiet'        // Kids asleep, I'm home but have quiet time
+  | 'quiet'        // No kids awake with me: asleep, or asleep and away
+  | 'one-on-one'   // Just one child awake with me, the others away or asleep
   | 'parenting';   // Kids home and awake (default)
 
+// Where each child is right now; the combined AvailabilityState is built from these
+export type ChildAvailability = 'away' | 'asleep' | 'awake';
+export type ChildStatuses = Record<string, ChildAvailability>; // childId → status
+
+// Where a child's current status came from, most trusted first
+export type ChildStatusSource = 'sleep-log' | 'away-log' | 'care-status' | 'schedule';
+
+export interface ChildStatusDetail {
+  scheduled: ChildAvailability;   // what the care blocks say
+  actual: ChildAvailability;      // what's really happening, as best we know
+  source: ChildStatusSource;
+}
+
+// A condition on one child for Task.bestWhen, e.g. `asleep:${childId}`
+export type ChildAvailabilityCondition = `${ChildAvailability}:${string}`;
+export type BestWhen = AvailabilityState | ChildAvailabilityCondition;
+
+// A stretch of a day with one planned availability state
+export interface AvailabilityWindow {
+  state: AvailabilityState;
+  date: string;             // YYYY-MM-DD
+  start: string;            // HH:mm
+  end: string;              // HH:mm ("00:00" when it runs to midnight)
+  startMinutes: number;     // minutes from midnight
+  endMinutes: number;       // up to 1440
+  durationMinutes: number;
+}
+
+// A to-do the day planner has placed in an availability window
+export interface PlannedTask {
+  taskId: string;
+  instanceId: string;
+  state: AvailabilityState; // the window it was placed in
+  windowStart: string;      // HH:mm
+  start: string;            // HH:mm slot within the window
+  end: string;
+  moved: boolean;           // accepted earlier, but its window shifted
+}
+
 // Care Block Types - determines the availability state created
 export type CareBlockType =
   | 'childcare'    // Kid is away → I'm "free"
@@ -71,6 +155,52 @@ export interface CareBlock {
   travelTimeAfter?: number;     // Minutes to return
 
   isActive: boolean;
+
+  // One-day changes to a recurring block (closures, sick days, swaps)
+  exceptions?: CareBlockException[];
+}
+
+// A change to a single occurrence of a care block, keyed by the date it
+// would normally happen on
+export type CareBlockException =
+  | {
+      id: string;
+      date: string;              // YYYY-MM-DD
+      type: 'skip';
+      childIds?: string[];       // Only these children stay home; omitted = whole block
+      reason?: string;           // "Thanksgiving", "Sick day"
+      closureId?: string;        // Set when created by a CareClosure
+    }
+  | {
+      id: string;
+      date: string;
+      type: 'move';
+      toDate: string;            // YYYY-MM-DD the occurrence happens instead
+      startTime?: string;        // Optional new times on the new date
+      endTime?: string;
+      reason?: string;
+    }
+  | {
+      id: string;
+      date: string;
+      type: 'change-times';
+      startTime: string;
+      endTime: string;
+      reason?: string;
+    };
+
+/** Distributive Omit that preserves the discriminated union */
+export type CareBlockExceptionInput =
+  | Omit<Extract<CareBlockException, { type: 'skip' }>, 'id'>
+  | Omit<Extract<CareBlockException, { type: 'move' }>, 'id'>
+  | Omit<Extract<CareBlockException, { type: 'change-times' }>, 'id'>;
+
+// A closure date (e.g. a public holiday) applied to several blocks at once
+export interface CareClosure {
+  id: string;
+  name: string;                 // "Thanksgiving"
+  date: string;                 // YYYY-MM-DD
+  blockIds: string[];
 }
 
 // Transitions
@@ -95,13 +225,27 @@ export interface PendingTransition {
 
 export type TaskTier = 'fixed-schedule' | 'routine' | 'todo';
 
+// Which occurrence of a weekday within the month (-1 = last)
+export type WeekOfMonth = 1 | 2 | 3 | 4 | -1;
+
+// Anchored patterns: anchorDate is the first date the pattern can occur, and
+// interval counts days, weeks or months from it ("every 2 weeks" = interval 2)
+export type RecurrencePattern =
+  | { type: 'specific-days'; days: number[] } // 0=Sun
+  | { type: 'every-n-days'; interval: number; anchorDate: string }
+  | { type: 'every-n-weeks'; interval: number; days: number[]; anchorDate: string }
+  | { type: 'day-of-month'; day: number | 'last'; interval: number; anchorDate: string }
+  | { type: 'nth-weekday'; week: WeekOfMonth; weekday: number; interval: number; anchorDate: string }
+  // Due `interval` days after the last completion; anchorDate is the first due date if never done
+  | { type: 'after-completion'; interval: number; anchorDate: string };
+
 export type RecurrenceRule =
   | 'daily'
   | 'weekdays'
   | 'weekends'    // Sat-Sun
-  | 'weekly'
-  | 'monthly'
-  | { type: 'specific-days'; days: number[] }; // 0=Sun
+  | 'weekly'      // legacy (Sundays) — task store v7 migrates to 'every-n-weeks'
+  | 'monthly'     // legacy (the 1st) — task store v7 migrates to 'day-of-month'
+  | RecurrencePattern;
 
 export type NapContext =
   | 'both-awake'
@@ -138,6 +282,9 @@ export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
 
 export type TimeBlock = 'morning' | 'midday' | 'afternoon' | 'evening';
 
+// How a task with several trigger events waits for them
+export type TriggerMatch = 'all' | 'any';
+
 interface BaseTask {
   id: string;
   title: string;
@@ -157,25 +304,32 @@ interface BaseTask {
   careContext?: CareContext | null;  // When to suggest (deprecated - use bestWhen)
 
   // NEW: When is this task best done? (replaces napContext + careContext)
-  bestWhen?: AvailabilityState[] | null;  // e.g., ['free', 'quiet'] or ['parenting']
+  bestWhen?: BestWhen[] | null;  // e.g., ['free', 'quiet'], or ['one-on-one', `awake:${babyId}`]
                                            // null/empty = any time
 
   // NEW: Routine grouping (simple phase)
   routineGroup?: string | null;     // e.g., "bedtime", "morning-routine"
   routineOrder?: number | null;     // Sort order within routine (1, 2, 3...)
+  routineId?: string | null;        // Habit stack this task is a step of
 
   // Informational tasks are shown as time markers, not completable
   isInformational?: boolean;
 
   // Event-triggered sequencing: task only appears when trigger fires
-  triggeredBy?: string | null;          // 'nap-end', 'nap-end:CHILD_ID', 'task-complete:TASK_ID'
-  triggerDelayMinutes?: number | null;  // Optional delay after trigger
+  triggeredBy?: string | null;          // 'nap-end', 'nap-end:CHILD_ID', 'task-complete:TASK_ID',
+                                        // 'care-block-start:CHILD_ID', 'routine-complete:ROUTINE_ID'...
+  additionalTriggers?: string[] | null; // More events, combined with triggeredBy per triggerMatch
+  triggerMatch?: TriggerMatch | null;   // null = 'all'
+  triggerDelayMinutes?: number | null;  // Optional delay after trigger (may span days)
 
   // Chore queue: random daily chore pool
   isChoreQueue?: boolean;  // true = in the "one random chore a day" pool
 
   // One-off to-dos: the date this task should appear
   dueDate?: string;  // ISO date (YYYY-MM-DD) — used with recurrence: 'one-off'
+
+  // Prep step spawned from a planned recipe; kept in step with the meal plan
+  mealPrep?: MealPrepRef | null;
 }
 
 export interface StandardTask extends BaseTask {
@@ -185,7 +339,7 @@ export interface StandardTask extends BaseTask {
 export interface MealTask extends BaseTask {
   type: 'meal';
   mealType: MealType;
-  plannedMeals?: Record<string, string>; // ISO date -> what's planned
+  plannedMeals?: Record<string, string>; // ISO date -> what's planned (legacy - moved into the meal plan on load)
 }
 
 export type Task = StandardTask | MealTask;
@@ -193,6 +347,106 @@ export type Task = StandardTask | MealTask;
 /** Distributive Omit that preserves the discriminated union */
 export type TaskInput = Omit<StandardTask, 'id'> | Omit<MealTask, 'id'>;
 
+// Meal planning
+
+export interface Recipe {
+  id: string;
+  title: string;
+  ingredients: string[];
+  prepMinutes: number | null;
+  tags: string[];               // e.g. 'freezer-friendly', 'kid-approved'
+  prepSteps?: PrepStep[];       // advance work, e.g. thawing or soaking
+}
+
+// Advance work for a recipe: either at a set time some days before the
+// meal ("thaw chicken at 8pm the night before") or a lead time before it
+// ("soak beans 8h before")
+export interface PrepStep {
+  id: string;
+  title: string;
+  time: string | null;          // 'HH:mm'; null = use minutesBefore
+  daysBefore: number;           // with time: 0 = the day of the meal
+  minutesBefore: number | null; // without time: how long before the meal
+}
+
+// Which planned meal a prep task was spawned for
+export interface MealPrepRef {
+  date: string;
+  mealType: MealType;
+  recipeId: string;
+  stepId: string;
+}
+
+// A prep step placed on the calendar, ready to become a task
+export interface PlannedPrepStep {
+  ref: MealPrepRef;
+  title: string;
+  date: string;                 // YYYY-MM-DD
+  time: string;                 // HH:mm
+  previousStepId: string | null; // the step this one follows in the chain
+  delayMinutes: number;         // after the previous step is done
+}
+
+export interface PlannedMeal {
+  title: string;
+  recipeId: string | null;      // null = typed in rather than from the library
+}
+
+// ISO date -> what's planned for each meal that day
+export type MealPlan = Record<string, Partial<Record<MealType, PlannedMeal>>>;
+
+// Grocery list
+
+export type GrocerySection =
+  | 'produce'
+  | 'meat-fish'
+  | 'dairy'
+  | 'bakery'
+  | 'pantry'
+  | 'frozen'
+  | 'household'
+  | 'other';
+
+export interface GroceryItem {
+  id: string;
+  name: string;
+  quantity: number | null;      // null = "some", e.g. "salt"
+  unit: string | null;          // singular: 'cup', 'lb', 'can'...
+  section: GrocerySection;
+  checked: boolean;
+  isManual: boolean;            // added by hand rather than from the meal plan
+}
+
+// Pantry & freezer inventory
+
+export type PantryLocation = 'pantry' | 'fridge' | 'freezer';
+
+export interface PantryItem {
+  id: string;
+  name: string;
+  quantity: number | null;      // null = "some", never runs out on its own
+  unit: string | null;          // same spellings as the grocery list
+  location: PantryLocation;
+  bestBy: string | null;        // YYYY-MM-DD
+  restockAt: number | null;     // a staple: back on the grocery list at or below this
+}
+
+// What cooking one planned meal took out of the pantry
+export interface PantryUse {
+  mealKey: string;                                // `${date}|${mealType}`
+  taken: { item: PantryItem; amount: number }[];  // each item as it was, and how much came off
+}
+
+// A habit stack: a named, ordered group of routine tasks done together.
+// The steps are tasks with routineId set, ordered by routineOrder.
+export interface Routine {
+  id: string;
+  name: string;                          // e.g. "Close the House"
+  daysOfWeek: number[] | null;           // null = every day
+  preferredTimeBlock: TimeBlock | null;
+  isActive: boolean;
+}
+
 export interface TaskInstance {
   id: string;
   taskId: string;
@@ -200,6 +454,129 @@ export interface TaskInstance {
   status: TaskStatus;
   completedAt: string | null;
   deferredTo: string | null; // for Seeds queue
+  startedAt?: string | null; // set by "Start", to learn how long the task takes
+}
+
+// How long a task is expected to take, and where that guess comes from
+export interface DurationEstimate {
+  minutes: number;
+  source: 'history' | 'task' | 'category';
+  samples: number;   // timed completions behind a history estimate
+}
+
+// Activity log
+
+export type ActivityType =
+  | 'task-completed'
+  | 'task-skipped'
+  | 'task-deferred'
+  | 'task-deleted'
+  | 'seed-dismissed'
+  | 'seed-expired'
+  | 'child-away'
+  | 'child-home'
+  | 'sleep-start'
+  | 'sleep-end'
+  | 'coins-earned'
+  | 'coins-spent'
+  | 'flower-earned'
+  | 'challenge-planted'
+  | 'challenge-bloomed'
+  | 'pantry-used';
+
+/** Everything a task completion changed besides the instance itself */
+export interface CompletionEffects {
+  coins: number;                       // including any daily bonus
+  dailyBonus: boolean;
+  previousBonusDate: string | null;
+  tickedFlowerIds: string[];
+  events: { key: string; timestamp: string }[];
+  careStatus: { childId: string; previous: CareStatus } | null;
+  previousActivityDate: string | null;
+}
+
+export interface ActivityEntry {
+  id: string;
+  type: ActivityType;
+  timestamp: string;                 // ISO datetime
+  date: string;                      // YYYY-MM-DD
+  label: string;                     // e.g. "Completed Fold laundry"
+  refId?: string | null;             // task instance, away/sleep log, flower or challenge
+  childId?: string | null;
+  amount?: number | null;            // coins
+  previousInstance?: TaskInstance;   // task instance before the change, for undo
+  deferredTo?: string | null;        // task-deferred: tray due date, for redo
+  effects?: CompletionEffects;       // task-completed: side effects, for undo
+  deletedTask?: { task: Task; instances: TaskInstance[] };
+  pantryUse?: PantryUse;             // pantry-used: what a meal took out of stock, for undo
+  groupId?: string | null;           // logged as part of another entry's action
+  redoOf?: string | null;            // entry this one re-applied
+  auto?: boolean;                    // done by the app, not the user
+  undoneAt?: string | null;
+  redoneAt?: string | null;
+}
+
+// Weekly review
+
+export interface CompletionRate {
+  completed: number;
+  total: number;
+}
+
+export interface WeeklyReview {
+  start: string;                                      // YYYY-MM-DD, first of the 7 days
+  end: string;                                        // YYYY-MM-DD, today
+  byTier: Record<TaskTier, CompletionRate>;
+  byCategory: Partial<Record<TaskCategory, CompletionRate>>;
+  mostSkipped: { taskId: string; missed: number; total: number }[];  // routines
+  expiredSeeds: { taskId: string; instanceId: string; expiredAt: string }[];
+  availableMinutes: number;                           // free + quiet time in the plan
+  usedMinutes: number;                                // of that, spent on completed tasks
+  flowersEarned: number;
+}
+
+// Insights
+
+export interface WeekTotals {
+  weekStart: string;   // YYYY-MM-DD (Sunday)
+  completed: number;
+  total: number;
+  coins: number;
+  flowers: number;
+}
+
+export interface RoutineStreak {
+  taskId: string;
+  current: number;     // completed days in a row, up to today
+  best: number;
+}
+
+export interface PickupTiming {
+  childId: string;
+  blockName: string;
+  onTime: number;
+  late: number;
+  lateMinutes: number[];  // how late, for each late pickup
+}
+
+// Day tiers: Good Enough → Great → Epic, each adding to the one before
+
+export type DayTier = 'good-enough' | 'great' | 'epic';
+
+export interface DayTierCriterion {
+  id: string;
+  tier: DayTier;
+  label: string;                 // "Meals"
+  categories: TaskCategory[];    // tasks in any of these count
+  taskTier?: TaskTier | null;    // as do tasks of this tier, e.g. any routine
+  keywords?: string[];           // or whose title mentions one of these
+  count: number;                 // completions needed in a steady season
+}
+
+export interface DayTierProgress {
+  criterion: DayTierCriterion;
+  done: number;
+  required: number;              // scaled for the season of life
 }
 
 // Challenges
@@ -274,7 +651,11 @@ export type FlowerType =
   | 'hyacinth'
   | 'poppy'
   | 'hibiscus'
-  | 'pansy';
+  | 'pansy'
+  // Day tier rewards
+  | 'enough-primula'
+  | 'great-tulip'
+  | 'epic-hibiscus';
 
 export interface Flower {
   id: string;
@@ -306,3 +687,31 @@ export interface UserSettings {
   location: { lat: number; lng: number } | null;
   sunriseResetEnabled: boolean;
 }
+
+// Backups
+
+// One store as persisted: its state and the store version it was saved at
+export interface BackupStoreEntry {
+  version: number;
+  state: Record<string, unknown>;
+}
+
+export interface BackupFile {
+  app: 'rhythm';
+  backupVersion: number;
+  exportedAt: string;                          // ISO timestamp
+  stores: Record<string, BackupStoreEntry>;    // keyed by persist name, e.g. 'rhythm_tasks'
+}
+
+// Merge keeps what's here and adds what's missing; replace takes the backup as-is
+export type BackupMode = 'merge' | 'replace';
+
+export interface BackupStoreDiff {
+  key: string;
+  label: string;
+  inBackup: boolean;
+  added: number;          // records only in the backup
+  removed: number;        // records only here
+  changed: number;        // same record, different contents
+  settingsChanged: boolean; // anything else differs
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { combineChildStatuses, matchesBestWhen } from './availability';
+
+describe('combineChildStatuses', () => {
+  it('combines per-child statuses', () => {
+    expect(combineChildStatuses({})).toBe('parenting');
+    expect(combineChildStatuses({ ada: 'away', ben: 'away' })).toBe('free');
+    expect(combineChildStatuses({ ada: 'asleep', ben: 'away' })).toBe('quiet');
+    expect(combineChildStatuses({ ada: 'awake', ben: 'asleep' })).toBe('one-on-one');
+    expect(combineChildStatuses({ ada: 'awake', ben: 'awake' })).toBe('parenting');
+    expect(combineChildStatuses({ ada: 'awake' })).toBe('parenting');
+  });
+});
+
+describe('matchesBestWhen', () => {
+  it('treats one-on-one as parenting, but not the other way round', () => {
+    expect(matchesBestWhen(['parenting'], 'one-on-one', {})).toBe(true);
+    expect(matchesBestWhen(['one-on-one'], 'parenting', {})).toBe(false);
+    expect(matchesBestWhen(['parenting'], 'quiet', {})).toBe(false);
+  });
+
+  it('requires every child condition alongside the state', () => {
+    const statuses = { ada: 'awake', ben: 'asleep' } as const;
+    expect(matchesBestWhen(['one-on-one', 'awake:ada'], 'one-on-one', statuses)).toBe(true);
+    expect(matchesBestWhen(['one-on-one', 'awake:ben'], 'one-on-one', statuses)).toBe(false);
+    expect(matchesBestWhen(['awake:gone'], 'parenting', statuses)).toBe(true);
+  });
+});
@@ -0,0 +1,76 @@
+import type { AvailabilityState, BestWhen, ChildAvailability, ChildAvailabilityCondition, ChildStatuses } from '../types';
+
+/**
+ * Combine per-child statuses into the state that drives suggestions:
+ * everyone away → free; nobody awake with me → quiet; exactly one of
+ * several children awake → one-on-one; otherwise parenting
+ */
+export function combineChildStatuses(statuses: ChildStatuses): AvailabilityState {
+  const values = Object.values(statuses);
+  if (values.length === 0) return 'parenting';
+  if (values.every((status) => status === 'away')) return 'free';
+
+  const awake = values.filter((status) => status === 'awake').length;
+  if (awake === 0) return 'quiet';
+  if (awake === 1 && values.length > 1) return 'one-on-one';
+  return 'parenting';
+}
+
+/**
+ * Whether the current state counts as a wanted one. One-on-one is still
+ * parenting, so tasks meant for "kids with me" keep showing when only one
+ * of them is awake.
+ */
+export function satisfiesState(wanted: AvailabilityState, state: AvailabilityState): boolean {
+  return wanted === state || (wanted === 'parenting' && state === 'one-on-one');
+}
+
+export function isChildCondition(entry: BestWhen): entry is ChildAvailabilityCondition {
+  return entry.includes(':');
+}
+
+export function parseChildCondition(condition: ChildAvailabilityCondition): { status: ChildAvailability; childId: string } {
+  const [status, childId] = condition.split(':') as [ChildAvailability, string];
+  return { status, childId };
+}
+
+/** The status a bestWhen list requires of one child, if any */
+export function getChildCondition(bestWhen: BestWhen[] | null | undefined, childId: string): ChildAvailability | null {
+  const match = (bestWhen ?? [])
+    .filter(isChildCondition)
+    .map(parseChildCondition)
+    .find((condition) => condition.childId === childId);
+  return match?.status ?? null;
+}
+
+/** Replace (or with null, clear) the condition on one child */
+export function setChildCondition(
+  bestWhen: BestWhen[] | null | undefined,
+  childId: string,
+  status: ChildAvailability | null
+): BestWhen[] {
+  const others = (bestWhen ?? []).filter(
+    (entry) => !isChildCondition(entry) || parseChildCondition(entry).childId !== childId
+  );
+  return status ? [...others, `${status}:${childId}`] : others;
+}
+
+/**
+ * Whether a task's bestWhen matches right now. Combined states are
+ * alternatives (any one will do); child conditions must all hold, so
+ * ['one-on-one', 'awake:baby'] means "only the baby is with me".
+ * Conditions on children who no longer exist are ignored.
+ */
+export function matchesBestWhen(
+  bestWhen: BestWhen[],
+  state: AvailabilityState,
+  statuses: ChildStatuses
+): boolean {
+  const states = bestWhen.filter((entry): entry is AvailabilityState => !isChildCondition(entry));
+  const conditions = bestWhen.filter(isChildCondition).map(parseChildCondition);
+
+  if (states.length > 0 && !states.some((wanted) => satisfiesState(wanted, state))) return false;
+  return conditions.every(({ status, childId }) =>
+    statuses[childId] === undefined || statuses[childId] === status
+  );
+}
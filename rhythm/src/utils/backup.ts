@@ -0,0 +1,183 @@
+import type { BackupFile, BackupStoreDiff, BackupStoreEntry } from '../types';
+
+export const BACKUP_VERSION = 1;
+
+// What a store looks like today, to check a backup against
+export interface BackupSchema {
+  key: string;
+  label: string;
+  version: number;
+  initialState: Record<string, unknown>;
+}
+
+type Parsed = { backup: BackupFile | null; errors: string[]; warnings: string[] };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function kindOf(value: unknown): string {
+  if (Array.isArray(value)) return 'a list';
+  if (value === null) return 'empty';
+  return typeof value === 'object' ? 'a record' : `a ${typeof value}`;
+}
+
+/** A list of records with ids, e.g. tasks or children */
+function isRecordList(value: unknown): value is { id: string }[] {
+  return Array.isArray(value) && value.length > 0 &&
+    value.every((item) => isPlainObject(item) && typeof item.id === 'string');
+}
+
+/** A store's state without its actions, as it's persisted */
+export function getDataFields(state: object): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(state).filter(([, value]) => typeof value !== 'function'));
+}
+
+export function buildBackup(entries: Record<string, BackupStoreEntry>): BackupFile {
+  return {
+    app: 'rhythm',
+    backupVersion: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    stores: entries,
+  };
+}
+
+/**
+ * Read a backup file and check it against the stores as they are now.
+ * Stores saved at an older version only need to be objects — their own
+ * migrations reshape them on import.
+ */
+export function parseBackup(text: string, schemas: BackupSchema[]): Parsed {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { backup: null, errors: ["This file isn't valid JSON."], warnings };
+  }
+  if (!isPlainObject(raw) || raw.app !== 'rhythm' || !isPlainObject(raw.stores)) {
+    return { backup: null, errors: ["This doesn't look like a Rhythm backup."], warnings };
+  }
+  if (typeof raw.backupVersion !== 'number' || raw.backupVersion > BACKUP_VERSION) {
+    return { backup: null, errors: ['This backup was made by a newer version of the app.'], warnings };
+  }
+
+  const schemaByKey = new Map(schemas.map((s) => [s.key, s]));
+  const stores: Record<string, BackupStoreEntry> = {};
+
+  for (const [key, entry] of Object.entries(raw.stores)) {
+    const schema = schemaByKey.get(key);
+    if (!schema) {
+      warnings.push(`Skipping unknown data "${key}".`);
+      continue;
+    }
+    if (!isPlainObject(entry) || typeof entry.version !== 'number' || !isPlainObject(entry.state)) {
+      errors.push(`${schema.label}: the saved data is damaged.`);
+      continue;
+    }
+    if (entry.version > schema.version) {
+      errors.push(`${schema.label}: saved by a newer version of the app.`);
+      continue;
+    }
+
+    if (entry.version === schema.version) {
+      for (const [field, expected] of Object.entries(schema.initialState)) {
+        const value = entry.state[field];
+        if (value === undefined || value === null || expected === null) continue;
+        if (kindOf(value) !== kindOf(expected)) {
+          errors.push(`${schema.label}: "${field}" should be ${kindOf(expected)}, not ${kindOf(value)}.`);
+        } else if (Array.isArray(value) && value.some((item) => isPlainObject(item) && 'id' in item && typeof item.id !== 'string')) {
+          errors.push(`${schema.label}: "${field}" has an entry without a proper id.`);
+        }
+      }
+    }
+
+    stores[key] = { version: entry.version, state: entry.state };
+  }
+
+  for (const schema of schemas) {
+    if (!stores[schema.key] && !errors.some((e) => e.startsWith(`${schema.label}:`))) {
+      warnings.push(`No ${schema.label.toLowerCase()} in this backup.`);
+    }
+  }
+
+  return {
+    backup: errors.length > 0 ? null : {
+      app: 'rhythm',
+      backupVersion: raw.backupVersion,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      stores,
+    },
+    errors,
+    warnings,
+  };
+}
+
+/** What importing a store's backup would change, counted by record id where it can be */
+export function diffStoreState(
+  schema: Pick<BackupSchema, 'key' | 'label'>,
+  current: Record<string, unknown>,
+  incoming: Record<string, unknown> | undefined
+): BackupStoreDiff {
+  const diff: BackupStoreDiff = {
+    key: schema.key,
+    label: schema.label,
+    inBackup: incoming !== undefined,
+    added: 0,
+    removed: 0,
+    changed: 0,
+    settingsChanged: false,
+  };
+  if (!incoming) return diff;
+
+  for (const field of new Set([...Object.keys(current), ...Object.keys(incoming)])) {
+    const here = current[field];
+    const there = incoming[field];
+    if (isRecordList(here) || isRecordList(there)) {
+      const hereById = new Map((Array.isArray(here) ? here : []).map((item) => [item.id, JSON.stringify(item)]));
+      const thereById = new Map((Array.isArray(there) ? there : []).map((item) => [item.id, JSON.stringify(item)]));
+      for (const [id, json] of thereById) {
+        if (!hereById.has(id)) diff.added++;
+        else if (hereById.get(id) !== json) diff.changed++;
+      }
+      for (const id of hereById.keys()) {
+        if (!thereById.has(id)) diff.removed++;
+      }
+    } else if (there !== undefined && JSON.stringify(here) !== JSON.stringify(there)) {
+      diff.settingsChanged = true;
+    }
+  }
+  return diff;
+}
+
+/**
+ * Fold a backup into what's here: records the backup adds are kept,
+ * anything that exists on both sides keeps its current value
+ */
+export function mergeStoreState(
+  current: Record<string, unknown>,
+  incoming: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  for (const [field, there] of Object.entries(incoming)) {
+    const here = current[field];
+    if (typeof there === 'function') continue;
+
+    if (Array.isArray(here) && Array.isArray(there)) {
+      if (isRecordList(here) || isRecordList(there)) {
+        const ids = new Set(here.map((item) => (item as { id: string }).id));
+        merged[field] = [...here, ...there.filter((item) => !ids.has((item as { id: string }).id))];
+      } else {
+        const seen = new Set(here.map((item) => JSON.stringify(item)));
+        merged[field] = [...here, ...there.filter((item) => !seen.has(JSON.stringify(item)))];
+      }
+    } else if (isPlainObject(here) && isPlainObject(there)) {
+      merged[field] = { ...there, ...here };
+    } else {
+      merged[field] = here === undefined || here === null ? there : here;
+    }
+  }
+  return merged;
+}
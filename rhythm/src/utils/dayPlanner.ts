@@ -0,0 +1,155 @@
+import { parseISO, differenceInCalendarDays } from 'date-fns';
+import type { AvailabilityState, AvailabilityWindow, ChildStatuses, PlannedTask, Task, TaskInstance, TimeBlock } from '../types';
+import { minutesToTime } from './scheduling';
+
+const TIME_BLOCK_RANGES: Record<TimeBlock, [number, number]> = {
+  morning: [5 * 60, 11 * 60],
+  midday: [11 * 60, 14 * 60],
+  afternoon: [14 * 60, 17 * 60],
+  evening: [17 * 60, 22 * 60],
+};
+
+export interface PlannerCandidate {
+  task: Task;
+  instance: TaskInstance;
+}
+
+export interface DayPlanInput {
+  candidates: PlannerCandidate[];
+  windows: AvailabilityWindow[];
+  statusesAt: (window: AvailabilityWindow) => ChildStatuses;
+  isSuggested: (task: Task, state: AvailabilityState, statuses: ChildStatuses) => boolean;
+  durationOf: (task: Task) => number;  // estimated minutes
+  fromMinutes: number;                 // nothing is planned before this
+  today: string;                       // YYYY-MM-DD
+  accepted?: Record<string, number>;   // taskId → accepted start minutes
+  shuffle?: number;                    // 0 = best fit; other values vary the plan
+}
+
+export interface DayPlan {
+  planned: PlannedTask[];
+  unplaced: PlannerCandidate[];
+}
+
+/** Small deterministic PRNG so a shuffle stays put across re-renders */
+function seededRandom(seed: number): () => number {
+  let state = seed * 9301 + 49297;
+  return () => {
+    state = (state * 9301 + 49297) % 233280;
+    return state / 233280;
+  };
+}
+
+/** Lower sorts first: overdue, then due soonest, then oldest seed */
+function getUrgency({ task, instance }: PlannerCandidate, today: Date): number {
+  if (task.dueDate) return differenceInCalendarDays(parseISO(task.dueDate), today);
+  return 30 + differenceInCalendarDays(parseISO(instance.date), today);
+}
+
+function hasAvailabilityPreference(task: Task): boolean {
+  return (task.bestWhen?.length ?? 0) > 0 ||
+    (!!task.napContext && task.napContext !== 'any') ||
+    (!!task.careContext && task.careContext !== 'any');
+}
+
+function overlapsTimeBlock(window: AvailabilityWindow, block: TimeBlock): boolean {
+  const [start, end] = TIME_BLOCK_RANGES[block];
+  return window.startMinutes < end && window.endMinutes > start;
+}
+
+/**
+ * Propose which to-dos go in which of the day's windows. Accepted tasks
+ * keep the window that still holds their accepted time; everything else
+ * is placed by urgency, preferring the task's time of day. A window is
+ * never filled beyond its length — what doesn't fit is returned unplaced.
+ */
+export function planDay({
+  candidates,
+  windows,
+  statusesAt,
+  isSuggested,
+  durationOf,
+  fromMinutes,
+  today,
+  accepted = {},
+  shuffle = 0,
+}: DayPlanInput): DayPlan {
+  const todayDate = parseISO(today);
+  const random = seededRandom(shuffle);
+
+  // Only what's left of each window is available
+  const slots = windows
+    .filter((window) => window.state !== 'unavailable' && window.endMinutes > fromMinutes)
+    .map((window) => ({
+      window,
+      statuses: statusesAt(window),
+      nextFree: Math.max(window.startMinutes, fromMinutes),
+    }));
+
+  const ordered = [...candidates].sort((a, b) => {
+    const aAccepted = accepted[a.task.id] !== undefined ? 0 : 1;
+    const bAccepted = accepted[b.task.id] !== undefined ? 0 : 1;
+    if (aAccepted !== bAccepted) return aAccepted - bAccepted;
+    return getUrgency(a, todayDate) - getUrgency(b, todayDate);
+  });
+  if (shuffle !== 0) {
+    // Shuffle within the unaccepted, not-yet-due tasks so deadlines still win
+    const isFlexible = (c: PlannerCandidate) =>
+      accepted[c.task.id] === undefined && getUrgency(c, todayDate) > 0;
+    const flexible = ordered.filter(isFlexible);
+    for (let i = flexible.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [flexible[i], flexible[j]] = [flexible[j], flexible[i]];
+    }
+    let next = 0;
+    ordered.forEach((c, i) => {
+      if (isFlexible(c)) ordered[i] = flexible[next++];
+    });
+  }
+
+  // To-dos without a preference go wherever your hands are free
+  const fitsWindow = (task: Task, slot: typeof slots[number]) =>
+    hasAvailabilityPreference(task)
+      ? isSuggested(task, slot.window.state, slot.statuses)
+      : slot.window.state === 'free' || slot.window.state === 'quiet';
+
+  const planned: PlannedTask[] = [];
+  const unplaced: PlannerCandidate[] = [];
+
+  for (const candidate of ordered) {
+    const { task, instance } = candidate;
+    const duration = durationOf(task);
+    const fitting = slots.filter(
+      (slot) => slot.window.endMinutes - slot.nextFree >= duration && fitsWindow(task, slot)
+    );
+
+    const acceptedAt = accepted[task.id];
+    const acceptedSlot = acceptedAt === undefined
+      ? undefined
+      : fitting.find((slot) => acceptedAt >= slot.window.startMinutes && acceptedAt < slot.window.endMinutes);
+    const preferred = task.preferredTimeBlock
+      ? fitting.filter((slot) => overlapsTimeBlock(slot.window, task.preferredTimeBlock!))
+      : [];
+    const choices = preferred.length > 0 ? preferred : fitting;
+    const slot = acceptedSlot ??
+      (shuffle !== 0 ? choices[Math.floor(random() * choices.length)] : choices[0]);
+
+    if (!slot) {
+      unplaced.push(candidate);
+      continue;
+    }
+    planned.push({
+      taskId: task.id,
+      instanceId: instance.id,
+      state: slot.window.state,
+      windowStart: slot.window.start,
+      start: minutesToTime(slot.nextFree),
+      end: minutesToTime(slot.nextFree + duration),
+      moved: acceptedAt !== undefined && !acceptedSlot,
+    });
+    slot.nextFree += duration;
+  }
+
+  planned.sort((a, b) => a.start.localeCompare(b.start));
+  return { planned, unplaced };
+}
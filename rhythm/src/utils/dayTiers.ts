@@ -0,0 +1,57 @@
+import type { DayTier, DayTierCriterion, DayTierProgress, SeasonOfLife, Task } from '../types';
+import { countsTowardCompletion } from './weeklyReview';
+
+export const DAY_TIERS: DayTier[] = ['good-enough', 'great', 'epic'];
+
+// Harder seasons ask for a fraction of each count (never less than one)
+const SEASON_SCALE: Record<SeasonOfLife, number> = {
+  'survival': 0.5,
+  'finding-footing': 0.75,
+  'steady-rhythm': 1,
+};
+
+/** Completions a criterion needs in the given season of life */
+export function getRequiredCount(criterion: DayTierCriterion, season: SeasonOfLife): number {
+  return Math.max(1, Math.ceil(criterion.count * SEASON_SCALE[season]));
+}
+
+export function matchesCriterion(task: Task, criterion: DayTierCriterion): boolean {
+  if (criterion.categories.includes(task.category)) return true;
+  if (criterion.taskTier && task.tier === criterion.taskTier) return true;
+  const title = task.title.toLowerCase();
+  return (criterion.keywords ?? []).some((keyword) => keyword && title.includes(keyword.toLowerCase()));
+}
+
+/**
+ * Progress on every criterion from the tasks completed today, and the
+ * highest tier reached. Tiers build on each other, so Great also needs
+ * everything Good Enough asks for.
+ */
+export function evaluateDayTier(
+  criteria: DayTierCriterion[],
+  season: SeasonOfLife,
+  completedTasks: Task[]
+): { tier: DayTier | null; progress: DayTierProgress[] } {
+  const counted = completedTasks.filter(countsTowardCompletion);
+  const progress = criteria.map((criterion) => ({
+    criterion,
+    done: counted.filter((task) => matchesCriterion(task, criterion)).length,
+    required: getRequiredCount(criterion, season),
+  }));
+
+  let tier: DayTier | null = null;
+  let hasCriteria = false;
+  for (const candidate of DAY_TIERS) {
+    const forTier = progress.filter((p) => p.criterion.tier === candidate);
+    if (forTier.some((p) => p.done < p.required)) break;
+    hasCriteria = hasCriteria || forTier.length > 0;
+    // A tier with nothing asked of it can't be reached on its own
+    if (hasCriteria) tier = candidate;
+  }
+  return { tier, progress };
+}
+
+/** Whether `tier` is at least as high as `than` */
+export function isTierAtLeast(tier: DayTier | null, than: DayTier): boolean {
+  return tier !== null && DAY_TIERS.indexOf(tier) >= DAY_TIERS.indexOf(than);
+}
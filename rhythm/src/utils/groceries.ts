@@ -0,0 +1,131 @@
+import type { GroceryItem, GrocerySection } from '../types';
+
+type ParsedIngredient = Pick<GroceryItem, 'name' | 'quantity' | 'unit'>;
+
+// Spellings of each unit, mapped to the one shown on the list
+const UNIT_ALIASES: Record<string, string> = {
+  cup: 'cup', cups: 'cup', c: 'cup',
+  tbsp: 'tbsp', tbs: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+  tsp: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  g: 'g', gram: 'g', grams: 'g',
+  kg: 'kg', kilogram: 'kg', kilograms: 'kg',
+  ml: 'ml', l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  can: 'can', cans: 'can', jar: 'jar', jars: 'jar',
+  bag: 'bag', bags: 'bag', box: 'box', boxes: 'box',
+  pack: 'pack', packs: 'pack', package: 'pack', packages: 'pack', pkg: 'pack',
+  bunch: 'bunch', bunches: 'bunch', clove: 'clove', cloves: 'clove',
+  slice: 'slice', slices: 'slice', pinch: 'pinch', dozen: 'dozen',
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = { '¼': 0.25, '½': 0.5, '¾': 0.75, '⅓': 1 / 3, '⅔': 2 / 3 };
+
+// Checked in order, so "tomato sauce" lands in pantry before produce
+const SECTION_KEYWORDS: [GrocerySection, string[]][] = [
+  ['household', ['soap', 'paper towel', 'toilet paper', 'detergent', 'diaper', 'wipe', 'foil', 'sponge', 'trash bag']],
+  ['frozen', ['frozen', 'ice cream']],
+  ['pantry', [
+    'rice', 'pasta', 'spaghetti', 'noodle', 'flour', 'sugar', 'oil', 'salt', 'black pepper', 'vinegar', 'sauce',
+    'stock', 'broth', 'bean', 'lentil', 'chickpea', 'oat', 'cereal', 'spice', 'powder', 'honey', 'jam',
+    'peanut butter', 'cracker', 'tuna', 'coffee', 'tea', 'syrup', 'baking soda', 'yeast',
+  ]],
+  ['meat-fish', ['chicken', 'beef', 'pork', 'turkey', 'sausage', 'bacon', 'ham', 'fish', 'salmon', 'shrimp', 'mince', 'steak', 'lamb']],
+  ['bakery', ['bread', 'bun', 'roll', 'bagel', 'tortilla', 'pita', 'croissant', 'baguette', 'muffin']],
+  ['dairy', ['milk', 'cheese', 'butter', 'yogurt', 'yoghurt', 'cream', 'egg', 'parmesan', 'cheddar', 'mozzarella', 'feta']],
+  ['produce', [
+    'apple', 'banana', 'berry', 'berries', 'lettuce', 'spinach', 'tomato', 'onion', 'garlic', 'potato', 'carrot',
+    'pepper', 'lemon', 'lime', 'avocado', 'cilantro', 'parsley', 'basil', 'broccoli', 'cucumber', 'zucchini',
+    'mushroom', 'celery', 'kale', 'ginger', 'grape', 'orange', 'pear', 'peach', 'corn', 'squash', 'herb',
+  ]],
+];
+
+function parseQuantity(text: string): number | null {
+  const parts = text.trim().split(/\s+/);
+  let total = 0;
+  for (const part of parts) {
+    if (UNICODE_FRACTIONS[part] !== undefined) {
+      total += UNICODE_FRACTIONS[part];
+    } else if (part.includes('/')) {
+      const [numerator, denominator] = part.split('/').map(Number);
+      if (!denominator) return null;
+      total += numerator / denominator;
+    } else {
+      total += Number(part);
+    }
+  }
+  return Number.isFinite(total) && total > 0 ? total : null;
+}
+
+/**
+ * Split an ingredient line like "1 1/2 cups rice, rinsed" into quantity,
+ * unit and name. Anything after a comma is preparation, not shopping.
+ */
+export function parseIngredient(line: string): ParsedIngredient {
+  let rest = line.split(',')[0].trim();
+  let quantity: number | null = null;
+  let unit: string | null = null;
+
+  const quantityMatch = rest.match(/^((?:\d+\/\d+|\d+(?:\.\d+)?|[¼½¾⅓⅔])(?:\s+(?:\d+\/\d+|[¼½¾⅓⅔]))?)\s*/);
+  if (quantityMatch) {
+    quantity = parseQuantity(quantityMatch[1]);
+    rest = rest.slice(quantityMatch[0].length);
+  }
+
+  const unitMatch = rest.match(/^([a-zA-Z]+)\.?\s+(.+)$/);
+  if (unitMatch && UNIT_ALIASES[unitMatch[1].toLowerCase()]) {
+    unit = UNIT_ALIASES[unitMatch[1].toLowerCase()];
+    rest = unitMatch[2];
+  }
+
+  return { name: rest.replace(/^of\s+/i, '').trim(), quantity, unit };
+}
+
+/** Same item regardless of case or a plural "s" */
+export function ingredientKey(name: string, unit: string | null): string {
+  const base = name.toLowerCase().trim()
+    .replace(/ies$/, 'y')
+    .replace(/(?<!s)s$/, '');
+  return `${base}|${unit ?? ''}`;
+}
+
+export function guessSection(name: string): GrocerySection {
+  const lower = name.toLowerCase();
+  for (const [section, keywords] of SECTION_KEYWORDS) {
+    if (keywords.some((keyword) => new RegExp(`\\b${keyword}(e?s)?\\b`).test(lower))) return section;
+  }
+  return 'other';
+}
+
+/**
+ * Turn every ingredient line across the planned meals into one list
+ * entry per item and unit, adding up quantities
+ */
+export function aggregateIngredients(lines: string[]): (ParsedIngredient & { section: GrocerySection })[] {
+  const merged = new Map<string, ParsedIngredient & { section: GrocerySection }>();
+  for (const line of lines) {
+    const parsed = parseIngredient(line);
+    if (!parsed.name) continue;
+    const key = ingredientKey(parsed.name, parsed.unit);
+    const existing = merged.get(key);
+    if (existing) {
+      existing.quantity = existing.quantity === null && parsed.quantity === null
+        ? null
+        : (existing.quantity ?? 0) + (parsed.quantity ?? 0);
+    } else {
+      merged.set(key, { ...parsed, section: guessSection(parsed.name) });
+    }
+  }
+  return [...merged.values()];
+}
+
+/** "1.5" → "1 1/2", for showing quantities the way recipes write them */
+export function formatQuantity(quantity: number): string {
+  const whole = Math.floor(quantity);
+  const fraction = quantity - whole;
+  const FRACTIONS: [number, string][] = [[0.25, '1/4'], [1 / 3, '1/3'], [0.5, '1/2'], [2 / 3, '2/3'], [0.75, '3/4']];
+  const match = FRACTIONS.find(([value]) => Math.abs(fraction - value) < 0.02);
+  if (fraction < 0.02) return `${whole}`;
+  if (match) return whole > 0 ? `${whole} ${match[1]}` : match[1];
+  return `${Math.round(quantity * 100) / 100}`;
+}
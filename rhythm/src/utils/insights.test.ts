@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { getPickupTimings } from './insights';
+import type { AwayLog, CareBlock } from '../types';
+
+const daycare: CareBlock = {
+  id: 'daycare',
+  childIds: ['ada'],
+  name: 'Daycare',
+  blockType: 'childcare',
+  recurrence: 'weekdays',
+  startTime: '08:30',
+  endTime: '16:00',
+  travelTimeAfter: 15,
+  isActive: true,
+};
+
+const sitter: CareBlock = {
+  ...daycare,
+  id: 'sitter',
+  name: 'Sitter',
+  blockType: 'babysitter',
+  startTime: '22:00',
+  endTime: '06:00',
+  travelTimeAfter: 0,
+};
+
+function makeLog(date: string, startedAt: string, endedAt: string, scheduleName = 'Daycare'): AwayLog {
+  return {
+    id: `${date}-${endedAt}`,
+    childId: 'ada',
+    date,
+    startedAt: new Date(startedAt).toISOString(),
+    endedAt: new Date(endedAt).toISOString(),
+    scheduleName,
+  };
+}
+
+describe('getPickupTimings', () => {
+  const blockFor = (log: AwayLog) => (log.scheduleName === 'Sitter' ? sitter : daycare);
+
+  it('counts pickups within the grace period after end plus travel as on time', () => {
+    const [timing] = getPickupTimings([
+      makeLog('2026-01-05', '2026-01-05T08:30', '2026-01-05T16:15'),
+      makeLog('2026-01-06', '2026-01-06T08:30', '2026-01-06T16:20'),
+      makeLog('2026-01-07', '2026-01-07T08:30', '2026-01-07T16:45'),
+    ], blockFor);
+    expect(timing).toMatchObject({ onTime: 2, late: 1, lateMinutes: [30] });
+  });
+
+  it('compares overnight blocks against the next morning', () => {
+    const [timing] = getPickupTimings([
+      makeLog('2026-01-05', '2026-01-05T22:00', '2026-01-06T06:00', 'Sitter'),
+      makeLog('2026-01-06', '2026-01-06T22:00', '2026-01-07T07:00', 'Sitter'),
+    ], blockFor);
+    expect(timing).toMatchObject({ blockName: 'Sitter', onTime: 1, late: 1, lateMinutes: [60] });
+  });
+
+  it('counts a pickup on a later day as late', () => {
+    const [timing] = getPickupTimings([
+      makeLog('2026-01-05', '2026-01-05T08:30', '2026-01-06T09:00'),
+    ], blockFor);
+    expect(timing).toMatchObject({ onTime: 0, late: 1, lateMinutes: [17 * 60 - 15] });
+  });
+});
@@ -0,0 +1,176 @@
+import { addMinutes, differenceInMinutes, format, parseISO, startOfWeek } from 'date-fns';
+import type {
+  ActivityEntry,
+  AvailabilityState,
+  AvailabilityWindow,
+  AwayLog,
+  CareBlock,
+  Flower,
+  PickupTiming,
+  RoutineStreak,
+  Task,
+  TaskCategory,
+  TaskInstance,
+  WeekTotals,
+} from '../types';
+import { countsTowardCompletion } from './weeklyReview';
+import { getSpanMinutes } from './scheduling';
+
+// Coming home this much after the scheduled time still counts as on time
+const PICKUP_GRACE_MINUTES = 5;
+
+function weekKey(date: string): string {
+  return format(startOfWeek(parseISO(date)), 'yyyy-MM-dd');
+}
+
+function minutesOfDay(iso: string): number {
+  const date = parseISO(iso);
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+/**
+ * Completion rate, coins and flowers for each week (keyed by the Sunday
+ * it starts on)
+ */
+export function getWeeklyTotals(
+  weekStarts: string[],
+  tasks: Task[],
+  instances: TaskInstance[],
+  activity: ActivityEntry[],
+  flowers: Flower[]
+): WeekTotals[] {
+  const totals = new Map(weekStarts.map((weekStart) => [
+    weekStart,
+    { weekStart, completed: 0, total: 0, coins: 0, flowers: 0 },
+  ]));
+  const taskById = new Map(tasks.map((task) => [task.id, task]));
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  for (const instance of instances) {
+    const week = totals.get(weekKey(instance.date));
+    const task = taskById.get(instance.taskId);
+    if (!week || !task || !countsTowardCompletion(task)) continue;
+    // Seeds waiting in the tray and today's open tasks aren't decided yet
+    if (instance.status === 'deferred' || (instance.status === 'pending' && instance.date >= today)) continue;
+    week.total += 1;
+    if (instance.status === 'completed') week.completed += 1;
+  }
+
+  for (const entry of activity) {
+    const week = totals.get(weekKey(entry.date));
+    if (week && entry.type === 'coins-earned' && !entry.undoneAt) week.coins += entry.amount ?? 0;
+  }
+
+  for (const flower of flowers) {
+    const week = totals.get(weekKey(flower.earnedDate.slice(0, 10)));
+    if (week) week.flowers += 1;
+  }
+
+  return weekStarts.map((weekStart) => totals.get(weekStart)!);
+}
+
+/**
+ * Current and best run of completed days for each routine. Days the
+ * routine wasn't scheduled don't break a streak, and neither does today
+ * while it's still open.
+ */
+export function getRoutineStreaks(tasks: Task[], instances: TaskInstance[], today: string): RoutineStreak[] {
+  return tasks
+    .filter((task) => task.tier === 'routine' && task.isActive)
+    .map((task) => {
+      const days = instances
+        .filter((i) => i.taskId === task.id && i.status !== 'deferred' && !(i.date === today && i.status === 'pending'))
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+      let run = 0;
+      let best = 0;
+      for (const instance of days) {
+        run = instance.status === 'completed' ? run + 1 : 0;
+        best = Math.max(best, run);
+      }
+      return { taskId: task.id, current: run, best };
+    })
+    .filter((streak) => streak.best > 0)
+    .sort((a, b) => b.current - a.current || b.best - a.best);
+}
+
+/**
+ * How many completions happened in each kind of planned window
+ */
+export function getCompletionsByState(
+  instances: TaskInstance[],
+  windowsFor: (date: string) => AvailabilityWindow[]
+): Record<AvailabilityState, number> {
+  const counts: Record<AvailabilityState, number> = {
+    free: 0,
+    quiet: 0,
+    'one-on-one': 0,
+    parenting: 0,
+    unavailable: 0,
+  };
+  for (const instance of instances) {
+    if (instance.status !== 'completed' || !instance.completedAt) continue;
+    // Completions logged for a past day count on the day they happened
+    const doneDate = format(parseISO(instance.completedAt), 'yyyy-MM-dd');
+    const doneAt = minutesOfDay(instance.completedAt);
+    const window = windowsFor(doneDate).find((w) => doneAt >= w.startMinutes && doneAt < w.endMinutes);
+    if (window) counts[window.state] += 1;
+  }
+  return counts;
+}
+
+/**
+ * Minutes past midnight at which each category's tasks get done
+ */
+export function getCompletionTimesByCategory(
+  tasks: Task[],
+  instances: TaskInstance[]
+): Partial<Record<TaskCategory, number[]>> {
+  const taskById = new Map(tasks.map((task) => [task.id, task]));
+  const times: Partial<Record<TaskCategory, number[]>> = {};
+  for (const instance of instances) {
+    const task = taskById.get(instance.taskId);
+    if (instance.status !== 'completed' || !instance.completedAt || !task || !countsTowardCompletion(task)) continue;
+    (times[task.category] ??= []).push(minutesOfDay(instance.completedAt));
+  }
+  return times;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/**
+ * How often each child came home from a care block later than its end
+ * time plus travel. `blockFor` resolves the block a log was for on its date.
+ */
+export function getPickupTimings(
+  awayLogs: AwayLog[],
+  blockFor: (log: AwayLog) => CareBlock | null
+): PickupTiming[] {
+  const timings = new Map<string, PickupTiming>();
+  for (const log of awayLogs) {
+    if (!log.endedAt || !log.scheduleName) continue;
+    const block = blockFor(log);
+    if (!block) continue;
+
+    // Full timestamps from the log's date: overnight blocks end the next morning
+    const span = getSpanMinutes(block.startTime, block.endTime, 0, block.travelTimeAfter ?? 0);
+    const scheduledHome = addMinutes(parseISO(log.date), span.end);
+    const lateBy = differenceInMinutes(parseISO(log.endedAt), scheduledHome);
+
+    const key = `${log.childId}:${block.name}`;
+    const timing = timings.get(key) ?? { childId: log.childId, blockName: block.name, onTime: 0, late: 0, lateMinutes: [] };
+    if (lateBy > PICKUP_GRACE_MINUTES) {
+      timing.late += 1;
+      timing.lateMinutes.push(lateBy);
+    } else {
+      timing.onTime += 1;
+    }
+    timings.set(key, timing);
+  }
+  return [...timings.values()];
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { mergeLegacyPlannedMeals } from './mealPrep';
+import type { Task } from '../types';
+
+const dinner: Task = {
+  id: 'dinner',
+  type: 'meal',
+  mealType: 'dinner',
+  title: 'Dinner',
+  tier: 'fixed-schedule',
+  scheduledTime: '18:00',
+  recurrence: 'daily',
+  napContext: null,
+  isActive: true,
+  category: 'meals',
+  plannedMeals: { '2026-01-05': ' Tacos ', '2026-01-06': 'Soup', '2026-01-07': '  ' },
+};
+
+describe('mergeLegacyPlannedMeals', () => {
+  it('adds meal tasks\' planned meals as typed-in meals', () => {
+    expect(mergeLegacyPlannedMeals({}, [dinner])).toEqual({
+      '2026-01-05': { dinner: { title: 'Tacos', recipeId: null } },
+      '2026-01-06': { dinner: { title: 'Soup', recipeId: null } },
+    });
+  });
+
+  it('keeps what the meal plan already has', () => {
+    const plan = {
+      '2026-01-05': { lunch: { title: 'Sandwiches', recipeId: null } },
+      '2026-01-06': { dinner: { title: 'Pasta', recipeId: 'pasta' } },
+    };
+    expect(mergeLegacyPlannedMeals(plan, [dinner])).toEqual({
+      '2026-01-05': { lunch: { title: 'Sandwiches', recipeId: null }, dinner: { title: 'Tacos', recipeId: null } },
+      '2026-01-06': { dinner: { title: 'Pasta', recipeId: 'pasta' } },
+    });
+  });
+});
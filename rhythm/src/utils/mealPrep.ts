@@ -0,0 +1,91 @@
+import { addDays, addMinutes, differenceInMinutes, format, parseISO, subMinutes } from 'date-fns';
+import type { MealPlan, MealType, PlannedPrepStep, PrepStep, Recipe, Task } from '../types';
+import { timeToMinutes } from './scheduling';
+
+// When each meal is eaten, if there's no scheduled meal task to go by
+export const DEFAULT_MEAL_TIMES: Record<MealType, string> = {
+  breakfast: '08:00',
+  lunch: '12:00',
+  snack: '15:00',
+  dinner: '18:00',
+};
+
+/**
+ * The meal plan with what meal tasks used to note for each date added in
+ * as typed-in meals, keeping anything planned there since
+ */
+export function mergeLegacyPlannedMeals(mealPlan: MealPlan, tasks: Task[]): MealPlan {
+  const merged = { ...mealPlan };
+  for (const task of tasks) {
+    if (task.type !== 'meal') continue;
+    for (const [date, title] of Object.entries(task.plannedMeals ?? {})) {
+      if (!title.trim() || merged[date]?.[task.mealType]) continue;
+      merged[date] = { ...merged[date], [task.mealType]: { title: title.trim(), recipeId: null } };
+    }
+  }
+  return merged;
+}
+
+/** When a prep step should start for a meal eaten at `mealAt` */
+export function getPrepStart(step: PrepStep, mealAt: Date): Date {
+  if (step.time) {
+    const day = addDays(parseISO(format(mealAt, 'yyyy-MM-dd')), -step.daysBefore);
+    return addMinutes(day, timeToMinutes(step.time));
+  }
+  return subMinutes(mealAt, step.minutesBefore ?? 0);
+}
+
+/**
+ * Lay out the prep steps for every planned recipe from `fromDate` on.
+ * Each meal's steps run in time order as a chain: the first at its own
+ * date and time, each later one after the one before it. Steps that
+ * would already have started land on `fromDate`.
+ */
+export function planMealPrep(
+  mealPlan: MealPlan,
+  recipes: Recipe[],
+  mealTimeFor: (mealType: MealType) => string,
+  fromDate: string
+): PlannedPrepStep[] {
+  const recipeById = new Map(recipes.map((r) => [r.id, r]));
+  const planned: PlannedPrepStep[] = [];
+
+  for (const [date, meals] of Object.entries(mealPlan)) {
+    if (date < fromDate) continue;
+    for (const [mealType, meal] of Object.entries(meals) as [MealType, typeof meals[MealType]][]) {
+      const recipe = meal?.recipeId ? recipeById.get(meal.recipeId) : undefined;
+      if (!recipe?.prepSteps?.length) continue;
+
+      const mealAt = addMinutes(parseISO(date), timeToMinutes(mealTimeFor(mealType)));
+      const steps = recipe.prepSteps
+        .map((step) => ({ step, start: getPrepStart(step, mealAt) }))
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+      steps.forEach(({ step, start }, i) => {
+        const previous = i > 0 ? steps[i - 1] : null;
+        const stepDate = format(start, 'yyyy-MM-dd');
+        planned.push({
+          ref: { date, mealType, recipeId: recipe.id, stepId: step.id },
+          title: `${step.title} (${recipe.title})`,
+          date: stepDate < fromDate ? fromDate : stepDate,
+          time: format(start, 'HH:mm'),
+          previousStepId: previous?.step.id ?? null,
+          delayMinutes: previous ? Math.max(0, differenceInMinutes(start, previous.start)) : 0,
+        });
+      });
+    }
+  }
+  return planned;
+}
+
+/** "8pm the night before", "8 hr before", "10:00 the day of" */
+export function describePrepTiming(step: PrepStep): string {
+  if (step.time) {
+    const when = format(parseISO(`2000-01-01T${step.time}`), 'h:mm a');
+    if (step.daysBefore === 0) return `${when} the day of`;
+    if (step.daysBefore === 1) return `${when} the day before`;
+    return `${when}, ${step.daysBefore} days before`;
+  }
+  const minutes = step.minutesBefore ?? 0;
+  return minutes % 60 === 0 ? `${minutes / 60} hr before` : `${minutes} min before`;
+}
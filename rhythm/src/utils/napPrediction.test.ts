@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { addMonths, parseISO } from 'date-fns';
+import { getAgeNapDefaults, getPredictedSleepStart, isAsleepInPrediction, predictNapDay } from './napPrediction';
+import type { Child, NapDayPrediction, NapLog, PredictedSleep } from '../types';
+
+function makeSleep(start: string, end: string | null, overrides: Partial<PredictedSleep> = {}): PredictedSleep {
+  return {
+    childId: 'ada',
+    sleepType: 'nap',
+    index: 0,
+    start,
+    end,
+    startRange: [start, start],
+    status: 'predicted',
+    ...overrides,
+  };
+}
+
+const day: NapDayPrediction = {
+  childId: 'ada',
+  date: '2026-01-05',
+  wakeTime: '07:00',
+  naps: [makeSleep('09:30', '10:30'), makeSleep('13:00', '14:30', { index: 1 })],
+  bedtime: makeSleep('19:30', null, { sleepType: 'night' }),
+  source: 'history',
+  sampleDays: 7,
+};
+
+describe('getAgeNapDefaults', () => {
+  const napsAt = (months: number) => getAgeNapDefaults('2025-01-01', addMonths(parseISO('2025-01-01'), months)).napCount;
+
+  it('drops a nap at each age bracket boundary', () => {
+    expect([0, 3].map(napsAt)).toEqual([4, 4]);
+    expect([4, 7, 8].map(napsAt)).toEqual([3, 3, 3]);
+    expect([9, 14].map(napsAt)).toEqual([2, 2]);
+    expect([15, 41].map(napsAt)).toEqual([1, 1]);
+    expect(napsAt(42)).toBe(0);
+  });
+});
+
+describe('predicted sleep', () => {
+  it('is asleep before waking, during naps and after bedtime', () => {
+    expect(isAsleepInPrediction(day, '06:00')).toBe(true);
+    expect(isAsleepInPrediction(day, '09:45')).toBe(true);
+    expect(isAsleepInPrediction(day, '10:30')).toBe(false);
+    expect(isAsleepInPrediction(day, '20:00')).toBe(true);
+  });
+
+  it('finds when the current sleep began', () => {
+    expect(getPredictedSleepStart(day, '13:15')).toBe('13:00');
+    expect(getPredictedSleepStart(day, '21:00')).toBe('19:30');
+    expect(getPredictedSleepStart(day, '11:00')).toBeNull();
+    expect(getPredictedSleepStart(day, '05:00')).toBeNull();
+  });
+});
+
+describe('predictNapDay', () => {
+  // Ten months old on the day: two naps, three hours awake between sleeps
+  const child: Child = { id: 'ada', name: 'Ada', birthdate: '2025-03-05', wakeTime: '07:00' };
+  const day = parseISO('2026-01-05');
+  const at = (time: string) => parseISO(`2026-01-05T${time}`);
+
+  function makeLog(date: string, sleepType: NapLog['sleepType'], startedAt: string, endedAt: string | null): NapLog {
+    return { id: `${sleepType}-${startedAt}`, childId: 'ada', date, startedAt, endedAt, sleepType };
+  }
+
+  it('predicts naps and bedtime from age defaults', () => {
+    const prediction = predictNapDay(child, [], day, at('08:00'));
+    expect(prediction.source).toBe('age-default');
+    expect(prediction.naps.map((nap) => [nap.start, nap.end, nap.status])).toEqual([
+      ['10:00', '11:30', 'predicted'],
+      ['14:30', '16:00', 'predicted'],
+    ]);
+    expect(prediction.bedtime.start).toBe('19:00');
+  });
+
+  it("keeps an unlogged nap at its predicted time rather than starting it now", () => {
+    const prediction = predictNapDay(child, [], day, at('10:30'));
+    expect(prediction.naps[0]).toMatchObject({ start: '10:00', end: '11:30', status: 'predicted' });
+  });
+
+  it('marks a nap missed once its window passes with nothing logged', () => {
+    const afternoon = predictNapDay(child, [], day, at('12:30'));
+    expect(afternoon.naps.map((nap) => nap.status)).toEqual(['missed', 'predicted']);
+    expect(afternoon.naps[1].start).toBe('14:30');
+    expect(isAsleepInPrediction(afternoon, '12:30')).toBe(false);
+
+    const evening = predictNapDay(child, [], day, at('18:00'));
+    expect(evening.naps.map((nap) => nap.status)).toEqual(['missed', 'missed']);
+    expect(isAsleepInPrediction(evening, '15:00')).toBe(false);
+    expect(isAsleepInPrediction(evening, '18:00')).toBe(false);
+    expect(isAsleepInPrediction(evening, '22:00')).toBe(true);
+  });
+
+  it('takes logged sleep as fact', () => {
+    const logs = [
+      makeLog('2026-01-04', 'night', '2026-01-04T19:30:00', '2026-01-05T06:30:00'),
+      makeLog('2026-01-05', 'nap', '2026-01-05T09:40:00', null),
+    ];
+    const prediction = predictNapDay(child, logs, day, at('10:00'));
+    expect(prediction.wakeTime).toBe('06:30');
+    expect(prediction.naps[0]).toMatchObject({ start: '09:40', end: '11:10', status: 'in-progress' });
+    expect(prediction.naps[1]).toMatchObject({ start: '14:10', status: 'predicted' });
+  });
+
+  it('learns from logged history, and still marks its naps missed', () => {
+    // Three days of waking at 06:30 and one nap from 12:00 to 14:00
+    const dates = ['2026-01-01', '2026-01-02', '2026-01-03', '2026-01-04'];
+    const history = dates.slice(1).flatMap((date, i) => [
+      makeLog(dates[i], 'night', `${dates[i]}T19:00:00`, `${date}T06:30:00`),
+      makeLog(date, 'nap', `${date}T12:00:00`, `${date}T14:00:00`),
+    ]);
+
+    const prediction = predictNapDay(child, history, day, at('15:00'));
+    expect(prediction.source).toBe('history');
+    expect(prediction.naps).toHaveLength(1);
+    expect(prediction.naps[0]).toMatchObject({ start: '12:00', end: '14:00', status: 'missed' });
+    expect(isAsleepInPrediction(prediction, '15:00')).toBe(false);
+  });
+});
@@ -0,0 +1,326 @@
+import { differenceInMinutes, differenceInMonths, format, parseISO, subDays } from 'date-fns';
+import type { CareBlock, Child, NapDayPrediction, NapLog, NapTransition, PredictedSleep } from '../types';
+import { minutesToTime, timeToMinutes } from './scheduling';
+
+const HISTORY_DAYS = 14;
+const MIN_SAMPLES = 3;     // Fewer logged samples than this → age defaults
+const MIN_SPREAD = 10;     // Narrowest confidence range (± minutes)
+const DEFAULT_SPREAD = 30; // Range used for age-based guesses
+
+const TRANSITION_MIN_DAYS = 5;  // Fully logged days needed before suggesting a transition
+const TRANSITION_SHARE = 0.6;   // Share of those days already on the lower nap count
+const TRANSITION_SKIPS = 4;     // Days with a skipped nap block in the last two weeks
+
+export interface AgeNapDefaults {
+  napCount: number;
+  wakeWindow: number;  // minutes awake before each nap and before bed
+  napLength: number;   // minutes
+}
+
+// Typical daytime sleep by age (upper bound in months, exclusive)
+const AGE_DEFAULTS: { maxMonths: number; defaults: AgeNapDefaults }[] = [
+  { maxMonths: 4, defaults: { napCount: 4, wakeWindow: 75, napLength: 60 } },
+  { maxMonths: 9, defaults: { napCount: 3, wakeWindow: 120, napLength: 75 } },
+  { maxMonths: 15, defaults: { napCount: 2, wakeWindow: 180, napLength: 90 } },
+  { maxMonths: 42, defaults: { napCount: 1, wakeWindow: 300, napLength: 120 } },
+];
+const NO_NAPS: AgeNapDefaults = { napCount: 0, wakeWindow: 720, napLength: 0 };
+
+/**
+ * Age-appropriate nap count, wake window and nap length for a child
+ */
+export function getAgeNapDefaults(birthdate: string, date: Date): AgeNapDefaults {
+  const months = differenceInMonths(date, parseISO(birthdate));
+  const match = AGE_DEFAULTS.find((entry) => months < entry.maxMonths);
+  return match?.defaults ?? NO_NAPS;
+}
+
+/**
+ * Wake window and nap length for the age bracket that takes `napCount` naps
+ */
+export function getNapDefaultsForCount(napCount: number): AgeNapDefaults {
+  return AGE_DEFAULTS.find((entry) => entry.defaults.napCount === napCount)?.defaults ?? NO_NAPS;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Typical value and ± spread (median absolute deviation) of a sample,
+ * or null when there are too few samples to trust
+ */
+function summarize(values: number[]): { typical: number; spread: number } | null {
+  if (values.length < MIN_SAMPLES) return null;
+  const typical = median(values);
+  const spread = median(values.map((v) => Math.abs(v - typical)));
+  return { typical: Math.round(typical), spread: Math.max(MIN_SPREAD, Math.round(spread)) };
+}
+
+/** Minutes from the start of `date` (can be negative or past 24:00) */
+function minutesFrom(iso: string, date: string): number {
+  return differenceInMinutes(parseISO(iso), parseISO(date));
+}
+
+interface DayLog {
+  wake: number | null;                        // Morning wake, minutes from midnight
+  naps: { start: number; end: number | null }[];
+  bedtime: number | null;
+}
+
+/**
+ * One child's sleep on a date: the night that ended that morning, that
+ * day's naps in order, and the night that started that evening
+ */
+function getDayLog(logs: NapLog[], date: string): DayLog {
+  const night = logs.find(
+    (log) => log.sleepType === 'night' && log.endedAt && format(parseISO(log.endedAt), 'yyyy-MM-dd') === date
+  );
+  const naps = logs
+    .filter((log) => log.sleepType === 'nap' && log.date === date)
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+    .map((log) => ({
+      start: minutesFrom(log.startedAt, date),
+      end: log.endedAt ? minutesFrom(log.endedAt, date) : null,
+    }));
+  const bed = logs.find((log) => log.sleepType === 'night' && log.date === date);
+
+  return {
+    wake: night?.endedAt ? minutesFrom(night.endedAt, date) : null,
+    naps,
+    bedtime: bed ? minutesFrom(bed.startedAt, date) : null,
+  };
+}
+
+interface SleepPattern {
+  wake: { typical: number; spread: number } | null;
+  napCount: number | null;
+  wakeWindows: ({ typical: number; spread: number } | null)[];
+  napLengths: ({ typical: number; spread: number } | null)[];
+  bedWindow: { typical: number; spread: number } | null;
+  sampleDays: number;
+}
+
+/**
+ * Learn a child's typical wake time, nap count, wake windows and nap
+ * lengths from the logged days before `date`
+ */
+function learnPattern(logs: NapLog[], date: Date): SleepPattern {
+  const wakes: number[] = [];
+  const napCounts: number[] = [];
+  const wakeWindows: number[][] = [];
+  const napLengths: number[][] = [];
+  const bedWindows: number[] = [];
+  let sampleDays = 0;
+
+  for (let daysAgo = 1; daysAgo <= HISTORY_DAYS; daysAgo++) {
+    const day = format(subDays(date, daysAgo), 'yyyy-MM-dd');
+    const { wake, naps, bedtime } = getDayLog(logs, day);
+    if (wake === null && naps.length === 0 && bedtime === null) continue;
+    sampleDays++;
+
+    if (wake !== null) wakes.push(wake);
+    if (naps.length > 0) napCounts.push(naps.length);
+
+    let lastWake = wake;
+    naps.forEach((nap, i) => {
+      if (lastWake !== null) (wakeWindows[i] ??= []).push(nap.start - lastWake);
+      if (nap.end !== null) (napLengths[i] ??= []).push(nap.end - nap.start);
+      lastWake = nap.end;
+    });
+    if (bedtime !== null && lastWake !== null) bedWindows.push(bedtime - lastWake);
+  }
+
+  return {
+    wake: summarize(wakes),
+    napCount: napCounts.length >= MIN_SAMPLES ? Math.round(median(napCounts)) : null,
+    wakeWindows: wakeWindows.map(summarize),
+    napLengths: napLengths.map(summarize),
+    bedWindow: summarize(bedWindows),
+    sampleDays,
+  };
+}
+
+function toRange(minutes: number, spread: number): [string, string] {
+  return [minutesToTime(minutes - spread), minutesToTime(minutes + spread)];
+}
+
+/**
+ * Predict a child's naps and bedtime for a date. Learned history is used
+ * where there's enough of it, with age-based defaults filling the gaps.
+ * Anything already logged that day is taken as fact, so a late wake or a
+ * short nap pushes every later nap and bedtime along with it.
+ */
+export function predictNapDay(child: Child, logs: NapLog[], date: Date, now: Date = new Date()): NapDayPrediction {
+  const dateStr = format(date, 'yyyy-MM-dd');
+  const childLogs = logs.filter((log) => log.childId === child.id);
+  const pattern = learnPattern(childLogs, date);
+  const defaults = getAgeNapDefaults(child.birthdate, date);
+  const isLearned = pattern.sampleDays >= MIN_SAMPLES;
+  const today = getDayLog(childLogs, dateStr);
+  const nowMinutes = format(now, 'yyyy-MM-dd') === dateStr ? differenceInMinutes(now, parseISO(dateStr)) : null;
+
+  const wake = today.wake
+    ?? pattern.wake?.typical
+    ?? timeToMinutes(child.wakeTime ?? '07:00');
+
+  const napCount = Math.max(today.naps.length, pattern.napCount ?? defaults.napCount);
+  const naps: PredictedSleep[] = [];
+  let lastWake = wake;
+
+  for (let i = 0; i < napCount; i++) {
+    const logged = today.naps[i];
+    const windowStats = pattern.wakeWindows[i];
+    const lengthStats = pattern.napLengths[i];
+    const napLength = lengthStats?.typical ?? defaults.napLength;
+
+    let start: number;
+    let end: number;
+    let status: PredictedSleep['status'];
+    let spread = 0; // Logged starts are certain
+
+    if (logged) {
+      start = logged.start;
+      if (logged.end !== null) {
+        end = logged.end;
+        status = 'done';
+      } else {
+        // Still asleep: expect a typical nap, but never an end that's already passed
+        end = Math.max(logged.start + napLength, nowMinutes ?? 0);
+        status = 'in-progress';
+      }
+    } else {
+      start = lastWake + (windowStats?.typical ?? defaults.wakeWindow);
+      end = start + napLength;
+      // Its whole window went by with nothing logged: it didn't happen. Later
+      // sleep keeps its timing, as if the day had gone to plan.
+      status = nowMinutes !== null && end <= nowMinutes ? 'missed' : 'predicted';
+      spread = windowStats?.spread ?? DEFAULT_SPREAD;
+    }
+
+    naps.push({
+      childId: child.id,
+      sleepType: 'nap',
+      index: i,
+      start: minutesToTime(start),
+      end: minutesToTime(end),
+      startRange: toRange(start, spread),
+      status,
+    });
+    lastWake = end;
+  }
+
+  // Bedtime follows the last wake window, unless it's already happened
+  let bedtimeMinutes: number;
+  let bedtimeSpread = 0;
+  let bedtimeStatus: PredictedSleep['status'] = 'predicted';
+  if (today.bedtime !== null) {
+    bedtimeMinutes = today.bedtime;
+    bedtimeStatus = 'in-progress';
+  } else if (pattern.bedWindow) {
+    bedtimeMinutes = lastWake + pattern.bedWindow.typical;
+    bedtimeSpread = pattern.bedWindow.spread;
+  } else if (child.bedtime && today.wake === null && today.naps.length === 0) {
+    // Nothing learned or logged yet: use the bedtime set for the child
+    bedtimeMinutes = timeToMinutes(child.bedtime);
+    bedtimeSpread = DEFAULT_SPREAD;
+  } else {
+    bedtimeMinutes = lastWake + defaults.wakeWindow;
+    bedtimeSpread = DEFAULT_SPREAD;
+  }
+
+  return {
+    childId: child.id,
+    date: dateStr,
+    wakeTime: minutesToTime(wake),
+    naps,
+    bedtime: {
+      childId: child.id,
+      sleepType: 'night',
+      index: 0,
+      start: minutesToTime(bedtimeMinutes),
+      end: null,
+      startRange: toRange(bedtimeMinutes, bedtimeSpread),
+      status: bedtimeStatus,
+    },
+    source: isLearned ? 'history' : 'age-default',
+    sampleDays: pattern.sampleDays,
+  };
+}
+
+/**
+ * Whether a child is expected to be asleep at an HH:mm time on the
+ * predicted day: before the morning wake, during a nap (not a missed
+ * one), or after bedtime
+ */
+export function isAsleepInPrediction(prediction: NapDayPrediction, time: string): boolean {
+  const minutes = timeToMinutes(time);
+  if (minutes < timeToMinutes(prediction.wakeTime)) return true;
+  if (minutes >= timeToMinutes(prediction.bedtime.start)) return true;
+  return prediction.naps.some(
+    (nap) => nap.status !== 'missed' && nap.end !== null && minutes >= timeToMinutes(nap.start) && minutes < timeToMinutes(nap.end)
+  );
+}
+
+/**
+ * When the predicted sleep a child is in at an HH:mm time began: the nap
+ * or bedtime start. Null if they're predicted awake, or still in the night
+ * that began the day before.
+ */
+export function getPredictedSleepStart(prediction: NapDayPrediction, time: string): string | null {
+  const minutes = timeToMinutes(time);
+  if (minutes < timeToMinutes(prediction.wakeTime)) return null;
+  if (minutes >= timeToMinutes(prediction.bedtime.start)) return prediction.bedtime.start;
+  const nap = prediction.naps.find(
+    (n) => n.status !== 'missed' && n.end !== null && minutes >= timeToMinutes(n.start) && minutes < timeToMinutes(n.end)
+  );
+  return nap?.start ?? null;
+}
+
+/**
+ * Notice a child dropping a nap (2→1 or 1→0): most fully logged days in
+ * the last two weeks had fewer naps than their schedule, or their nap
+ * blocks keep getting skipped. `napBlocks` are the child's daytime sleep
+ * blocks; with none, the age default stands in for the schedule.
+ */
+export function detectNapTransition(
+  child: Child,
+  logs: NapLog[],
+  napBlocks: CareBlock[],
+  date: Date
+): NapTransition | null {
+  const fromNaps = napBlocks.length > 0 ? napBlocks.length : getAgeNapDefaults(child.birthdate, date).napCount;
+  if (fromNaps !== 1 && fromNaps !== 2) return null;
+  const toNaps = fromNaps - 1;
+
+  const childLogs = logs.filter((log) => log.childId === child.id);
+  let loggedDays = 0;
+  let shortDays = 0;
+  for (let daysAgo = 1; daysAgo <= HISTORY_DAYS; daysAgo++) {
+    const { wake, naps, bedtime } = getDayLog(childLogs, format(subDays(date, daysAgo), 'yyyy-MM-dd'));
+    // Only days logged from morning wake to bedtime say anything about naps
+    if (wake === null || bedtime === null) continue;
+    loggedDays++;
+    if (naps.length <= toNaps) shortDays++;
+  }
+  if (loggedDays >= TRANSITION_MIN_DAYS && shortDays / loggedDays >= TRANSITION_SHARE) {
+    return { childId: child.id, fromNaps, toNaps, reason: 'logs', evidenceDays: shortDays };
+  }
+
+  // Holiday closures don't count; only naps skipped for this child do
+  const since = format(subDays(date, HISTORY_DAYS), 'yyyy-MM-dd');
+  const until = format(date, 'yyyy-MM-dd');
+  const skippedDays = new Set(
+    napBlocks.flatMap((block) => (block.exceptions ?? [])
+      .filter((ex) => ex.type === 'skip' && !ex.closureId && ex.date >= since && ex.date < until
+        && (!ex.childIds || ex.childIds.includes(child.id)))
+      .map((ex) => ex.date))
+  );
+  if (skippedDays.size >= TRANSITION_SKIPS) {
+    return { childId: child.id, fromNaps, toNaps, reason: 'skipped-naps', evidenceDays: skippedDays.size };
+  }
+
+  return null;
+}
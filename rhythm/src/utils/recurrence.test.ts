@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { parseISO } from 'date-fns';
+import {
+  describeRecurrence,
+  doesRecurrenceMatchDate,
+  getNextDueDate,
+  isAnchoredRecurrence,
+  isCompletionRelative,
+  upgradeLegacyRecurrence,
+} from './recurrence';
+import type { RecurrencePattern, RecurrenceRule } from '../types';
+
+// January 2026 starts on a Thursday: the 4th is a Sunday, the 5th a Monday
+const d = (date: string) => parseISO(date);
+
+function matchingDates(rule: RecurrenceRule, dates: string[], lastCompletedDate: string | null = null) {
+  return dates.filter((date) => doesRecurrenceMatchDate(rule, d(date), lastCompletedDate));
+}
+
+describe('doesRecurrenceMatchDate', () => {
+  const week = ['2026-01-04', '2026-01-05', '2026-01-06', '2026-01-07', '2026-01-08', '2026-01-09', '2026-01-10'];
+
+  it('matches the plain day rules', () => {
+    expect(matchingDates('daily', week)).toEqual(week);
+    expect(matchingDates('weekdays', week)).toEqual(week.slice(1, 6));
+    expect(matchingDates('weekends', week)).toEqual(['2026-01-04', '2026-01-10']);
+  });
+
+  it('keeps the legacy weekly (Sundays) and monthly (the 1st) rules', () => {
+    expect(matchingDates('weekly', week)).toEqual(['2026-01-04']);
+    expect(matchingDates('monthly', ['2026-01-01', '2026-01-02', '2026-02-01'])).toEqual(['2026-01-01', '2026-02-01']);
+  });
+
+  it('matches specific days of the week', () => {
+    expect(matchingDates({ type: 'specific-days', days: [1, 3] }, week)).toEqual(['2026-01-05', '2026-01-07']);
+    expect(matchingDates({ type: 'specific-days', days: [] }, week)).toEqual([]);
+  });
+
+  describe('anchored patterns', () => {
+    it('repeats every n days from the anchor, never before it', () => {
+      const rule: RecurrencePattern = { type: 'every-n-days', interval: 3, anchorDate: '2026-01-05' };
+      expect(matchingDates(rule, ['2026-01-02', '2026-01-05', '2026-01-06', '2026-01-08', '2026-01-11'])).toEqual([
+        '2026-01-05', '2026-01-08', '2026-01-11',
+      ]);
+    });
+
+    it('repeats on the chosen days every n weeks', () => {
+      const rule: RecurrencePattern = { type: 'every-n-weeks', interval: 2, days: [1, 3], anchorDate: '2026-01-05' };
+      expect(matchingDates(rule, ['2026-01-05', '2026-01-07', '2026-01-12', '2026-01-14', '2026-01-19', '2026-01-21'])).toEqual([
+        '2026-01-05', '2026-01-07', '2026-01-19', '2026-01-21',
+      ]);
+    });
+
+    it('falls back to the last day when a month is too short', () => {
+      const rule: RecurrencePattern = { type: 'day-of-month', day: 31, interval: 1, anchorDate: '2026-01-01' };
+      expect(matchingDates(rule, ['2026-01-31', '2026-02-28', '2026-04-29', '2026-04-30'])).toEqual([
+        '2026-01-31', '2026-02-28', '2026-04-30',
+      ]);
+    });
+
+    it('supports the last day of the month and month intervals', () => {
+      const last: RecurrencePattern = { type: 'day-of-month', day: 'last', interval: 1, anchorDate: '2026-01-01' };
+      expect(matchingDates(last, ['2026-02-27', '2026-02-28', '2026-03-31'])).toEqual(['2026-02-28', '2026-03-31']);
+
+      const everyOther: RecurrencePattern = { type: 'day-of-month', day: 15, interval: 2, anchorDate: '2026-01-15' };
+      expect(matchingDates(everyOther, ['2026-01-15', '2026-02-15', '2026-03-15'])).toEqual(['2026-01-15', '2026-03-15']);
+    });
+
+    it('matches the nth and last weekday of the month', () => {
+      const saturdays = ['2026-01-03', '2026-01-10', '2026-01-17', '2026-01-24', '2026-01-31'];
+      const second: RecurrencePattern = { type: 'nth-weekday', week: 2, weekday: 6, interval: 1, anchorDate: '2026-01-01' };
+      const lastSat: RecurrencePattern = { type: 'nth-weekday', week: -1, weekday: 6, interval: 1, anchorDate: '2026-01-01' };
+      expect(matchingDates(second, saturdays)).toEqual(['2026-01-10']);
+      expect(matchingDates(lastSat, saturdays)).toEqual(['2026-01-31']);
+    });
+  });
+
+  describe('completion-relative rules', () => {
+    const rule: RecurrencePattern = { type: 'after-completion', interval: 3, anchorDate: '2026-01-05' };
+
+    it('is first due on the anchor date', () => {
+      expect(getNextDueDate(rule, null)).toBe('2026-01-05');
+      expect(matchingDates(rule, ['2026-01-04', '2026-01-05', '2026-01-06'])).toEqual(['2026-01-05', '2026-01-06']);
+    });
+
+    it('comes due n days after the last completion and stays due until done', () => {
+      expect(getNextDueDate(rule, '2026-01-06')).toBe('2026-01-09');
+      expect(matchingDates(rule, ['2026-01-07', '2026-01-08', '2026-01-09', '2026-01-12'], '2026-01-06')).toEqual([
+        '2026-01-09', '2026-01-12',
+      ]);
+    });
+  });
+});
+
+describe('rule kinds', () => {
+  it('tells anchored and completion-relative rules apart', () => {
+    expect(isAnchoredRecurrence('daily')).toBe(false);
+    expect(isAnchoredRecurrence({ type: 'specific-days', days: [1] })).toBe(false);
+    expect(isAnchoredRecurrence({ type: 'every-n-days', interval: 2, anchorDate: '2026-01-01' })).toBe(true);
+    expect(isCompletionRelative({ type: 'after-completion', interval: 2, anchorDate: '2026-01-01' })).toBe(true);
+    expect(isCompletionRelative('weekly')).toBe(false);
+  });
+});
+
+describe('upgradeLegacyRecurrence', () => {
+  it('anchors legacy weekly and monthly rules', () => {
+    expect(upgradeLegacyRecurrence('weekly', d('2026-01-07'))).toEqual({
+      type: 'every-n-weeks', interval: 1, days: [0], anchorDate: '2026-01-04',
+    });
+    expect(upgradeLegacyRecurrence('monthly', d('2026-01-07'))).toEqual({
+      type: 'day-of-month', day: 1, interval: 1, anchorDate: '2026-01-01',
+    });
+    expect(upgradeLegacyRecurrence('weekdays', d('2026-01-07'))).toBe('weekdays');
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('summarises each rule', () => {
+    expect(describeRecurrence({ type: 'every-n-weeks', interval: 2, days: [2], anchorDate: '2026-01-01' })).toBe('Every other Tue');
+    expect(describeRecurrence({ type: 'nth-weekday', week: 2, weekday: 6, interval: 1, anchorDate: '2026-01-01' })).toBe('2nd Sat of the month');
+    expect(describeRecurrence({ type: 'day-of-month', day: 'last', interval: 3, anchorDate: '2026-01-01' })).toBe('Last day of every 3 months');
+  });
+});
@@ -0,0 +1,235 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  format,
+  getDate,
+  getDay,
+  getDaysInMonth,
+  getMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import type { RecurrencePattern, RecurrenceRule, WeekOfMonth } from '../types';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ORDINALS: Record<WeekOfMonth, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', [-1]: 'Last' };
+
+/**
+ * True for patterns that count from an anchor date (as opposed to the plain
+ * day-of-week rules, which a task's daysOfWeek can override)
+ */
+export function isAnchoredRecurrence(
+  rule: RecurrenceRule
+): rule is Exclude<RecurrencePattern, { type: 'specific-days' }> {
+  return typeof rule === 'object' && rule.type !== 'specific-days';
+}
+
+/**
+ * True for "N days after it was last done" rules, whose occurrences depend on
+ * completion history rather than the calendar
+ */
+export function isCompletionRelative(
+  rule: RecurrenceRule
+): rule is Extract<RecurrencePattern, { type: 'after-completion' }> {
+  return typeof rule === 'object' && rule.type === 'after-completion';
+}
+
+/**
+ * Next due date (YYYY-MM-DD) for a completion-relative rule
+ */
+export function getNextDueDate(
+  rule: Extract<RecurrencePattern, { type: 'after-completion' }>,
+  lastCompletedDate: string | null
+): string {
+  if (!lastCompletedDate) return rule.anchorDate;
+  return format(addDays(parseISO(lastCompletedDate), Math.max(1, rule.interval)), 'yyyy-MM-dd');
+}
+
+/**
+ * Check that the days/weeks/months elapsed since the anchor is a whole
+ * number of intervals. Negative elapsed (before the anchor) never matches.
+ */
+function isOnInterval(elapsed: number, interval: number): boolean {
+  return elapsed >= 0 && elapsed % Math.max(1, interval) === 0;
+}
+
+/**
+ * Check if a recurrence rule produces an occurrence on the given date.
+ * Completion-relative rules match every date from their next due date on
+ * (they stay due until done), so they need the last completion date.
+ */
+export function doesRecurrenceMatchDate(
+  rule: RecurrenceRule,
+  date: Date,
+  lastCompletedDate: string | null = null
+): boolean {
+  const dayOfWeek = getDay(date); // 0 = Sunday
+
+  if (typeof rule === 'string') {
+    switch (rule) {
+      case 'daily':
+        return true;
+      case 'weekdays':
+        return dayOfWeek >= 1 && dayOfWeek <= 5;
+      case 'weekends':
+        return dayOfWeek === 0 || dayOfWeek === 6;
+      case 'weekly':
+        return dayOfWeek === 0;
+      case 'monthly':
+        return getDate(date) === 1;
+      default:
+        return false;
+    }
+  }
+
+  if (rule.type === 'specific-days') {
+    return rule.days.includes(dayOfWeek);
+  }
+
+  if (rule.type === 'after-completion') {
+    const dueDate = parseISO(getNextDueDate(rule, lastCompletedDate));
+    return differenceInCalendarDays(date, dueDate) >= 0;
+  }
+
+  const anchor = parseISO(rule.anchorDate);
+  if (differenceInCalendarDays(date, anchor) < 0) return false;
+
+  switch (rule.type) {
+    case 'every-n-days':
+      return isOnInterval(differenceInCalendarDays(date, anchor), rule.interval);
+
+    case 'every-n-weeks':
+      return (
+        rule.days.includes(dayOfWeek) &&
+        isOnInterval(differenceInCalendarWeeks(date, anchor), rule.interval)
+      );
+
+    case 'day-of-month': {
+      if (!isOnInterval(differenceInCalendarMonths(date, anchor), rule.interval)) return false;
+      const lastDay = getDaysInMonth(date);
+      // Day 31 in a 30-day month falls on the 30th rather than being skipped
+      const targetDay = rule.day === 'last' ? lastDay : Math.min(rule.day, lastDay);
+      return getDate(date) === targetDay;
+    }
+
+    case 'nth-weekday': {
+      if (dayOfWeek !== rule.weekday) return false;
+      if (!isOnInterval(differenceInCalendarMonths(date, anchor), rule.interval)) return false;
+      if (rule.week === -1) {
+        return getMonth(addDays(date, 7)) !== getMonth(date);
+      }
+      return Math.ceil(getDate(date) / 7) === rule.week;
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Human-readable summary of a rule, e.g. "Every 3 days", "Every other Tue",
+ * "2nd Sat of the month"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  if (typeof rule === 'string') {
+    switch (rule) {
+      case 'daily': return 'Every day';
+      case 'weekdays': return 'Weekdays';
+      case 'weekends': return 'Weekends';
+      case 'weekly': return 'Every Sun';
+      case 'monthly': return '1st of the month';
+      default: return rule;
+    }
+  }
+
+  switch (rule.type) {
+    case 'specific-days':
+      return rule.days.length > 0
+        ? rule.days.map((d) => DAY_NAMES[d]).join(', ')
+        : 'No days selected';
+
+    case 'every-n-days':
+      return rule.interval <= 1 ? 'Every day' : `Every ${rule.interval} days`;
+
+    case 'every-n-weeks': {
+      const days = rule.days.length > 0
+        ? rule.days.map((d) => DAY_NAMES[d]).join(', ')
+        : 'no days';
+      if (rule.interval <= 1) return `Every ${days}`;
+      if (rule.interval === 2) return `Every other ${days}`;
+      return `Every ${rule.interval} weeks on ${days}`;
+    }
+
+    case 'day-of-month': {
+      const day = rule.day === 'last' ? 'Last day' : ordinalDay(rule.day);
+      return `${day} of ${monthSuffix(rule.interval)}`;
+    }
+
+    case 'nth-weekday':
+      return `${ORDINALS[rule.week]} ${DAY_NAMES[rule.weekday]} of ${monthSuffix(rule.interval)}`;
+
+    case 'after-completion':
+      return rule.interval <= 1
+        ? 'The day after it was last done'
+        : `${rule.interval} days after it was last done`;
+
+    default:
+      return '';
+  }
+}
+
+/**
+ * Short due label for a completion-relative task, e.g. "Due in 2 days",
+ * "Overdue by 3 days"
+ */
+export function describeDueIn(daysUntilDue: number): string {
+  if (daysUntilDue === 0) return 'Due today';
+  if (daysUntilDue === 1) return 'Due tomorrow';
+  if (daysUntilDue > 1) return `Due in ${daysUntilDue} days`;
+  const overdue = -daysUntilDue;
+  return `Overdue by ${overdue} day${overdue === 1 ? '' : 's'}`;
+}
+
+function ordinalDay(day: number): string {
+  const mod100 = day % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${day}th`;
+  switch (day % 10) {
+    case 1: return `${day}st`;
+    case 2: return `${day}nd`;
+    case 3: return `${day}rd`;
+    default: return `${day}th`;
+  }
+}
+
+function monthSuffix(interval: number): string {
+  if (interval <= 1) return 'the month';
+  if (interval === 2) return 'every other month';
+  return `every ${interval} months`;
+}
+
+/**
+ * Convert the legacy 'weekly' (always Sunday) and 'monthly' (always the 1st)
+ * rules into their anchored equivalents. Other rules pass through unchanged.
+ */
+export function upgradeLegacyRecurrence(rule: RecurrenceRule, today: Date): RecurrenceRule {
+  if (rule === 'weekly') {
+    return {
+      type: 'every-n-weeks',
+      interval: 1,
+      days: [0],
+      anchorDate: format(startOfWeek(today), 'yyyy-MM-dd'),
+    };
+  }
+  if (rule === 'monthly') {
+    return {
+      type: 'day-of-month',
+      day: 1,
+      interval: 1,
+      anchorDate: format(startOfMonth(today), 'yyyy-MM-dd'),
+    };
+  }
+  return rule;
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { parseISO } from 'date-fns';
+import {
+  adjustTime,
+  doesChildcareScheduleOccurOnDate,
+  findBlockOccurrenceAt,
+  findOccurrenceAt,
+  getSpanMinutes,
+  isTimeBetween,
+  minutesToTime,
+  occursOnDate,
+  resolveBlockOnDate,
+  spansMidnight,
+} from './scheduling';
+import type { CareBlock, ChildcareSchedule } from '../types';
+
+// January 2026 starts on a Thursday: the 5th is a Monday
+const d = (date: string) => parseISO(date);
+
+function makeBlock(overrides: Partial<CareBlock> = {}): CareBlock {
+  return {
+    id: 'daycare',
+    childIds: ['ada', 'ben'],
+    name: 'Daycare',
+    blockType: 'childcare',
+    recurrence: 'weekdays',
+    startTime: '08:30',
+    endTime: '16:00',
+    isActive: true,
+    ...overrides,
+  };
+}
+
+describe('occursOnDate', () => {
+  it('never occurs when inactive', () => {
+    expect(occursOnDate({ recurrence: 'daily', isActive: false }, d('2026-01-05'))).toBe(false);
+  });
+
+  it('occurs on a one-off date only', () => {
+    const oneOff = { recurrence: 'one-off' as const, oneOffDate: '2026-01-07' };
+    expect(occursOnDate(oneOff, d('2026-01-07'))).toBe(true);
+    expect(occursOnDate(oneOff, d('2026-01-08'))).toBe(false);
+  });
+
+  it('skips exception dates', () => {
+    expect(occursOnDate({ recurrence: 'daily' }, d('2026-01-05'), { exceptionDates: ['2026-01-05'] })).toBe(false);
+  });
+
+  it('lets daysOfWeek narrow plain rules but not anchored ones', () => {
+    expect(occursOnDate({ recurrence: 'daily', daysOfWeek: [2] }, d('2026-01-05'))).toBe(false);
+    expect(occursOnDate({ recurrence: 'daily', daysOfWeek: [2] }, d('2026-01-06'))).toBe(true);
+
+    const everyOtherDay = { type: 'every-n-days' as const, interval: 2, anchorDate: '2026-01-05' };
+    expect(occursOnDate({ recurrence: everyOtherDay, daysOfWeek: [2] }, d('2026-01-07'))).toBe(true);
+  });
+
+  it('passes the last completion to completion-relative rules', () => {
+    const rule = { type: 'after-completion' as const, interval: 7, anchorDate: '2026-01-01' };
+    expect(occursOnDate({ recurrence: rule }, d('2026-01-08'), { lastCompletedDate: '2026-01-05' })).toBe(false);
+    expect(occursOnDate({ recurrence: rule }, d('2026-01-12'), { lastCompletedDate: '2026-01-05' })).toBe(true);
+  });
+});
+
+describe('resolveBlockOnDate', () => {
+  it('follows the recurrence when there are no exceptions', () => {
+    expect(resolveBlockOnDate(makeBlock(), d('2026-01-05'))).toEqual(makeBlock());
+    expect(resolveBlockOnDate(makeBlock(), d('2026-01-10'))).toBeNull();
+    expect(resolveBlockOnDate(makeBlock({ isActive: false }), d('2026-01-05'))).toBeNull();
+  });
+
+  it('drops a skipped day, or just the children staying home', () => {
+    const skipAll = makeBlock({ exceptions: [{ id: 'x', date: '2026-01-05', type: 'skip' }] });
+    expect(resolveBlockOnDate(skipAll, d('2026-01-05'))).toBeNull();
+    expect(resolveBlockOnDate(skipAll, d('2026-01-06'))).not.toBeNull();
+
+    const skipAda = makeBlock({ exceptions: [{ id: 'x', date: '2026-01-05', type: 'skip', childIds: ['ada'] }] });
+    expect(resolveBlockOnDate(skipAda, d('2026-01-05'))?.childIds).toEqual(['ben']);
+
+    const skipBoth = makeBlock({ exceptions: [{ id: 'x', date: '2026-01-05', type: 'skip', childIds: ['ada', 'ben'] }] });
+    expect(resolveBlockOnDate(skipBoth, d('2026-01-05'))).toBeNull();
+  });
+
+  it('moves an occurrence to another date, with its new times', () => {
+    const moved = makeBlock({
+      exceptions: [{ id: 'x', date: '2026-01-05', type: 'move', toDate: '2026-01-10', startTime: '09:00', endTime: '12:00' }],
+    });
+    expect(resolveBlockOnDate(moved, d('2026-01-05'))).toBeNull();
+    expect(resolveBlockOnDate(moved, d('2026-01-10'))).toMatchObject({ startTime: '09:00', endTime: '12:00' });
+  });
+
+  it('changes the times for one day', () => {
+    const early = makeBlock({
+      exceptions: [{ id: 'x', date: '2026-01-05', type: 'change-times', startTime: '08:30', endTime: '12:00' }],
+    });
+    expect(resolveBlockOnDate(early, d('2026-01-05'))).toMatchObject({ startTime: '08:30', endTime: '12:00' });
+    expect(resolveBlockOnDate(early, d('2026-01-06'))?.endTime).toBe('16:00');
+  });
+});
+
+describe('doesChildcareScheduleOccurOnDate', () => {
+  it('occurs on its days of the week while active', () => {
+    const schedule: ChildcareSchedule = {
+      id: 's', childId: 'ada', name: 'Preschool', daysOfWeek: [1, 3], dropoffTime: '08:30', pickupTime: '12:00', isActive: true,
+    };
+    expect(doesChildcareScheduleOccurOnDate(schedule, d('2026-01-05'))).toBe(true);
+    expect(doesChildcareScheduleOccurOnDate(schedule, d('2026-01-06'))).toBe(false);
+    expect(doesChildcareScheduleOccurOnDate({ ...schedule, isActive: false }, d('2026-01-05'))).toBe(false);
+  });
+});
+
+describe('time spans', () => {
+  it('wraps spans that cross midnight', () => {
+    expect(spansMidnight('19:30', '07:00')).toBe(true);
+    expect(spansMidnight('08:30', '16:00')).toBe(false);
+
+    expect(isTimeBetween('12:00', '08:30', '16:00')).toBe(true);
+    expect(isTimeBetween('16:00', '08:30', '16:00')).toBe(false);
+    expect(isTimeBetween('23:00', '19:30', '07:00')).toBe(true);
+    expect(isTimeBetween('06:00', '19:30', '07:00')).toBe(true);
+    expect(isTimeBetween('12:00', '19:30', '07:00')).toBe(false);
+  });
+
+  it('measures overnight spans past 24:00, with padding', () => {
+    expect(getSpanMinutes('19:30', '07:00')).toEqual({ start: 1170, end: 1860 });
+    expect(getSpanMinutes('00:10', '01:00', 20, 15)).toEqual({ start: -10, end: 75 });
+  });
+
+  it('wraps times around midnight', () => {
+    expect(minutesToTime(1500)).toBe('01:00');
+    expect(minutesToTime(-30)).toBe('23:30');
+    expect(adjustTime('23:45', 30)).toBe('00:15');
+  });
+});
+
+describe('findOccurrenceAt', () => {
+  const nightly = () => getSpanMinutes('19:30', '07:00');
+
+  it('credits the small hours to the night before', () => {
+    expect(findOccurrenceAt(nightly, d('2026-01-06'), '06:00')).toEqual(d('2026-01-05'));
+    expect(findOccurrenceAt(nightly, d('2026-01-06'), '20:00')).toEqual(d('2026-01-06'));
+    expect(findOccurrenceAt(nightly, d('2026-01-06'), '12:00')).toBeNull();
+  });
+
+  it('only counts days the schedule occurs on', () => {
+    const mondaysOnly = (date: Date) => (date.getDay() === 1 ? nightly() : null);
+    expect(findOccurrenceAt(mondaysOnly, d('2026-01-06'), '06:00')).toEqual(d('2026-01-05'));
+    expect(findOccurrenceAt(mondaysOnly, d('2026-01-07'), '06:00')).toBeNull();
+  });
+
+  it('reaches back from the next day for padding before midnight', () => {
+    const early = () => getSpanMinutes('00:15', '02:00', 30);
+    expect(findOccurrenceAt(early, d('2026-01-05'), '23:50')).toEqual(d('2026-01-06'));
+  });
+});
+
+describe('findBlockOccurrenceAt', () => {
+  it('finds an overnight block from the day it started, after exceptions', () => {
+    const night = makeBlock({
+      name: 'Night shift sitter',
+      blockType: 'babysitter',
+      startTime: '22:00',
+      endTime: '06:00',
+      exceptions: [{ id: 'x', date: '2026-01-06', type: 'change-times', startTime: '22:00', endTime: '02:00' }],
+    });
+    expect(findBlockOccurrenceAt(night, d('2026-01-06'), '05:00')?.endTime).toBe('06:00');
+    expect(findBlockOccurrenceAt(night, d('2026-01-07'), '05:00')).toBeNull();
+    expect(findBlockOccurrenceAt(night, d('2026-01-07'), '01:00')?.endTime).toBe('02:00');
+  });
+
+  it('includes travel time on either side', () => {
+    const withTravel = makeBlock({ travelTimeBefore: 15, travelTimeAfter: 20 });
+    expect(findBlockOccurrenceAt(withTravel, d('2026-01-05'), '08:20')).not.toBeNull();
+    expect(findBlockOccurrenceAt(withTravel, d('2026-01-05'), '16:15')).not.toBeNull();
+    expect(findBlockOccurrenceAt(withTravel, d('2026-01-05'), '16:25')).toBeNull();
+  });
+});
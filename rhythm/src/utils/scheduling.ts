@@ -0,0 +1,238 @@
+import { addDays, format, getDay } from 'date-fns';
+import type { CareBlock, CareBlockException, ChildcareSchedule, RecurrenceRule } from '../types';
+import { doesRecurrenceMatchDate, isAnchoredRecurrence } from './recurrence';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Anything that repeats on a calendar: tasks, care blocks and childcare
+ * schedules all reduce to this shape
+ */
+export interface Schedulable {
+  recurrence: 'one-off' | RecurrenceRule;
+  oneOffDate?: string;              // YYYY-MM-DD, for recurrence 'one-off'
+  daysOfWeek?: number[] | null;     // Day filter for non-anchored rules (0=Sun)
+  isActive?: boolean;
+}
+
+export interface OccurrenceOptions {
+  /** Last completion date, for completion-relative rules */
+  lastCompletedDate?: string | null;
+  /** Dates (YYYY-MM-DD) the schedule is skipped even if the rule matches */
+  exceptionDates?: string[];
+}
+
+/**
+ * The single occurrence check every store uses. Order of precedence:
+ * inactive → exceptions → one-off date → anchored pattern → daysOfWeek → rule.
+ */
+export function occursOnDate(
+  schedule: Schedulable,
+  date: Date,
+  options: OccurrenceOptions = {}
+): boolean {
+  if (schedule.isActive === false) return false;
+
+  const dateStr = format(date, 'yyyy-MM-dd');
+  if (options.exceptionDates?.includes(dateStr)) return false;
+
+  if (schedule.recurrence === 'one-off') {
+    return schedule.oneOffDate === dateStr;
+  }
+
+  // Anchored patterns carry their own days, so daysOfWeek doesn't apply
+  if (isAnchoredRecurrence(schedule.recurrence)) {
+    return doesRecurrenceMatchDate(schedule.recurrence, date, options.lastCompletedDate ?? null);
+  }
+
+  if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0) {
+    return schedule.daysOfWeek.includes(getDay(date));
+  }
+
+  return doesRecurrenceMatchDate(schedule.recurrence, date);
+}
+
+/**
+ * A care block as it actually happens on `date` after its exceptions: null if
+ * it doesn't occur (or is skipped / moved away), otherwise the block with any
+ * changed times applied and children who are staying home removed
+ */
+export function resolveBlockOnDate(block: CareBlock, date: Date): CareBlock | null {
+  if (!block.isActive) return null;
+
+  const dateStr = format(date, 'yyyy-MM-dd');
+  const exceptions = block.exceptions ?? [];
+  const forDate = exceptions.filter((ex) => ex.date === dateStr);
+
+  let resolved: CareBlock | null =
+    occursOnDate(block, date) && !forDate.some((ex) => ex.type === 'move') ? block : null;
+
+  // An occurrence moved here from another date happens regardless of the rule
+  const movedIn = exceptions.find(
+    (ex): ex is Extract<CareBlockException, { type: 'move' }> => ex.type === 'move' && ex.toDate === dateStr
+  );
+  if (movedIn) {
+    resolved = {
+      ...block,
+      startTime: movedIn.startTime ?? block.startTime,
+      endTime: movedIn.endTime ?? block.endTime,
+    };
+  }
+  if (!resolved) return null;
+
+  for (const ex of forDate) {
+    if (ex.type === 'change-times') {
+      resolved = { ...resolved, startTime: ex.startTime, endTime: ex.endTime };
+    } else if (ex.type === 'skip') {
+      if (!ex.childIds || ex.childIds.length === 0) return null;
+      const skipped = ex.childIds;
+      const remaining: string[] = resolved.childIds.filter((id) => !skipped.includes(id));
+      if (remaining.length === 0) return null;
+      resolved = { ...resolved, childIds: remaining };
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Check if a care block occurs on a given date (after exceptions)
+ */
+export function doesBlockOccurOnDate(block: CareBlock, date: Date): boolean {
+  return resolveBlockOnDate(block, date) !== null;
+}
+
+/**
+ * The care block occurrence covering `time` on `date` (travel time
+ * included), resolved for its own date, or null. Overnight blocks count
+ * toward the day they start.
+ */
+export function findBlockOccurrenceAt(block: CareBlock, date: Date, time: string): CareBlock | null {
+  const getSpanOn = (d: Date) => {
+    const resolved = resolveBlockOnDate(block, d);
+    if (!resolved) return null;
+    return getSpanMinutes(
+      resolved.startTime,
+      resolved.endTime,
+      resolved.travelTimeBefore ?? 0,
+      resolved.travelTimeAfter ?? 0
+    );
+  };
+  const occurrence = findOccurrenceAt(getSpanOn, date, time);
+  return occurrence ? resolveBlockOnDate(block, occurrence) : null;
+}
+
+/**
+ * Check if a legacy childcare schedule occurs on a given date
+ */
+export function doesChildcareScheduleOccurOnDate(schedule: ChildcareSchedule, date: Date): boolean {
+  return occursOnDate(
+    {
+      recurrence: { type: 'specific-days', days: schedule.daysOfWeek },
+      isActive: schedule.isActive,
+    },
+    date
+  );
+}
+
+// Time helpers (HH:mm strings)
+
+/**
+ * Convert an HH:mm string to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * Convert minutes since midnight to an HH:mm string, wrapping around midnight
+ */
+export function minutesToTime(minutes: number): string {
+  const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const h = Math.floor(wrapped / 60);
+  const m = wrapped % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+/**
+ * True when a span's end is earlier than its start, i.e. it runs past midnight
+ * (e.g. night sleep 19:30–07:00)
+ */
+export function spansMidnight(start: string, end: string): boolean {
+  return timeToMinutes(end) < timeToMinutes(start);
+}
+
+/**
+ * Check if a time string (HH:mm) is in [start, end). Spans that cross
+ * midnight wrap, so 06:00 is between 19:30 and 07:00.
+ */
+export function isTimeBetween(current: string, start: string, end: string): boolean {
+  const currentMins = timeToMinutes(current);
+  const startMins = timeToMinutes(start);
+  const endMins = timeToMinutes(end);
+  if (endMins < startMins) {
+    return currentMins >= startMins || currentMins < endMins;
+  }
+  return currentMins >= startMins && currentMins < endMins;
+}
+
+/**
+ * A timed span as minutes from its occurrence date's midnight
+ */
+export interface SpanMinutes {
+  start: number;
+  end: number;
+}
+
+/**
+ * Overnight spans end past 24:00 (19:30–07:00 → 1170–1860), and padding such
+ * as travel time can push the start before 00:00
+ */
+export function getSpanMinutes(
+  startTime: string,
+  endTime: string,
+  paddingBefore = 0,
+  paddingAfter = 0
+): SpanMinutes {
+  const start = timeToMinutes(startTime);
+  let end = timeToMinutes(endTime);
+  if (end < start) end += MINUTES_PER_DAY;
+  return { start: start - paddingBefore, end: end + paddingAfter };
+}
+
+/**
+ * Find which occurrence of a timed schedule covers `time` on `date`. A span
+ * belongs to the day it starts on, so the small hours of `date` may be
+ * covered by the previous day's overnight occurrence (and padding can reach
+ * back from the next day's). `getSpanOn` returns null on days it doesn't
+ * occur. Returns the occurrence date, or null.
+ */
+export function findOccurrenceAt(
+  getSpanOn: (date: Date) => SpanMinutes | null,
+  date: Date,
+  time: string
+): Date | null {
+  const minutes = timeToMinutes(time);
+  for (const offset of [0, -1, 1]) {
+    const occurrence = addDays(date, offset);
+    const span = getSpanOn(occurrence);
+    const relative = minutes - offset * MINUTES_PER_DAY;
+    if (span && relative >= span.start && relative < span.end) return occurrence;
+  }
+  return null;
+}
+
+/**
+ * Get a date's time as an HH:mm string (defaults to now)
+ */
+export function getCurrentTimeString(now: Date = new Date()): string {
+  return minutesToTime(now.getHours() * 60 + now.getMinutes());
+}
+
+/**
+ * Adjust time by minutes (for travel time calculations)
+ */
+export function adjustTime(time: string, minutes: number): string {
+  return minutesToTime(timeToMinutes(time) + minutes);
+}
@@ -0,0 +1,79 @@
+import { differenceInMonths, parseISO } from 'date-fns';
+import type { CareBlock, Child } from '../types';
+import { getAgeNapDefaults, getNapDefaultsForCount } from './napPrediction';
+import { minutesToTime, spansMidnight, timeToMinutes } from './scheduling';
+
+export type SleepBlockInput = Omit<CareBlock, 'id' | 'childIds'>;
+
+/**
+ * Daytime sleep blocks are naps; a sleep block that runs past midnight is
+ * the child's night sleep
+ */
+export function isNapBlock(block: CareBlock): boolean {
+  return block.blockType === 'sleep' && !spansMidnight(block.startTime, block.endTime);
+}
+
+function getNapNames(napCount: number): string[] {
+  if (napCount === 1) return ['Nap'];
+  if (napCount === 2) return ['Morning nap', 'Afternoon nap'];
+  return Array.from({ length: napCount }, (_, i) => `Nap ${i + 1}`);
+}
+
+/**
+ * Daily nap blocks laid out from the child's wake time using the wake
+ * windows for their age (or for `napCount` naps, when dropping one)
+ */
+export function buildNapBlocks(
+  child: Pick<Child, 'birthdate' | 'wakeTime'>,
+  date: Date,
+  napCount?: number
+): SleepBlockInput[] {
+  const defaults = napCount === undefined
+    ? getAgeNapDefaults(child.birthdate, date)
+    : getNapDefaultsForCount(napCount);
+  const names = getNapNames(defaults.napCount);
+
+  let lastWake = timeToMinutes(child.wakeTime ?? '07:00');
+  return names.map((name) => {
+    const start = lastWake + defaults.wakeWindow;
+    lastWake = start + defaults.napLength;
+    return {
+      name,
+      blockType: 'sleep',
+      recurrence: 'daily',
+      startTime: minutesToTime(start),
+      endTime: minutesToTime(lastWake),
+      isActive: true,
+    };
+  });
+}
+
+/**
+ * Age-appropriate naps plus a night sleep block from bedtime to wake time
+ */
+export function buildSleepBlocks(
+  child: Pick<Child, 'birthdate' | 'wakeTime' | 'bedtime'>,
+  date: Date
+): SleepBlockInput[] {
+  return [
+    ...buildNapBlocks(child, date),
+    {
+      name: 'Night sleep',
+      blockType: 'sleep',
+      recurrence: 'daily',
+      startTime: child.bedtime ?? '19:30',
+      endTime: child.wakeTime ?? '07:00',
+      isActive: true,
+    },
+  ];
+}
+
+/** "2 naps, typical at 10 months" */
+export function describeSleepTemplate(birthdate: string, date: Date): string | null {
+  const months = differenceInMonths(date, parseISO(birthdate));
+  if (Number.isNaN(months)) return null;
+  const { napCount } = getAgeNapDefaults(birthdate, date);
+  const naps = napCount === 0 ? 'No naps' : `${napCount} nap${napCount === 1 ? '' : 's'}`;
+  const age = months < 24 ? `${months} month${months === 1 ? '' : 's'}` : `${Math.floor(months / 12)} years`;
+  return `${naps}, typical at ${age}`;
+}
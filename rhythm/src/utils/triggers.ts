@@ -0,0 +1,154 @@
+import { addMinutes, startOfDay, subMinutes } from 'date-fns';
+import type { Task } from '../types';
+
+/** Every event a task waits for: triggeredBy plus any additional triggers */
+export function getTaskTriggers(task: Pick<Task, 'triggeredBy' | 'additionalTriggers'>): string[] {
+  return [task.triggeredBy, ...(task.additionalTriggers ?? [])].filter((key): key is string => !!key);
+}
+
+/**
+ * When a triggered task comes due today: the delay after its event (after
+ * the last of them with 'all', the first with 'any'). Only firings that
+ * come due today count, so yesterday's nap doesn't unlock today's task but
+ * "2 days after Thaw chicken" does. Null if the events haven't happened
+ * (or the task isn't triggered); may be later than now while the delay runs.
+ */
+export function getTriggerDueAt(
+  task: Task,
+  getEventFirings: (eventKey: string, since: Date) => string[],
+  now: Date = new Date()
+): Date | null {
+  const triggers = getTaskTriggers(task);
+  if (triggers.length === 0) return null;
+
+  const delay = task.triggerDelayMinutes ?? 0;
+  const since = subMinutes(startOfDay(now), delay);
+  const dueTimes = triggers.map((key) => {
+    const firings = getEventFirings(key, since);
+    if (firings.length === 0) return null;
+    const latest = firings.reduce((a, b) => (a > b ? a : b));
+    return addMinutes(new Date(latest), delay);
+  });
+
+  if (task.triggerMatch === 'any') {
+    const fired = dueTimes.filter((d): d is Date => d !== null);
+    if (fired.length === 0) return null;
+    return fired.reduce((a, b) => (a < b ? a : b));
+  }
+  if (dueTimes.some((d) => d === null)) return null;
+  return (dueTimes as Date[]).reduce((a, b) => (a > b ? a : b));
+}
+
+/** Whether a task should be showing: untriggered, or its events came due */
+export function isTaskTriggered(
+  task: Task,
+  getEventFirings: (eventKey: string, since: Date) => string[],
+  now: Date = new Date()
+): boolean {
+  if (getTaskTriggers(task).length === 0) return true;
+  const dueAt = getTriggerDueAt(task, getEventFirings, now);
+  return dueAt !== null && dueAt <= now;
+}
+
+/** "30 min", "2 hr", "2 days", "1 day 3 hr" */
+export function describeDelay(minutes: number): string {
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const mins = minutes % 60;
+  const parts = [
+    days > 0 ? `${days} day${days === 1 ? '' : 's'}` : '',
+    hours > 0 ? `${hours} hr` : '',
+    mins > 0 ? `${mins} min` : '',
+  ].filter(Boolean);
+  return parts.join(' ') || 'right away';
+}
+
+interface TriggerLookups {
+  getChildName: (id: string) => string | undefined;
+  getTaskTitle: (id: string) => string | undefined;
+  getRoutineName: (id: string) => string | undefined;
+}
+
+/** A trigger event in words, e.g. "Put laundry in is done", "Julian's pickup" */
+export function describeTrigger(eventKey: string, lookups: TriggerLookups): string {
+  const [type, id] = eventKey.split(':');
+  const child = id ? lookups.getChildName(id) : undefined;
+  switch (type) {
+    case 'nap-end':
+      return child ? `${child}'s nap ends` : 'any nap ends';
+    case 'care-block-start':
+      return child ? `${child}'s drop-off` : 'drop-off';
+    case 'care-block-end':
+      return child ? `${child}'s pickup` : 'pickup';
+    case 'task-complete':
+      return `${lookups.getTaskTitle(id) ?? 'a deleted task'} is done`;
+    case 'routine-complete':
+      return `${lookups.getRoutineName(id) ?? 'a deleted stack'} is finished`;
+    default:
+      return eventKey;
+  }
+}
+
+const TASK_COMPLETE = 'task-complete:';
+
+function getUpstreamTaskIds(task: Task): string[] {
+  return getTaskTriggers(task)
+    .filter((key) => key.startsWith(TASK_COMPLETE))
+    .map((key) => key.slice(TASK_COMPLETE.length));
+}
+
+/** Whether a task already waits on `targetId`, directly or further up its chain */
+export function dependsOnTask(task: Task, targetId: string, tasks: Task[], seen = new Set<string>()): boolean {
+  if (seen.has(task.id)) return false;
+  seen.add(task.id);
+  return getUpstreamTaskIds(task).some((id) => {
+    if (id === targetId) return true;
+    const upstream = tasks.find((t) => t.id === id);
+    return !!upstream && dependsOnTask(upstream, targetId, tasks, seen);
+  });
+}
+
+export interface ChainStep {
+  label: string;
+  delayMinutes: number;   // wait after the previous step
+  isCurrent: boolean;
+}
+
+/**
+ * The chain around a task for previewing: what it waits on (following
+ * single task triggers back), the task itself, then the tasks waiting on it
+ */
+export function getTriggerChain(
+  task: Task,
+  tasks: Task[],
+  describe: (eventKey: string) => string
+): ChainStep[] {
+  const steps: ChainStep[] = [{ label: task.title, delayMinutes: task.triggerDelayMinutes ?? 0, isCurrent: true }];
+  const seen = new Set([task.id]);
+
+  let current = task;
+  while (true) {
+    const triggers = getTaskTriggers(current);
+    if (triggers.length === 0) {
+      steps[0].delayMinutes = 0;
+      break;
+    }
+    const upstream = triggers.length === 1 && triggers[0].startsWith(TASK_COMPLETE)
+      ? tasks.find((t) => t.id === triggers[0].slice(TASK_COMPLETE.length))
+      : undefined;
+    if (!upstream || seen.has(upstream.id)) {
+      const joiner = current.triggerMatch === 'any' ? ' or ' : ' and ';
+      steps.unshift({ label: triggers.map(describe).join(joiner), delayMinutes: 0, isCurrent: false });
+      break;
+    }
+    seen.add(upstream.id);
+    steps.unshift({ label: upstream.title, delayMinutes: upstream.triggerDelayMinutes ?? 0, isCurrent: false });
+    current = upstream;
+  }
+
+  tasks
+    .filter((t) => !seen.has(t.id) && getUpstreamTaskIds(t).includes(task.id))
+    .forEach((t) => steps.push({ label: t.title, delayMinutes: t.triggerDelayMinutes ?? 0, isCurrent: false }));
+
+  return steps;
+}
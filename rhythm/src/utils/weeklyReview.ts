@@ -0,0 +1,109 @@
+import { parseISO } from 'date-fns';
+import type { AvailabilityWindow, CompletionRate, Flower, Task, TaskInstance, TaskTier, WeeklyReview } from '../types';
+
+const TIERS: TaskTier[] = ['fixed-schedule', 'routine', 'todo'];
+
+// Routines shown as "skipped most"
+const MOST_SKIPPED_LIMIT = 5;
+
+interface WeekInput {
+  days: string[];                // the week's dates, oldest first; the last is today
+  tasks: Task[];
+  instances: TaskInstance[];
+  excludedInstanceIds: Set<string>;  // seeds dismissed or expired from the tray
+  expiredSeeds: { instanceId: string; expiredAt: string }[];
+  windows: AvailabilityWindow[]; // free and quiet windows across the week
+  flowers: Flower[];
+  durationOf: (task: Task) => number;
+}
+
+/** Tasks that count toward completion rates (not notes or care handoffs) */
+export function countsTowardCompletion(task: Task): boolean {
+  return !task.isInformational && task.childTaskType !== 'pickup' && task.childTaskType !== 'dropoff';
+}
+
+function addTo(rates: Partial<Record<string, CompletionRate>>, key: string, completed: boolean) {
+  const rate = rates[key] ?? { completed: 0, total: 0 };
+  rates[key] = { completed: rate.completed + (completed ? 1 : 0), total: rate.total + 1 };
+}
+
+function minutesOfDay(iso: string): number {
+  const date = parseISO(iso);
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+/**
+ * Summarise a week of task instances for the weekly review: completion
+ * rates, routines that keep getting missed, expired seeds, and how much
+ * free/quiet time went to getting things done
+ */
+export function summarizeWeek(input: WeekInput): WeeklyReview {
+  const { days, tasks, instances, excludedInstanceIds, windows, durationOf } = input;
+  const today = days[days.length - 1];
+  const daySet = new Set(days);
+  const taskById = new Map(tasks.map((task) => [task.id, task]));
+
+  const byTier = Object.fromEntries(
+    TIERS.map((tier) => [tier, { completed: 0, total: 0 }])
+  ) as Record<TaskTier, CompletionRate>;
+  const byCategory: WeeklyReview['byCategory'] = {};
+  const missedRoutines = new Map<string, { missed: number; total: number }>();
+  let usedMinutes = 0;
+
+  for (const instance of instances) {
+    if (!daySet.has(instance.date) || instance.status === 'deferred') continue;
+    if (excludedInstanceIds.has(instance.id)) continue;
+    const task = taskById.get(instance.taskId);
+    if (!task || !countsTowardCompletion(task)) continue;
+
+    const completed = instance.status === 'completed';
+    addTo(byTier, task.tier, completed);
+    addTo(byCategory, task.category, completed);
+
+    // Today's pending routines aren't missed yet
+    if (task.tier === 'routine') {
+      const stats = missedRoutines.get(task.id) ?? { missed: 0, total: 0 };
+      const missed = instance.status === 'skipped' || (instance.status === 'pending' && instance.date < today);
+      missedRoutines.set(task.id, { missed: stats.missed + (missed ? 1 : 0), total: stats.total + 1 });
+    }
+
+    // Completed during a free or quiet window counts as time used
+    if (completed && instance.completedAt) {
+      const doneAt = minutesOfDay(instance.completedAt);
+      const inWindow = windows.some(
+        (w) => w.date === instance.date && doneAt >= w.startMinutes && doneAt <= w.endMinutes
+      );
+      if (inWindow) {
+        usedMinutes += instance.startedAt
+          ? Math.max(0, Math.round((parseISO(instance.completedAt).getTime() - parseISO(instance.startedAt).getTime()) / 60000))
+          : durationOf(task);
+      }
+    }
+  }
+
+  const availableMinutes = windows.reduce((sum, w) => sum + w.durationMinutes, 0);
+
+  return {
+    start: days[0],
+    end: today,
+    byTier,
+    byCategory,
+    mostSkipped: [...missedRoutines.entries()]
+      .filter(([, stats]) => stats.missed > 0)
+      .sort(([, a], [, b]) => b.missed - a.missed || a.total - b.total)
+      .slice(0, MOST_SKIPPED_LIMIT)
+      .map(([taskId, stats]) => ({ taskId, ...stats })),
+    expiredSeeds: input.expiredSeeds
+      .map(({ instanceId, expiredAt }) => {
+        const instance = instances.find((i) => i.id === instanceId);
+        // Still expired, or re-seeded from this review
+        return instance && (instance.status === 'skipped' || instance.status === 'deferred')
+          ? { taskId: instance.taskId, instanceId, expiredAt }
+          : null;
+      })
+      .filter((seed): seed is WeeklyReview['expiredSeeds'][number] => seed !== null && taskById.has(seed.taskId)),
+    availableMinutes,
+    usedMinutes: Math.min(usedMinutes, availableMinutes),
+    flowersEarned: input.flowers.filter((f) => daySet.has(f.earnedDate.slice(0, 10))).length,
+  };
+}